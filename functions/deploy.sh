@@ -33,7 +33,20 @@ if [ $? -eq 0 ]; then
     echo "✅ Deployment successful!"
     echo ""
     echo "🎯 Functions deployed:"
-    echo "  - generateVideoThumbnail (HTTPS callable)"
+    echo "  - enqueueMediaJob (HTTPS callable)"
+    echo "  - generateVideoThumbnail (HTTPS callable, deprecated)"
+    echo "  - runMediaJob (Firestore onWrite)"
+    echo "  - requeueMediaJobs (scheduled)"
+    echo "  - completeChunkedUpload (HTTPS callable)"
+    echo "  - cleanupAbandonedUploads (scheduled)"
+    echo "  - rollbackMediaVersion (HTTPS callable)"
+    echo "  - processVideoUpload (Storage onFinalize)"
+    echo "  - updatePosterDerivatives (Firestore onUpdate)"
+    echo "  - updateStorageUsage (Firestore onWrite)"
+    echo "  - recordViewEgress (Firestore onWrite)"
+    echo "  - updateViewRollups (Firestore onWrite)"
+    echo "  - updateShareRollups (Firestore onCreate)"
+    echo "  - rebuildAnalyticsRollups (scheduled)"
     echo "  - healthCheck (HTTP endpoint)"
     echo ""
     echo "💡 Test your function:"
@@ -0,0 +1,282 @@
+import * as functions from 'firebase-functions';
+import { admin, db } from './firebase';
+
+// Daily analytics rollups read by the analytics page, one document per video or owner per UTC day:
+// `videoStatsDaily/{videoId}_{date}` and `ownerStatsDaily/{ownerUid}_{date}`
+export const VIDEO_STATS_COLLECTION = 'videoStatsDaily';
+export const OWNER_STATS_COLLECTION = 'ownerStatsDaily';
+
+// Per-day markers of who has been counted, so the triggers can count unique viewers:
+// `{rollup}/{docId}/viewers/{viewerKey}`
+const VIEWERS_SUBCOLLECTION = 'viewers';
+
+const VIEW_SOURCES = ['direct', 'profile', 'discover', 'embed'];
+
+// The nightly rebuild recounts this many days before today, covering sessions still
+// reporting across midnight and any trigger that was missed or ran twice
+const REBUILD_DAYS = 2;
+const PAGE_SIZE = 1000;
+const BATCH_SIZE = 400;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface DailyStats {
+  views: number;
+  uniqueViewers: number;
+  watchTimeSeconds: number;
+  completedViews: number;
+  sources: Record<string, number>;
+  shares: number;
+}
+
+/**
+ * UTC day a timestamp falls on, e.g. "2025-03-14"
+ */
+function dateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Who a session counts as for unique viewers: the account if signed in, otherwise the browser
+ */
+function viewerKey(view: FirebaseFirestore.DocumentData): string | null {
+  if (view.viewerUid) return `u_${view.viewerUid}`;
+  if (view.viewerId) return `a_${view.viewerId}`;
+  return null;
+}
+
+function rollupRefs(videoId: string, ownerUid: string, date: string) {
+  return {
+    video: db.collection(VIDEO_STATS_COLLECTION).doc(`${videoId}_${date}`),
+    owner: db.collection(OWNER_STATS_COLLECTION).doc(`${ownerUid}_${date}`)
+  };
+}
+
+/**
+ * Whether a day is at or past the oldest the nightly rebuild recounts. Its rollups are either
+ * about to be recounted or final, so the triggers leave them alone rather than drift from the recount.
+ */
+function outsideRebuildWindow(date: string): boolean {
+  return date <= dateKey(new Date(Date.now() - REBUILD_DAYS * DAY_MS));
+}
+
+// Markers are only needed while the day's rollup can still change
+const markerExpiry = (date: string) =>
+  admin.firestore.Timestamp.fromMillis(Date.parse(date) + (REBUILD_DAYS + 2) * DAY_MS);
+
+// Keep the day's rollups current as playback sessions arrive. Sessions are only counted when they
+// start and when they complete, not on every heartbeat, so a popular owner's rollup isn't written
+// several times a second. Watch time is added when a session completes; rebuildAnalyticsRollups
+// recounts each day from the sessions once it has ended, including watch time of sessions that
+// never completed, and sessions of days it no longer recounts are left out here.
+export const updateViewRollups = functions
+  .region('us-central1')
+  .firestore.database('folio-nicco')
+  .document('videoViews/{viewId}')
+  .onWrite(async (change) => {
+    const before = change.before.data();
+    const view = change.after.data();
+    // Views from before playback sessions aren't rolled up
+    if (!view?.sessionId || !view.ownerUid || !view.timestamp) return;
+
+    const created = !before;
+    const completed = !!view.completed && !before?.completed;
+    if (!created && !completed) return;
+
+    const date = dateKey(view.timestamp.toDate());
+    // A session that completes days after it started
+    if (outsideRebuildWindow(date)) return;
+
+    const refs = rollupRefs(view.videoId, view.ownerUid, date);
+    const increment = admin.firestore.FieldValue.increment;
+    const counts = (ref: FirebaseFirestore.DocumentReference, newViewer: boolean) => ({
+      ...(ref === refs.video && { videoId: view.videoId }),
+      ownerUid: view.ownerUid,
+      date,
+      views: increment(created ? 1 : 0),
+      uniqueViewers: increment(newViewer ? 1 : 0),
+      watchTimeSeconds: increment(completed ? Number(view.watchTimeSeconds) || 0 : 0),
+      completedViews: increment(completed ? 1 : 0),
+      ...(created && VIEW_SOURCES.includes(view.source) && { sources: { [view.source]: increment(1) } }),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+    });
+
+    const key = viewerKey(view);
+    if (!created || !key) {
+      const batch = db.batch();
+      [refs.video, refs.owner].forEach((ref) => batch.set(ref, counts(ref, false), { merge: true }));
+      await batch.commit();
+      return;
+    }
+
+    // A new session: check in the same transaction whether its viewer is new that day
+    await db.runTransaction(async (transaction) => {
+      const markerRefs = [refs.video, refs.owner].map((ref) => ref.collection(VIEWERS_SUBCOLLECTION).doc(key));
+      const markers = await transaction.getAll(...markerRefs);
+
+      [refs.video, refs.owner].forEach((ref, index) => {
+        const newViewer = !markers[index].exists;
+        transaction.set(ref, counts(ref, newViewer), { merge: true });
+        if (newViewer) {
+          transaction.set(markerRefs[index], { expiresAt: markerExpiry(date) });
+        }
+      });
+    });
+  });
+
+// Count shares into the day's rollups as they are recorded
+export const updateShareRollups = functions
+  .region('us-central1')
+  .firestore.database('folio-nicco')
+  .document('videoShares/{shareId}')
+  .onCreate(async (snapshot) => {
+    const share = snapshot.data();
+    if (!share.videoId || !share.ownerUid) return;
+
+    const timestamp: FirebaseFirestore.Timestamp | undefined = share.timestamp;
+    const date = dateKey(timestamp ? timestamp.toDate() : new Date());
+    const refs = rollupRefs(share.videoId, share.ownerUid, date);
+    const update = {
+      ownerUid: share.ownerUid,
+      date,
+      shares: admin.firestore.FieldValue.increment(1),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+    };
+
+    const batch = db.batch();
+    batch.set(refs.video, { videoId: share.videoId, ...update }, { merge: true });
+    batch.set(refs.owner, update, { merge: true });
+    await batch.commit();
+  });
+
+const emptyStats = (): DailyStats => ({
+  views: 0,
+  uniqueViewers: 0,
+  watchTimeSeconds: 0,
+  completedViews: 0,
+  sources: Object.fromEntries(VIEW_SOURCES.map((source) => [source, 0])),
+  shares: 0
+});
+
+/**
+ * Every document of a collection with a timestamp within [start, end), a page at a time
+ */
+async function* queryDay(collection: string, start: Date, end: Date, fields: string[]) {
+  let query = db.collection(collection)
+    .where('timestamp', '>=', admin.firestore.Timestamp.fromDate(start))
+    .where('timestamp', '<', admin.firestore.Timestamp.fromDate(end))
+    .orderBy('timestamp')
+    .select(...fields)
+    .limit(PAGE_SIZE);
+
+  for (;;) {
+    const snapshot = await query.get();
+    yield* snapshot.docs.map((doc) => doc.data());
+    if (snapshot.size < PAGE_SIZE) return;
+    query = query.startAfter(snapshot.docs[snapshot.size - 1]);
+  }
+}
+
+/**
+ * Every rollup document of a collection for a day, a page at a time
+ */
+async function* rollupsForDay(collection: string, date: string) {
+  let query = db.collection(collection)
+    .where('date', '==', date)
+    .orderBy(admin.firestore.FieldPath.documentId())
+    .select()
+    .limit(PAGE_SIZE);
+
+  for (;;) {
+    const snapshot = await query.get();
+    yield* snapshot.docs.map((doc) => doc.ref);
+    if (snapshot.size < PAGE_SIZE) return;
+    query = query.startAfter(snapshot.docs[snapshot.size - 1]);
+  }
+}
+
+/**
+ * Recount one day's rollups from its sessions and shares, replacing what the triggers counted.
+ * Rollups for videos and owners with nothing left that day (e.g. a deleted session) are deleted.
+ * @param date - UTC day, e.g. "2025-03-14"
+ * @returns How many video and owner rollups were written
+ */
+export async function rebuildDailyRollups(date: string): Promise<{ videos: number; owners: number }> {
+  const start = new Date(`${date}T00:00:00.000Z`);
+  const end = new Date(start.getTime() + DAY_MS);
+
+  const videos = new Map<string, DailyStats & { ownerUid: string; viewers: Set<string> }>();
+  const owners = new Map<string, DailyStats & { viewers: Set<string> }>();
+  const statsFor = (videoId: string, ownerUid: string) => {
+    if (!videos.has(videoId)) videos.set(videoId, { ...emptyStats(), ownerUid, viewers: new Set() });
+    if (!owners.has(ownerUid)) owners.set(ownerUid, { ...emptyStats(), viewers: new Set() });
+    return [videos.get(videoId)!, owners.get(ownerUid)!];
+  };
+
+  const viewFields = ['sessionId', 'videoId', 'ownerUid', 'viewerUid', 'viewerId', 'source', 'watchTimeSeconds', 'completed'];
+  for await (const view of queryDay('videoViews', start, end, viewFields)) {
+    if (!view.sessionId || !view.ownerUid) continue;
+    const key = viewerKey(view);
+    for (const stats of statsFor(view.videoId, view.ownerUid)) {
+      stats.views++;
+      stats.watchTimeSeconds += Number(view.watchTimeSeconds) || 0;
+      if (view.completed) stats.completedViews++;
+      if (VIEW_SOURCES.includes(view.source)) stats.sources[view.source]++;
+      if (key) stats.viewers.add(key);
+    }
+  }
+
+  for await (const share of queryDay('videoShares', start, end, ['videoId', 'ownerUid'])) {
+    if (!share.videoId || !share.ownerUid) continue;
+    for (const stats of statsFor(share.videoId, share.ownerUid)) {
+      stats.shares++;
+    }
+  }
+
+  // No data deletes the rollup
+  const writes: [FirebaseFirestore.DocumentReference, FirebaseFirestore.DocumentData | null][] = [];
+  const toDoc = ({ viewers, ...stats }: DailyStats & { viewers: Set<string> }) => ({
+    ...stats,
+    uniqueViewers: viewers.size,
+    date,
+    rebuiltAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp()
+  });
+  videos.forEach((stats, videoId) => {
+    writes.push([db.collection(VIDEO_STATS_COLLECTION).doc(`${videoId}_${date}`), { videoId, ...toDoc(stats) }]);
+  });
+  owners.forEach((stats, ownerUid) => {
+    writes.push([db.collection(OWNER_STATS_COLLECTION).doc(`${ownerUid}_${date}`), { ownerUid, ...toDoc(stats) }]);
+  });
+
+  const rewritten = new Set(writes.map(([ref]) => ref.path));
+  for (const collection of [VIDEO_STATS_COLLECTION, OWNER_STATS_COLLECTION]) {
+    for await (const ref of rollupsForDay(collection, date)) {
+      if (!rewritten.has(ref.path)) writes.push([ref, null]);
+    }
+  }
+
+  for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    writes.slice(i, i + BATCH_SIZE).forEach(([ref, data]) => (data ? batch.set(ref, data) : batch.delete(ref)));
+    await batch.commit();
+  }
+
+  return { videos: videos.size, owners: owners.size };
+}
+
+// Recount the last few days' rollups from scratch once they have ended
+export const rebuildAnalyticsRollups = functions
+  .region('us-central1')
+  .runWith({
+    timeoutSeconds: 540, // 9 minutes
+    memory: '1GB'
+  })
+  .pubsub.schedule('every day 01:00')
+  .timeZone('UTC')
+  .onRun(async () => {
+    for (let daysAgo = 1; daysAgo <= REBUILD_DAYS; daysAgo++) {
+      const date = dateKey(new Date(Date.now() - daysAgo * DAY_MS));
+      const { videos, owners } = await rebuildDailyRollups(date);
+      console.log(`Rebuilt analytics rollups for ${date}: ${videos} videos, ${owners} owners`);
+    }
+  });
@@ -0,0 +1,207 @@
+import * as ffmpeg from 'fluent-ffmpeg';
+import * as path from 'path';
+import { Bucket, db } from './firebase';
+import { ProbeResult, runFfmpeg } from './ffmpeg';
+import { mediaFolder } from './media';
+import { storagePathFromUrl } from './posters';
+import { FrameScores, scoreFrame } from './scoring';
+
+export type CandidateMode = 'scene' | 'percent';
+
+export interface ThumbnailCandidate {
+  id: string;
+  timestamp: number;
+  path: string;
+  url: string;
+  scores: FrameScores;
+}
+
+export const DEFAULT_CANDIDATE_COUNT = 6;
+export const MAX_CANDIDATE_COUNT = 12;
+
+// Scene score (0-1) above which a frame counts as a cut
+const SCENE_THRESHOLD = 0.3;
+
+// Skip the very start and end, which are usually black or titles
+const EDGE_MARGIN = 0.05;
+
+// Candidates closer together than this are treated as the same moment
+const MIN_SPACING_SEC = 1;
+
+/**
+ * Evenly spaced timestamps between the edge margins, e.g. 6 frames at roughly
+ * 18%, 32%, 45%, 59%, 72% and 86% of the duration.
+ */
+function percentTimestamps(durationSec: number, count: number): number[] {
+  const span = 1 - EDGE_MARGIN * 2;
+  return Array.from({ length: count }, (_, i) =>
+    durationSec * (EDGE_MARGIN + (span * (i + 1)) / (count + 1))
+  );
+}
+
+/**
+ * Find scene changes with FFmpeg's scene score. Frames are downscaled first
+ * because the score only needs coarse detail.
+ * @returns Timestamps in seconds of frames that start a new scene
+ */
+async function detectSceneChanges(sourcePath: string, label: string): Promise<number[]> {
+  const timestamps: number[] = [];
+
+  const command = ffmpeg(sourcePath)
+    .noAudio()
+    .videoFilter(`scale=320:-2,select='gt(scene,${SCENE_THRESHOLD})',showinfo`)
+    .outputOptions(['-vsync vfr', '-f null'])
+    .output('-')
+    .on('stderr', (line: string) => {
+      const match = line.match(/pts_time:\s*([\d.]+)/);
+      if (match) timestamps.push(parseFloat(match[1]));
+    });
+
+  await runFfmpeg(command, `Scene detection ${label}`);
+  return timestamps;
+}
+
+// Pick `count` items spread evenly across a sorted list
+function spreadPick(values: number[], count: number): number[] {
+  if (values.length <= count) return values;
+  return Array.from({ length: count }, (_, i) =>
+    values[Math.floor(((i + 0.5) * values.length) / count)]
+  );
+}
+
+/**
+ * Choose candidate timestamps. Scene mode prefers the first frame after a cut
+ * and tops up with evenly spaced frames when the video has few cuts.
+ */
+async function chooseTimestamps(
+  sourcePath: string,
+  durationSec: number,
+  count: number,
+  mode: CandidateMode,
+  label: string
+): Promise<number[]> {
+  const fallback = percentTimestamps(durationSec, count);
+  if (mode === 'percent') return fallback;
+
+  const minTime = durationSec * EDGE_MARGIN;
+  const maxTime = durationSec * (1 - EDGE_MARGIN);
+  const scenes = (await detectSceneChanges(sourcePath, label))
+    .filter(t => t >= minTime && t <= maxTime);
+
+  const chosen = spreadPick(scenes, count);
+  for (const t of fallback) {
+    if (chosen.length >= count) break;
+    if (chosen.every(existing => Math.abs(existing - t) >= MIN_SPACING_SEC)) {
+      chosen.push(t);
+    }
+  }
+
+  return chosen.sort((a, b) => a - b);
+}
+
+/**
+ * Delete candidates from earlier runs, except the one the video's poster points at.
+ * The poster is read at the end of a run so a pick made meanwhile is kept too.
+ */
+async function deleteEarlierCandidates(bucket: Bucket, videoId: string, storagePrefix: string, runPrefix: string) {
+  const posterUrl: string | undefined = (await db.collection('videos').doc(videoId).get()).data()?.playback?.posterUrl;
+  const posterPath = posterUrl ? storagePathFromUrl(posterUrl, bucket.name) : null;
+
+  const [files] = await bucket.getFiles({ prefix: `${storagePrefix}/` });
+  await Promise.all(files
+    .filter((file) => !file.name.startsWith(runPrefix) && file.name !== posterPath)
+    .map((file) => file.delete({ ignoreNotFound: true })));
+}
+
+/**
+ * Extract candidate poster frames from a video and upload them to their own run folder,
+ * `thumbnails/{videoId}/candidates/{run}/` (or the version's folder, see mediaFolder).
+ * Earlier runs are then deleted, apart from a candidate still in use as the poster.
+ * @param sourcePath - Local path to the video, or a ranged-read URL from getMediaReadUrl
+ * @param probe - Probe result for the video
+ * @param workDir - Scratch directory for extracted frames
+ * @param bucket - Storage bucket to upload into
+ * @param videoId - The video document ID
+ * @param options - Number of frames, how to choose them, and the media version
+ * @returns The uploaded candidates in timeline order, each with its poster scores
+ */
+export async function extractThumbnailCandidates(
+  sourcePath: string,
+  probe: ProbeResult,
+  workDir: string,
+  bucket: Bucket,
+  videoId: string,
+  options: { count?: number; mode?: CandidateMode; versionId?: string } = {}
+): Promise<ThumbnailCandidate[]> {
+  const count = Math.min(Math.max(Math.floor(options.count || DEFAULT_CANDIDATE_COUNT), 1), MAX_CANDIDATE_COUNT);
+  const mode = options.mode || 'scene';
+
+  if (!probe.durationSec) {
+    throw new Error('Video duration could not be determined');
+  }
+
+  const timestamps = await chooseTimestamps(sourcePath, probe.durationSec, count, mode, videoId);
+  const storagePrefix = `thumbnails/${mediaFolder(videoId, options.versionId)}/candidates`;
+  const generatedAt = Date.now();
+  // Each run writes to its own folder, so a retry or redrive never overwrites the live poster
+  const runPrefix = `${storagePrefix}/${generatedAt}/`;
+
+  const candidates: ThumbnailCandidate[] = [];
+
+  for (const [index, timestamp] of timestamps.entries()) {
+    const id = `candidate_${index}_${generatedAt}`;
+    const framePath = path.join(workDir, `${id}.jpg`);
+
+    const command = ffmpeg(sourcePath)
+      .seekInput(timestamp)
+      .frames(1)
+      .videoFilter(`scale='min(1280,iw)':-2`)
+      .outputOptions(['-q:v 2'])
+      .output(framePath);
+
+    await runFfmpeg(command, `Candidate ${videoId} @ ${timestamp.toFixed(2)}s`);
+    const scores = await scoreFrame(framePath);
+
+    const candidateStoragePath = `${runPrefix}${id}.jpg`;
+    await bucket.upload(framePath, {
+      destination: candidateStoragePath,
+      predefinedAcl: 'publicRead',
+      metadata: {
+        contentType: 'image/jpeg',
+        cacheControl: 'public, max-age=31536000', // 1 year
+        metadata: {
+          videoId,
+          timestamp: timestamp.toString(),
+          mode
+        }
+      }
+    });
+
+    candidates.push({
+      id,
+      timestamp: Math.round(timestamp * 100) / 100,
+      path: candidateStoragePath,
+      url: `https://storage.googleapis.com/${bucket.name}/${candidateStoragePath}`,
+      scores
+    });
+  }
+
+  try {
+    await deleteEarlierCandidates(bucket, videoId, storagePrefix, runPrefix);
+  } catch (cleanupError) {
+    // Leftovers only cost storage
+    console.warn('Failed to delete earlier thumbnail candidates:', cleanupError);
+  }
+
+  return candidates;
+}
+
+/**
+ * The candidate with the highest overall score, or null if every frame was unusable
+ */
+export function pickBestCandidate(candidates: ThumbnailCandidate[]): ThumbnailCandidate | null {
+  return candidates.reduce<ThumbnailCandidate | null>((best, candidate) => {
+    if (candidate.scores.overall <= 0) return best;
+    return !best || candidate.scores.overall > best.scores.overall ? candidate : best;
+  }, null);
+}
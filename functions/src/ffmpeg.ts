@@ -0,0 +1,123 @@
+import * as ffmpeg from 'fluent-ffmpeg';
+
+export interface EncodingPreset {
+  height: number;
+  videoBitrate: string;
+  maxRate: string;
+  bufSize: string;
+  audioBitrate: string;
+}
+
+export interface ProbeResult {
+  durationSec: number;
+  width: number;
+  height: number;
+  hasAudio: boolean;
+  raw: ffmpeg.FfprobeData;
+}
+
+/**
+ * Run ffprobe against a media file and summarize the primary streams
+ * @param filePath - Path to the media file on local disk, or a URL from getMediaReadUrl
+ * @returns Promise resolving to the probe summary
+ */
+export function probeVideo(filePath: string): Promise<ProbeResult> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err, data) => {
+      if (err) {
+        reject(new Error(`FFprobe failed: ${err.message}`));
+        return;
+      }
+
+      const videoStream = data.streams.find(s => s.codec_type === 'video');
+      if (!videoStream) {
+        reject(new Error('No video stream found'));
+        return;
+      }
+
+      resolve({
+        durationSec: Number(data.format.duration) || Number(videoStream.duration) || 0,
+        width: videoStream.width || 0,
+        height: videoStream.height || 0,
+        hasAudio: data.streams.some(s => s.codec_type === 'audio'),
+        raw: data
+      });
+    });
+  });
+}
+
+/**
+ * Run a prepared FFmpeg command to completion
+ * @param command - Configured fluent-ffmpeg command with output set
+ * @param label - Short description used in logs and errors
+ */
+export function runFfmpeg(command: ffmpeg.FfmpegCommand, label: string): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    command
+      .on('end', () => {
+        console.log(`${label} completed`);
+        resolve();
+      })
+      .on('error', (err) => {
+        console.error(`FFmpeg error (${label}):`, err);
+        reject(new Error(`FFmpeg processing failed: ${err.message}`));
+      })
+      .run();
+  });
+}
+
+/**
+ * Pick the presets to encode for a source of the given height. Presets above the
+ * source height are skipped; sources smaller than every preset get a single
+ * rendition at native height using the lowest preset's bitrates.
+ * @param presets - Ladder ordered highest first
+ * @param sourceHeight - Height of the source video in pixels
+ */
+export function selectPresets(presets: EncodingPreset[], sourceHeight: number): EncodingPreset[] {
+  const selected = presets.filter(p => p.height <= sourceHeight);
+  if (selected.length > 0) return selected;
+
+  const lowest = presets[presets.length - 1];
+  // libx264 with yuv420p requires even dimensions
+  return [{ ...lowest, height: Math.max(2, sourceHeight - (sourceHeight % 2)) }];
+}
+
+/**
+ * Output width for a rendition scaled to the given height, rounded to an even number
+ */
+export function scaledWidth(probe: ProbeResult, height: number): number {
+  if (probe.height <= 0) return 0;
+  return Math.round((probe.width * height) / probe.height / 2) * 2;
+}
+
+/**
+ * Apply web-safe H.264/AAC encoding settings for a preset to a command
+ * @param command - fluent-ffmpeg command to configure
+ * @param preset - Target height and bitrates
+ * @param hasAudio - Whether the source has an audio stream
+ */
+export function applyH264Preset(
+  command: ffmpeg.FfmpegCommand,
+  preset: EncodingPreset,
+  hasAudio: boolean
+): ffmpeg.FfmpegCommand {
+  command
+    .videoCodec('libx264')
+    .videoFilter(`scale=-2:${preset.height}`)
+    .outputOptions([
+      '-preset veryfast',
+      '-profile:v high',
+      '-pix_fmt yuv420p',
+      `-b:v ${preset.videoBitrate}`,
+      `-maxrate ${preset.maxRate}`,
+      `-bufsize ${preset.bufSize}`
+    ]);
+
+  if (hasAudio) {
+    command.audioCodec('aac').audioBitrate(preset.audioBitrate).audioChannels(2);
+  } else {
+    command.noAudio();
+  }
+
+  return command;
+}
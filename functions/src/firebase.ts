@@ -0,0 +1,14 @@
+import * as admin from 'firebase-admin';
+
+// Initialize Firebase Admin SDK
+admin.initializeApp();
+
+// Get Firestore instance for folio-nicco database
+export const db = admin.firestore();
+db.settings({ databaseId: 'folio-nicco' });
+
+// Get Storage instance
+export const storage = admin.storage();
+export type Bucket = ReturnType<typeof storage.bucket>;
+
+export { admin };
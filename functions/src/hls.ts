@@ -0,0 +1,135 @@
+import * as ffmpeg from 'fluent-ffmpeg';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Bucket } from './firebase';
+import { EncodingPreset, ProbeResult, applyH264Preset, runFfmpeg, scaledWidth, selectPresets } from './ffmpeg';
+import { mediaFolder } from './media';
+
+export interface HlsVariant {
+  height: number;
+  width: number;
+  bandwidth: number;
+  playlistPath: string;
+}
+
+export interface HlsPackage {
+  masterPath: string;
+  url: string;
+  variants: HlsVariant[];
+}
+
+// Adaptive bitrate ladder, highest first. Rungs above the source height are skipped.
+const HLS_LADDER: EncodingPreset[] = [
+  { height: 2160, videoBitrate: '16000k', maxRate: '17120k', bufSize: '24000k', audioBitrate: '192k' },
+  { height: 1080, videoBitrate: '5000k', maxRate: '5350k', bufSize: '7500k', audioBitrate: '192k' },
+  { height: 720, videoBitrate: '2800k', maxRate: '2996k', bufSize: '4200k', audioBitrate: '128k' },
+  { height: 360, videoBitrate: '800k', maxRate: '856k', bufSize: '1200k', audioBitrate: '96k' }
+];
+
+const SEGMENT_SECONDS = 6;
+
+// H.264 High profile level per rung, used for both the encoder and the CODECS attribute
+function h264Level(height: number): { level: string; codecTag: string } {
+  if (height <= 720) return { level: '3.1', codecTag: 'avc1.64001f' };
+  if (height <= 1080) return { level: '4.0', codecTag: 'avc1.640028' };
+  return { level: '5.1', codecTag: 'avc1.640033' };
+}
+
+// Peak bandwidth in bits per second as advertised in the master playlist
+function variantBandwidth(preset: EncodingPreset, hasAudio: boolean): number {
+  const kbps = parseInt(preset.maxRate, 10) + (hasAudio ? parseInt(preset.audioBitrate, 10) : 0);
+  return kbps * 1000;
+}
+
+/**
+ * Encode the source into an HLS ladder and upload the segments and playlists
+ * to `renditions/{videoId}/hls/` (or the version's folder, see mediaFolder).
+ * @param sourcePath - Local path to the source video, or a ranged-read URL from getMediaReadUrl
+ * @param probe - Probe result for the source
+ * @param workDir - Scratch directory for encoder output
+ * @param bucket - Storage bucket to upload into
+ * @param videoId - The video document ID
+ * @param versionId - Media version when packaging replacement media
+ * @returns The uploaded master playlist and its variants
+ */
+export async function packageHls(
+  sourcePath: string,
+  probe: ProbeResult,
+  workDir: string,
+  bucket: Bucket,
+  videoId: string,
+  versionId?: string
+): Promise<HlsPackage> {
+  const storagePrefix = `renditions/${mediaFolder(videoId, versionId)}/hls`;
+  const variants: HlsVariant[] = [];
+  const masterLines = ['#EXTM3U', '#EXT-X-VERSION:3'];
+
+  for (const preset of selectPresets(HLS_LADDER, probe.height)) {
+    const variantName = `${preset.height}p`;
+    const variantDir = path.join(workDir, 'hls', variantName);
+    fs.mkdirSync(variantDir, { recursive: true });
+
+    const { level, codecTag } = h264Level(preset.height);
+    const command = applyH264Preset(ffmpeg(sourcePath), preset, probe.hasAudio)
+      .outputOptions([
+        `-level ${level}`,
+        // Keyframes on segment boundaries so every rung switches cleanly
+        `-force_key_frames expr:gte(t,n_forced*${SEGMENT_SECONDS})`,
+        '-sc_threshold 0',
+        `-hls_time ${SEGMENT_SECONDS}`,
+        '-hls_playlist_type vod',
+        `-hls_segment_filename ${path.join(variantDir, 'segment_%04d.ts')}`,
+        '-f hls'
+      ])
+      .output(path.join(variantDir, 'index.m3u8'));
+
+    await runFfmpeg(command, `HLS ${videoId} ${variantName}`);
+
+    for (const fileName of fs.readdirSync(variantDir)) {
+      const isPlaylist = fileName.endsWith('.m3u8');
+      await bucket.upload(path.join(variantDir, fileName), {
+        destination: `${storagePrefix}/${variantName}/${fileName}`,
+        predefinedAcl: 'publicRead',
+        metadata: {
+          contentType: isPlaylist ? 'application/vnd.apple.mpegurl' : 'video/mp2t',
+          cacheControl: 'public, max-age=31536000' // 1 year
+        }
+      });
+    }
+
+    // Free tmpfs space before encoding the next rung
+    fs.rmSync(variantDir, { recursive: true, force: true });
+
+    const width = scaledWidth(probe, preset.height);
+    const bandwidth = variantBandwidth(preset, probe.hasAudio);
+    const codecs = probe.hasAudio ? `${codecTag},mp4a.40.2` : codecTag;
+
+    masterLines.push(
+      `#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth},RESOLUTION=${width}x${preset.height},CODECS="${codecs}"`,
+      `${variantName}/index.m3u8`
+    );
+
+    variants.push({
+      height: preset.height,
+      width,
+      bandwidth,
+      playlistPath: `${storagePrefix}/${variantName}/index.m3u8`
+    });
+  }
+
+  const masterPath = `${storagePrefix}/master.m3u8`;
+  await bucket.file(masterPath).save(masterLines.join('\n') + '\n', {
+    predefinedAcl: 'publicRead',
+    metadata: {
+      contentType: 'application/vnd.apple.mpegurl',
+      // Short cache so a reprocessed ladder is picked up quickly
+      cacheControl: 'public, max-age=300'
+    }
+  });
+
+  return {
+    masterPath,
+    url: `https://storage.googleapis.com/${bucket.name}/${masterPath}`,
+    variants
+  };
+}
@@ -0,0 +1,154 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { admin, db, storage } from './firebase';
+import { probeVideo } from './ffmpeg';
+import { CandidateMode, extractThumbnailCandidates } from './candidates';
+import { getMediaReadUrl, mediaExists } from './media';
+import { MediaJob, MediaJobType, PermanentJobError } from './queue';
+import { buildStoryboard } from './storyboard';
+import { extractTechMeta } from './techMeta';
+import { ThumbnailQuality, captureThumbnail } from './thumbnail';
+import { transcodeVideo } from './transcode';
+
+export type MediaJobHandler = (job: MediaJob) => Promise<Record<string, unknown>>;
+
+async function loadVideo(videoId: string) {
+  const videoDoc = await db.collection('videos').doc(videoId).get();
+  if (!videoDoc.exists) {
+    throw new PermanentJobError('Video not found');
+  }
+  return videoDoc;
+}
+
+/**
+ * Resolve which object to read for a video. Frame grabs can use the top MP4
+ * rendition, which is much smaller than the master and plenty for posters.
+ */
+async function resolveSource(videoData: FirebaseFirestore.DocumentData | undefined, preferRendition: boolean): Promise<string> {
+  // A browser-made proxy decodes faster than the master when there's no rendition yet
+  const candidates: (string | undefined)[] = preferRendition
+    ? [videoData?.playback?.renditions?.[0]?.path, videoData?.storage?.proxyPath, videoData?.storage?.path]
+    : [videoData?.storage?.path];
+
+  for (const candidate of candidates) {
+    if (candidate && await mediaExists(storage.bucket(), candidate)) {
+      return candidate;
+    }
+  }
+  throw new PermanentJobError('Video file not found or not accessible');
+}
+
+// Run a handler body with a scratch directory that is always removed
+async function withWorkDir<T>(prefix: string, run: (workDir: string) => Promise<T>): Promise<T> {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+  try {
+    return await run(workDir);
+  } finally {
+    try {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    } catch (cleanupError) {
+      console.warn('Failed to clean up temporary files:', cleanupError);
+    }
+  }
+}
+
+const handleTranscode: MediaJobHandler = async (job) => {
+  const filePath = job.params.path as string | undefined;
+  if (!filePath) throw new PermanentJobError('Missing upload path');
+
+  return transcodeVideo(
+    job.videoId,
+    filePath,
+    (job.params.bucket as string | undefined) || storage.bucket().name,
+    job.attempts >= job.maxAttempts,
+    job.params.versionId as string | undefined
+  );
+};
+
+const handleProbe: MediaJobHandler = async (job) => {
+  const videoDoc = await loadVideo(job.videoId);
+  const sourceStoragePath = await resolveSource(videoDoc.data(), false);
+
+  const probe = await probeVideo(await getMediaReadUrl(storage.bucket(), sourceStoragePath));
+  const techMetaDetected = extractTechMeta(probe.raw);
+
+  await videoDoc.ref.update({
+    techMetaDetected: {
+      ...techMetaDetected,
+      probedAt: admin.firestore.FieldValue.serverTimestamp()
+    }
+  });
+
+  return { techMetaDetected };
+};
+
+const handleThumbnail: MediaJobHandler = async (job) => {
+  const videoDoc = await loadVideo(job.videoId);
+  const sourceStoragePath = await resolveSource(videoDoc.data(), false);
+
+  const thumbnailUrl = await captureThumbnail(
+    storage.bucket(),
+    job.videoId,
+    sourceStoragePath,
+    job.params.timestamp as number,
+    (job.params.quality as ThumbnailQuality | undefined) || 'high'
+  );
+
+  // Update video document with new thumbnail URL
+  await videoDoc.ref.update({
+    'playback.posterUrl': thumbnailUrl,
+    'playback.posterSource': admin.firestore.FieldValue.delete(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp()
+  });
+
+  return { thumbnailUrl };
+};
+
+const handleCandidates: MediaJobHandler = async (job) => {
+  const videoDoc = await loadVideo(job.videoId);
+  const sourceStoragePath = await resolveSource(videoDoc.data(), true);
+  const bucket = storage.bucket();
+
+  return withWorkDir(`candidates_${job.videoId}_`, async (workDir) => {
+    // Streamed once for scene detection, then ranged reads for each frame
+    const videoUrl = await getMediaReadUrl(bucket, sourceStoragePath);
+    const probe = await probeVideo(videoUrl);
+    const candidates = await extractThumbnailCandidates(videoUrl, probe, workDir, bucket, job.videoId, {
+      count: job.params.count as number | undefined,
+      mode: job.params.mode as CandidateMode | undefined,
+      // Keep archived versions' candidates intact
+      versionId: videoDoc.data()?.currentVersionId
+    });
+
+    await videoDoc.ref.update({
+      thumbnailCandidates: candidates,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+    });
+
+    return { candidates };
+  });
+};
+
+const handleSprite: MediaJobHandler = async (job) => {
+  const videoDoc = await loadVideo(job.videoId);
+  const sourceStoragePath = await resolveSource(videoDoc.data(), true);
+  const bucket = storage.bucket();
+
+  return withWorkDir(`storyboard_${job.videoId}_`, async (workDir) => {
+    const videoUrl = await getMediaReadUrl(bucket, sourceStoragePath);
+    const probe = await probeVideo(videoUrl);
+    const storyboard = await buildStoryboard(videoUrl, probe, workDir, bucket, job.videoId, videoDoc.data()?.currentVersionId);
+
+    await videoDoc.ref.update({ storyboard });
+    return { storyboard };
+  });
+};
+
+export const MEDIA_JOB_HANDLERS: Record<MediaJobType, MediaJobHandler> = {
+  transcode: handleTranscode,
+  probe: handleProbe,
+  thumbnail: handleThumbnail,
+  candidates: handleCandidates,
+  sprite: handleSprite
+};
@@ -0,0 +1,226 @@
+import * as functions from 'firebase-functions';
+import { db } from './firebase';
+import { MEDIA_JOB_HANDLERS } from './jobHandlers';
+import {
+  MEDIA_JOBS_COLLECTION,
+  MediaJobStatus,
+  MediaJobType,
+  claimMediaJob,
+  enqueueMediaJob,
+  finishMediaJob,
+  requeueDueMediaJobs
+} from './queue';
+import { THUMBNAIL_QUALITY_SETTINGS } from './thumbnail';
+import { MAX_CANDIDATE_COUNT } from './candidates';
+
+// Job types owners may request from the client; transcodes are only queued by uploads
+const CLIENT_JOB_TYPES: MediaJobType[] = ['thumbnail', 'candidates', 'probe', 'sprite'];
+
+interface EnqueueMediaJobRequest {
+  type: MediaJobType;
+  videoId: string;
+  idempotencyKey: string;
+  params?: Record<string, unknown>;
+}
+
+interface EnqueueMediaJobResponse {
+  jobId: string;
+  queued: boolean;
+}
+
+/**
+ * Validate and normalise client parameters for a job type
+ * @throws HttpsError with `invalid-argument` for bad parameters
+ */
+function validateJobParams(
+  type: MediaJobType,
+  params: Record<string, unknown>,
+  videoData: FirebaseFirestore.DocumentData | undefined
+): Record<string, unknown> {
+  switch (type) {
+    case 'thumbnail': {
+      const timestamp = params.timestamp;
+      const quality = params.quality ?? 'high';
+
+      if (typeof timestamp !== 'number' || !Number.isFinite(timestamp) || timestamp < 0) {
+        throw new functions.https.HttpsError('invalid-argument', 'Missing or invalid timestamp');
+      }
+      if (typeof quality !== 'string' || !(quality in THUMBNAIL_QUALITY_SETTINGS)) {
+        throw new functions.https.HttpsError('invalid-argument', 'Quality must be "high", "medium" or "low"');
+      }
+
+      // Validate timestamp is within video duration (if available)
+      const durationSec = videoData?.techMeta?.durationSec || videoData?.techMetaDetected?.durationSec;
+      if (durationSec && timestamp > durationSec) {
+        throw new functions.https.HttpsError('invalid-argument', 'Timestamp exceeds video duration');
+      }
+
+      return { timestamp, quality };
+    }
+
+    case 'candidates': {
+      const mode = params.mode ?? 'scene';
+      const count = params.count;
+
+      if (mode !== 'scene' && mode !== 'percent') {
+        throw new functions.https.HttpsError('invalid-argument', 'Mode must be "scene" or "percent"');
+      }
+      if (count !== undefined && (typeof count !== 'number' || count < 1 || count > MAX_CANDIDATE_COUNT)) {
+        throw new functions.https.HttpsError('invalid-argument', `Count must be between 1 and ${MAX_CANDIDATE_COUNT}`);
+      }
+
+      return count === undefined ? { mode } : { mode, count };
+    }
+
+    default:
+      return {};
+  }
+}
+
+/**
+ * Queue a job an owner asked for, after checking the type, their ownership and the parameters
+ * @throws HttpsError for bad requests or videos the caller doesn't own
+ */
+async function enqueueOwnerMediaJob(uid: string, request: EnqueueMediaJobRequest): Promise<EnqueueMediaJobResponse> {
+  const { type, videoId, idempotencyKey, params = {} } = request;
+
+  if (!type || !videoId || !idempotencyKey) {
+    throw new functions.https.HttpsError(
+      'invalid-argument',
+      'Missing required parameters: type, videoId or idempotencyKey'
+    );
+  }
+
+  if (!CLIENT_JOB_TYPES.includes(type)) {
+    throw new functions.https.HttpsError(
+      'invalid-argument',
+      `Unsupported job type: ${type}`
+    );
+  }
+
+  const videoDoc = await db.collection('videos').doc(videoId).get();
+
+  if (!videoDoc.exists) {
+    throw new functions.https.HttpsError(
+      'not-found',
+      'Video not found'
+    );
+  }
+
+  const videoData = videoDoc.data();
+
+  if (videoData?.ownerUid !== uid) {
+    throw new functions.https.HttpsError(
+      'permission-denied',
+      'You do not have permission to edit this video'
+    );
+  }
+
+  return enqueueMediaJob({
+    type,
+    videoId,
+    ownerUid: uid,
+    // Scope keys to the job type so the same client key cannot alias another job
+    idempotencyKey: `${type}:${idempotencyKey}`,
+    params: validateJobParams(type, params, videoData)
+  });
+}
+
+// Owners enqueue media jobs here and then watch `mediaJobs/{jobId}` for the result
+export const enqueueMediaJobRequest = functions
+  .region('us-central1')
+  .https.onCall(async (data: EnqueueMediaJobRequest, context): Promise<EnqueueMediaJobResponse> => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        'unauthenticated',
+        'User must be authenticated'
+      );
+    }
+
+    return enqueueOwnerMediaJob(context.auth.uid, data);
+  });
+
+interface LegacyThumbnailRequest {
+  videoId: string;
+  timestamp: number;
+  userId: string;
+  quality?: string;
+}
+
+// Deprecated: the synchronous thumbnail callable from before the job queue, kept so clients
+// deployed before it keep working. It only queues a `thumbnail` job, so the response has no
+// `thumbnailUrl`; the poster is set when the job succeeds. Remove once no client calls it.
+export const generateVideoThumbnail = functions
+  .region('us-central1')
+  .https.onCall(async (data: LegacyThumbnailRequest, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        'unauthenticated',
+        'User must be authenticated'
+      );
+    }
+
+    const { videoId, timestamp, userId, quality = 'high' } = data;
+
+    if (userId && context.auth.uid !== userId) {
+      throw new functions.https.HttpsError(
+        'permission-denied',
+        'User ID mismatch'
+      );
+    }
+
+    const { jobId, queued } = await enqueueOwnerMediaJob(context.auth.uid, {
+      type: 'thumbnail',
+      videoId,
+      idempotencyKey: `legacy:${videoId}:${timestamp}:${quality}`,
+      params: { timestamp, quality }
+    });
+
+    return { success: true, jobId, queued, deprecated: 'Use enqueueMediaJob and watch mediaJobs/{jobId}' };
+  });
+
+// Worker: runs whenever a job enters `queued` (on creation, after backoff, or
+// after a lease expires). The lease makes sure only one worker runs a job.
+export const runMediaJob = functions
+  .region('us-central1')
+  .runWith({
+    timeoutSeconds: 540, // 9 minutes
+    memory: '4GB'
+  })
+  .firestore.database('folio-nicco')
+  .document(`${MEDIA_JOBS_COLLECTION}/{jobId}`)
+  .onWrite(async (change, context) => {
+    const status = change.after.data()?.status as MediaJobStatus | undefined;
+    const previousStatus = change.before.data()?.status as MediaJobStatus | undefined;
+    if (status !== 'queued' || previousStatus === 'queued') return;
+
+    const jobId = context.params.jobId;
+    const workerId = context.eventId;
+
+    const job = await claimMediaJob(jobId, workerId);
+    if (!job) return;
+
+    console.log(`Running media job ${jobId} (${job.type}) attempt ${job.attempts}/${job.maxAttempts}`);
+
+    let outcome: { result: Record<string, unknown> } | { error: unknown };
+    try {
+      outcome = { result: await MEDIA_JOB_HANDLERS[job.type](job) };
+    } catch (error) {
+      console.error(`Media job ${jobId} failed:`, error);
+      outcome = { error };
+    }
+
+    const finalStatus = await finishMediaJob(jobId, workerId, outcome);
+    console.log(`Media job ${jobId} finished as`, finalStatus);
+  });
+
+// Requeue jobs whose backoff has elapsed and recover jobs from crashed workers
+export const requeueMediaJobs = functions
+  .region('us-central1')
+  .pubsub.schedule('every 1 minutes')
+  .onRun(async () => {
+    const { requeued, deadLettered } = await requeueDueMediaJobs();
+    if (requeued || deadLettered) {
+      console.log(`Requeued ${requeued} media jobs, dead-lettered ${deadLettered}`);
+    }
+  });
@@ -0,0 +1,58 @@
+import { Bucket } from './firebase';
+
+// Long enough for every transcoding pass over a long master within the job timeout
+const READ_URL_TTL_MS = 30 * 60 * 1000; // 30 minutes
+
+/**
+ * Origin of the Storage emulator when running under `firebase emulators:start`
+ */
+function storageEmulatorOrigin(): string | null {
+  const host = process.env.FIREBASE_STORAGE_EMULATOR_HOST || process.env.STORAGE_EMULATOR_HOST;
+  if (!host) return null;
+  return host.startsWith('http') ? host : `http://${host}`;
+}
+
+/**
+ * Check that a Storage object exists before handing it to FFmpeg
+ * @param bucket - Bucket holding the object
+ * @param storagePath - Object path, e.g. `uploads/{uid}/{file}`
+ */
+export async function mediaExists(bucket: Bucket, storagePath: string): Promise<boolean> {
+  const [exists] = await bucket.file(storagePath).exists();
+  return exists;
+}
+
+/**
+ * Short-lived URL FFmpeg can read a Storage object from. FFmpeg's HTTP input
+ * issues range requests, so seeking to a timestamp only transfers the bytes it
+ * needs instead of the whole master. Uses a V4 signed URL in production and the
+ * emulator's download endpoint when `FIREBASE_STORAGE_EMULATOR_HOST` is set.
+ * @param bucket - Bucket holding the object
+ * @param storagePath - Object path, e.g. `uploads/{uid}/{file}`
+ * @returns URL suitable as an FFmpeg/ffprobe input
+ */
+export async function getMediaReadUrl(bucket: Bucket, storagePath: string): Promise<string> {
+  const emulatorOrigin = storageEmulatorOrigin();
+  if (emulatorOrigin) {
+    // The emulator's Cloud Storage API, which like the Admin SDK isn't subject to storage.rules
+    return `${emulatorOrigin}/storage/v1/b/${bucket.name}/o/${encodeURIComponent(storagePath)}?alt=media`;
+  }
+
+  const [url] = await bucket.file(storagePath).getSignedUrl({
+    version: 'v4',
+    action: 'read',
+    expires: Date.now() + READ_URL_TTL_MS
+  });
+  return url;
+}
+
+/**
+ * Folder for a video's generated media under `renditions/` and `thumbnails/`.
+ * Replacement media gets its own folder so the live files are untouched until
+ * the new version is swapped in.
+ * @param videoId - The video document ID
+ * @param versionId - Media version, or undefined for the video's first upload
+ */
+export function mediaFolder(videoId: string, versionId?: string): string {
+  return versionId ? `${videoId}/versions/${versionId}` : videoId;
+}
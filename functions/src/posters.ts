@@ -0,0 +1,144 @@
+import * as functions from 'firebase-functions';
+import * as sharp from 'sharp';
+import { Bucket, admin, storage } from './firebase';
+
+export type PosterFormat = 'avif' | 'webp' | 'jpeg';
+
+// URLs keyed by format, then by width in pixels
+export interface PosterSet {
+  sourceUrl: string;
+  widths: number[];
+  avif: Record<string, string>;
+  webp: Record<string, string>;
+  jpeg: Record<string, string>;
+}
+
+export const POSTER_WIDTHS = [320, 640, 1280, 1920];
+
+const FORMAT_SETTINGS: Record<PosterFormat, { extension: string; contentType: string }> = {
+  avif: { extension: 'avif', contentType: 'image/avif' },
+  webp: { extension: 'webp', contentType: 'image/webp' },
+  jpeg: { extension: 'jpg', contentType: 'image/jpeg' }
+};
+
+/**
+ * Resolve a poster URL to an object path in the given bucket. Handles public
+ * `storage.googleapis.com` URLs and Firebase download URLs.
+ * @returns The object path, or null if the URL points elsewhere
+ */
+export function storagePathFromUrl(url: string, bucketName: string): string | null {
+  try {
+    const parsed = new URL(url);
+
+    if (parsed.hostname === 'storage.googleapis.com') {
+      const prefix = `/${bucketName}/`;
+      return parsed.pathname.startsWith(prefix)
+        ? decodeURIComponent(parsed.pathname.slice(prefix.length))
+        : null;
+    }
+
+    if (parsed.hostname === 'firebasestorage.googleapis.com') {
+      const match = parsed.pathname.match(/^\/v0\/b\/([^/]+)\/o\/(.+)$/);
+      return match && match[1] === bucketName ? decodeURIComponent(match[2]) : null;
+    }
+  } catch {
+    // Not a valid URL
+  }
+
+  return null;
+}
+
+/**
+ * Encode a poster into every size and format and upload them to
+ * `thumbnails/{videoId}/{width}.{jpg,webp,avif}`. Sizes wider than the source
+ * are skipped, except the smallest, so there is always at least one derivative.
+ * @param image - Source poster image bytes
+ * @param sourceUrl - URL the poster was read from, stored so unchanged posters are not reprocessed
+ * @param bucket - Storage bucket to upload into
+ * @param videoId - The video document ID
+ * @returns Public URLs for each derivative
+ */
+export async function generatePosterDerivatives(
+  image: Buffer,
+  sourceUrl: string,
+  bucket: Bucket,
+  videoId: string
+): Promise<PosterSet> {
+  const { width: sourceWidth = POSTER_WIDTHS[0] } = await sharp(image).metadata();
+  const widths = POSTER_WIDTHS.filter((w, i) => i === 0 || w <= sourceWidth);
+
+  // Paths are stable per size, so bust caches with the generation time instead
+  const version = Date.now();
+  const posters: PosterSet = { sourceUrl, widths, avif: {}, webp: {}, jpeg: {} };
+
+  for (const width of widths) {
+    const resized = sharp(image).rotate().resize({ width, withoutEnlargement: true });
+
+    const outputs: Record<PosterFormat, Promise<Buffer>> = {
+      avif: resized.clone().avif({ quality: 50 }).toBuffer(),
+      webp: resized.clone().webp({ quality: 78 }).toBuffer(),
+      jpeg: resized.clone().jpeg({ quality: 82, progressive: true, mozjpeg: true }).toBuffer()
+    };
+
+    for (const format of Object.keys(FORMAT_SETTINGS) as PosterFormat[]) {
+      const { extension, contentType } = FORMAT_SETTINGS[format];
+      const posterPath = `thumbnails/${videoId}/${width}.${extension}`;
+
+      await bucket.file(posterPath).save(await outputs[format], {
+        predefinedAcl: 'publicRead',
+        metadata: {
+          contentType,
+          cacheControl: 'public, max-age=31536000' // 1 year
+        }
+      });
+
+      posters[format][String(width)] = `https://storage.googleapis.com/${bucket.name}/${posterPath}?v=${version}`;
+    }
+  }
+
+  return posters;
+}
+
+// Regenerate derivatives whenever the poster changes, whoever changed it
+// (processing, frame capture, or the owner picking a candidate on the edit page)
+export const updatePosterDerivatives = functions
+  .region('us-central1')
+  .runWith({
+    timeoutSeconds: 120,
+    memory: '1GB'
+  })
+  .firestore.database('folio-nicco')
+  .document('videos/{videoId}')
+  .onUpdate(async (change, context) => {
+    const videoId = context.params.videoId;
+    const posterUrl: string | undefined = change.after.data()?.playback?.posterUrl;
+    const currentPosters: PosterSet | undefined = change.after.data()?.posters;
+
+    if (!posterUrl) {
+      if (currentPosters) {
+        await change.after.ref.update({ posters: admin.firestore.FieldValue.delete() });
+      }
+      return;
+    }
+
+    // Also skips the update this function makes itself. Videos without derivatives
+    // yet are backfilled on their next update.
+    if (currentPosters?.sourceUrl === posterUrl) return;
+
+    const bucket = storage.bucket();
+    const posterPath = storagePathFromUrl(posterUrl, bucket.name);
+    if (!posterPath) {
+      console.warn('Poster is not stored in the default bucket, skipping derivatives:', posterUrl);
+      return;
+    }
+
+    try {
+      const [image] = await bucket.file(posterPath).download();
+      const posters = await generatePosterDerivatives(image, posterUrl, bucket, videoId);
+
+      await change.after.ref.update({ posters });
+      console.log('Poster derivatives generated for video:', videoId, posters.widths);
+    } catch (error) {
+      console.error('Poster derivative generation error:', error);
+    }
+  });
@@ -0,0 +1,264 @@
+import * as crypto from 'crypto';
+import { admin, db } from './firebase';
+
+export type MediaJobType = 'transcode' | 'probe' | 'thumbnail' | 'candidates' | 'sprite';
+
+// queued -> running -> succeeded
+//                   -> retrying -> queued (after backoff)
+//                   -> dead (attempts exhausted or permanent error)
+export type MediaJobStatus = 'queued' | 'running' | 'retrying' | 'succeeded' | 'dead';
+
+export interface MediaJob {
+  type: MediaJobType;
+  videoId: string;
+  ownerUid: string;
+  params: Record<string, unknown>;
+  idempotencyKey: string;
+  status: MediaJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  leaseOwner?: string;
+  leaseExpiresAt?: admin.firestore.Timestamp;
+  nextAttemptAt?: admin.firestore.Timestamp;
+  result?: Record<string, unknown>;
+  lastError?: string;
+  createdAt: admin.firestore.Timestamp;
+  updatedAt: admin.firestore.Timestamp;
+  startedAt?: admin.firestore.Timestamp;
+  completedAt?: admin.firestore.Timestamp;
+}
+
+export interface EnqueueOptions {
+  type: MediaJobType;
+  videoId: string;
+  ownerUid: string;
+  idempotencyKey: string;
+  params?: Record<string, unknown>;
+  maxAttempts?: number;
+  // Runs in the enqueue transaction only when a new attempt is queued, before the job is
+  // written, so related state changes with the job. It may read, then write.
+  onQueued?: (transaction: FirebaseFirestore.Transaction) => Promise<unknown>;
+}
+
+/**
+ * Thrown by job handlers for failures that retrying cannot fix, such as a
+ * deleted video. The job goes straight to `dead`.
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+export const MEDIA_JOBS_COLLECTION = 'mediaJobs';
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+// Longer than the worker's 540s timeout, so a lease only expires if the worker died
+export const LEASE_MS = 10 * 60 * 1000;
+
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 30 * 60 * 1000;
+
+/**
+ * Deterministic job ID for an idempotency key, scoped to the owner so users
+ * cannot collide with each other's jobs
+ */
+export function jobIdForKey(ownerUid: string, idempotencyKey: string): string {
+  return crypto.createHash('sha256').update(`${ownerUid}:${idempotencyKey}`).digest('hex').slice(0, 40);
+}
+
+/**
+ * Exponential backoff with jitter: ~30s, 1m, 2m, 4m... capped at 30 minutes
+ * @param attempts - Attempts made so far (1 after the first failure)
+ */
+export function backoffDelayMs(attempts: number): number {
+  const exponential = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1));
+  return Math.round(exponential * (0.5 + Math.random() * 0.5));
+}
+
+/**
+ * Enqueue a media job. Enqueuing the same idempotency key again returns the
+ * existing job instead of creating a duplicate; a dead job is reset and retried.
+ * @param options - Job type, target video, owner, idempotency key and parameters
+ * @returns The job ID and whether a new attempt was queued
+ */
+export async function enqueueMediaJob(options: EnqueueOptions): Promise<{ jobId: string; queued: boolean }> {
+  const jobRef = db.collection(MEDIA_JOBS_COLLECTION).doc(jobIdForKey(options.ownerUid, options.idempotencyKey));
+
+  const queued = await db.runTransaction(async (transaction) => {
+    const existing = await transaction.get(jobRef);
+    const now = admin.firestore.FieldValue.serverTimestamp();
+
+    if (!existing.exists) {
+      await options.onQueued?.(transaction);
+      transaction.create(jobRef, {
+        type: options.type,
+        videoId: options.videoId,
+        ownerUid: options.ownerUid,
+        params: options.params || {},
+        idempotencyKey: options.idempotencyKey,
+        status: 'queued',
+        attempts: 0,
+        maxAttempts: options.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+        createdAt: now,
+        updatedAt: now
+      });
+      return true;
+    }
+
+    if (existing.data()?.status === 'dead') {
+      await options.onQueued?.(transaction);
+      transaction.update(jobRef, {
+        status: 'queued',
+        attempts: 0,
+        lastError: admin.firestore.FieldValue.delete(),
+        updatedAt: now
+      });
+      return true;
+    }
+
+    return false;
+  });
+
+  return { jobId: jobRef.id, queued };
+}
+
+/**
+ * Take the lease on a queued job
+ * @param jobId - The job document ID
+ * @param workerId - Unique ID of this worker invocation
+ * @returns The job if the lease was taken, or null if another worker has it
+ */
+export async function claimMediaJob(jobId: string, workerId: string): Promise<MediaJob | null> {
+  const jobRef = db.collection(MEDIA_JOBS_COLLECTION).doc(jobId);
+
+  return db.runTransaction(async (transaction) => {
+    const jobDoc = await transaction.get(jobRef);
+    const job = jobDoc.data() as MediaJob | undefined;
+    if (!job || job.status !== 'queued') return null;
+
+    const now = admin.firestore.Timestamp.now();
+    transaction.update(jobRef, {
+      status: 'running',
+      attempts: job.attempts + 1,
+      leaseOwner: workerId,
+      leaseExpiresAt: admin.firestore.Timestamp.fromMillis(now.toMillis() + LEASE_MS),
+      nextAttemptAt: admin.firestore.FieldValue.delete(),
+      startedAt: now,
+      updatedAt: now
+    });
+
+    return { ...job, attempts: job.attempts + 1 };
+  });
+}
+
+/**
+ * Record the outcome of a job, but only if this worker still holds the lease
+ * (a worker that overran its lease must not clobber a newer attempt)
+ * @param jobId - The job document ID
+ * @param workerId - Worker that claimed the job
+ * @param outcome - The handler result, or the error it threw
+ * @returns The job's new status, or null if the lease was lost
+ */
+export async function finishMediaJob(
+  jobId: string,
+  workerId: string,
+  outcome: { result: Record<string, unknown> } | { error: unknown }
+): Promise<MediaJobStatus | null> {
+  const jobRef = db.collection(MEDIA_JOBS_COLLECTION).doc(jobId);
+
+  return db.runTransaction(async (transaction) => {
+    const jobDoc = await transaction.get(jobRef);
+    const job = jobDoc.data() as MediaJob | undefined;
+    if (!job || job.status !== 'running' || job.leaseOwner !== workerId) {
+      console.warn(`Lease lost for media job ${jobId}, discarding outcome`);
+      return null;
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    const update: Record<string, unknown> = {
+      leaseOwner: admin.firestore.FieldValue.delete(),
+      leaseExpiresAt: admin.firestore.FieldValue.delete(),
+      updatedAt: now
+    };
+
+    let status: MediaJobStatus;
+    if ('result' in outcome) {
+      status = 'succeeded';
+      update.result = outcome.result;
+      update.lastError = admin.firestore.FieldValue.delete();
+      update.completedAt = now;
+    } else {
+      const error = outcome.error;
+      update.lastError = error instanceof Error ? error.message : 'Unknown error occurred';
+
+      if (error instanceof PermanentJobError || job.attempts >= job.maxAttempts) {
+        status = 'dead';
+        update.completedAt = now;
+      } else {
+        status = 'retrying';
+        update.nextAttemptAt = admin.firestore.Timestamp.fromMillis(now.toMillis() + backoffDelayMs(job.attempts));
+      }
+    }
+
+    update.status = status;
+    transaction.update(jobRef, update);
+    return status;
+  });
+}
+
+/**
+ * Move jobs whose backoff has elapsed back to `queued`, and recover jobs whose
+ * worker died without finishing (expired lease). Expired jobs that have used
+ * all their attempts are dead-lettered.
+ * @returns Number of jobs requeued and dead-lettered
+ */
+export async function requeueDueMediaJobs(): Promise<{ requeued: number; deadLettered: number }> {
+  const now = admin.firestore.Timestamp.now();
+  const jobs = db.collection(MEDIA_JOBS_COLLECTION);
+
+  const [retrying, expired] = await Promise.all([
+    jobs.where('status', '==', 'retrying').where('nextAttemptAt', '<=', now).limit(100).get(),
+    jobs.where('status', '==', 'running').where('leaseExpiresAt', '<=', now).limit(100).get()
+  ]);
+
+  let requeued = 0;
+  let deadLettered = 0;
+
+  for (const jobDoc of [...retrying.docs, ...expired.docs]) {
+    const status = await db.runTransaction(async (transaction) => {
+      const fresh = await transaction.get(jobDoc.ref);
+      const job = fresh.data() as MediaJob | undefined;
+      if (!job) return null;
+
+      const backoffElapsed = job.status === 'retrying' && !!job.nextAttemptAt && job.nextAttemptAt.toMillis() <= now.toMillis();
+      const leaseExpired = job.status === 'running' && !!job.leaseExpiresAt && job.leaseExpiresAt.toMillis() <= now.toMillis();
+      if (!backoffElapsed && !leaseExpired) return null;
+
+      const update: Record<string, unknown> = {
+        leaseOwner: admin.firestore.FieldValue.delete(),
+        leaseExpiresAt: admin.firestore.FieldValue.delete(),
+        nextAttemptAt: admin.firestore.FieldValue.delete(),
+        updatedAt: now
+      };
+
+      if (leaseExpired) {
+        update.lastError = 'Worker lease expired before the job finished';
+      }
+
+      const status: MediaJobStatus = leaseExpired && job.attempts >= job.maxAttempts ? 'dead' : 'queued';
+      update.status = status;
+      if (status === 'dead') update.completedAt = now;
+
+      transaction.update(jobDoc.ref, update);
+      return status;
+    });
+
+    if (status === 'queued') requeued++;
+    if (status === 'dead') deadLettered++;
+  }
+
+  return { requeued, deadLettered };
+}
@@ -0,0 +1,124 @@
+import * as sharp from 'sharp';
+
+export interface FrameScores {
+  sharpness: number;
+  exposure: number;
+  colorfulness: number;
+  overall: number;
+}
+
+// Frames are analysed at this width; enough detail for blur detection and fast to process
+const ANALYSIS_WIDTH = 320;
+
+// Luma values at or beyond these are treated as crushed blacks / blown highlights
+const BLACK_LEVEL = 16;
+const WHITE_LEVEL = 239;
+
+// Laplacian variance at which a frame counts as fully sharp (log-scaled below that)
+const SHARP_VARIANCE = 1000;
+
+// Hasler–Süsstrunk colorfulness at which a frame counts as fully colorful ("highly colorful" is ~82)
+const COLORFUL_METRIC = 100;
+
+const WEIGHTS = { sharpness: 0.5, exposure: 0.3, colorfulness: 0.2 };
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Variance of the 4-neighbour Laplacian over a greyscale image. Blurry frames
+ * have few strong edges, so the response is flat and the variance is low.
+ */
+function laplacianVariance(luma: Buffer, width: number, height: number): number {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const response = luma[i - width] + luma[i + width] + luma[i - 1] + luma[i + 1] - 4 * luma[i];
+      sum += response;
+      sumSquares += response * response;
+      count++;
+    }
+  }
+
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
+
+/**
+ * Exposure score from the luma histogram: penalises clipped pixels and a mean
+ * far from mid-grey, so black, fade and blown-out frames score near zero.
+ */
+function exposureScore(luma: Buffer): number {
+  let total = 0;
+  let clipped = 0;
+
+  for (const value of luma) {
+    total += value;
+    if (value <= BLACK_LEVEL || value >= WHITE_LEVEL) clipped++;
+  }
+
+  const mean = total / luma.length;
+  const clippedFraction = clipped / luma.length;
+  const balance = 1 - Math.abs(mean - 128) / 128;
+
+  return Math.max(0, balance * (1 - clippedFraction));
+}
+
+/**
+ * Hasler–Süsstrunk colorfulness metric over interleaved RGB pixels
+ */
+function colorfulnessMetric(rgb: Buffer, channels: number): number {
+  const pixels = rgb.length / channels;
+  let sumRg = 0, sumYb = 0, sumRg2 = 0, sumYb2 = 0;
+
+  for (let i = 0; i < rgb.length; i += channels) {
+    const rg = rgb[i] - rgb[i + 1];
+    const yb = 0.5 * (rgb[i] + rgb[i + 1]) - rgb[i + 2];
+    sumRg += rg;
+    sumYb += yb;
+    sumRg2 += rg * rg;
+    sumYb2 += yb * yb;
+  }
+
+  const meanRg = sumRg / pixels;
+  const meanYb = sumYb / pixels;
+  const stdRg = Math.sqrt(Math.max(0, sumRg2 / pixels - meanRg * meanRg));
+  const stdYb = Math.sqrt(Math.max(0, sumYb2 / pixels - meanYb * meanYb));
+
+  return Math.sqrt(stdRg ** 2 + stdYb ** 2) + 0.3 * Math.sqrt(meanRg ** 2 + meanYb ** 2);
+}
+
+/**
+ * Score a frame for use as a poster. Each component is normalised to 0-1.
+ * @param imagePath - Path to the frame on local disk
+ * @returns Sharpness, exposure and colorfulness scores plus a weighted overall score
+ */
+export async function scoreFrame(imagePath: string): Promise<FrameScores> {
+  const resized = sharp(imagePath).resize({ width: ANALYSIS_WIDTH, withoutEnlargement: true }).removeAlpha();
+
+  const [luma, rgb] = await Promise.all([
+    resized.clone().greyscale().raw().toBuffer({ resolveWithObject: true }),
+    resized.clone().toColourspace('srgb').raw().toBuffer({ resolveWithObject: true })
+  ]);
+
+  const variance = laplacianVariance(luma.data, luma.info.width, luma.info.height);
+  const sharpness = Math.min(1, Math.log10(1 + variance) / Math.log10(1 + SHARP_VARIANCE));
+  const exposure = exposureScore(luma.data);
+  const colorfulness = Math.min(1, colorfulnessMetric(rgb.data, rgb.info.channels) / COLORFUL_METRIC);
+
+  // A black or blown-out frame is never a good poster, however sharp its edges
+  const overall = exposure < 0.1
+    ? 0
+    : WEIGHTS.sharpness * sharpness + WEIGHTS.exposure * exposure + WEIGHTS.colorfulness * colorfulness;
+
+  return {
+    sharpness: round(sharpness),
+    exposure: round(exposure),
+    colorfulness: round(colorfulness),
+    overall: round(overall)
+  };
+}
@@ -0,0 +1,89 @@
+import { admin, db } from './firebase';
+
+export type VideoStatus = 'uploaded' | 'processing' | 'ready' | 'failed';
+
+interface StatusOptions {
+  failureReason?: string;
+  fields?: Record<string, unknown>; // Extra fields written in the same transaction
+}
+
+// Allowed transitions for the video processing lifecycle.
+// A missing status means the document was created but the upload has not finalized yet.
+const TRANSITIONS: Record<VideoStatus | 'none', VideoStatus[]> = {
+  none: ['uploaded'],
+  uploaded: ['processing', 'failed'],
+  processing: ['ready', 'failed'],
+  // A new upload of a ready video comes in as a replacement, never by resetting it to `uploaded`
+  ready: ['processing'],
+  failed: ['uploaded', 'processing']
+};
+
+// Timestamp field written under `processing` for each status
+const TIMESTAMP_FIELDS: Record<VideoStatus, string> = {
+  uploaded: 'uploadedAt',
+  processing: 'startedAt',
+  ready: 'readyAt',
+  failed: 'failedAt'
+};
+
+/**
+ * Move a video to a new processing status within a caller's transaction. Reads the
+ * video first, so it must run before the transaction's other writes.
+ * @param transaction - The transaction to read and write in
+ * @param videoId - The video document ID
+ * @param status - The status to move to
+ * @param options - Failure reason (only stored for `failed`) and extra fields to write
+ * @returns Whether the transition was applied
+ */
+export async function setVideoStatusInTransaction(
+  transaction: FirebaseFirestore.Transaction,
+  videoId: string,
+  status: VideoStatus,
+  options: StatusOptions = {}
+): Promise<boolean> {
+  const videoRef = db.collection('videos').doc(videoId);
+  const videoDoc = await transaction.get(videoRef);
+  if (!videoDoc.exists) {
+    console.warn(`Cannot set status ${status}: video ${videoId} not found`);
+    return false;
+  }
+
+  const current = (videoDoc.data()?.status as VideoStatus | undefined) || 'none';
+  if (!TRANSITIONS[current].includes(status)) {
+    console.warn(`Ignoring invalid status transition for ${videoId}: ${current} -> ${status}`);
+    return false;
+  }
+
+  const now = admin.firestore.FieldValue.serverTimestamp();
+  const update: Record<string, unknown> = {
+    ...options.fields,
+    status,
+    [`processing.${TIMESTAMP_FIELDS[status]}`]: now,
+    updatedAt: now
+  };
+
+  if (status === 'failed') {
+    update['processing.failureReason'] = options.failureReason || 'Unknown error occurred';
+  } else if (status === 'uploaded' || status === 'processing') {
+    // Clear any previous failure when a new attempt starts
+    update['processing.failureReason'] = admin.firestore.FieldValue.delete();
+  }
+
+  transaction.update(videoRef, update);
+  return true;
+}
+
+/**
+ * Move a video to a new processing status, enforcing the lifecycle transitions
+ * @param videoId - The video document ID
+ * @param status - The status to move to
+ * @param options - Failure reason (only stored for `failed`) and extra fields to write
+ * @returns Whether the transition was applied
+ */
+export async function setVideoStatus(
+  videoId: string,
+  status: VideoStatus,
+  options: StatusOptions = {}
+): Promise<boolean> {
+  return db.runTransaction((transaction) => setVideoStatusInTransaction(transaction, videoId, status, options));
+}
@@ -0,0 +1,140 @@
+import * as ffmpeg from 'fluent-ffmpeg';
+import * as path from 'path';
+import { Bucket } from './firebase';
+import { ProbeResult, runFfmpeg } from './ffmpeg';
+import { mediaFolder } from './media';
+
+export interface Storyboard {
+  url: string;
+  vttUrl: string;
+  tileWidth: number;
+  tileHeight: number;
+  columns: number;
+  rows: number;
+  count: number;
+  intervalSec: number;
+}
+
+const TILE_WIDTH = 160;
+const COLUMNS = 10;
+
+// One tile every ~2 seconds for short videos, capped so long videos keep a single small sheet
+const MIN_TILES = 10;
+const MAX_TILES = 100;
+const TARGET_INTERVAL_SEC = 2;
+
+// Format seconds as a WebVTT timestamp, e.g. 75.5 -> "00:01:15.500"
+function vttTimestamp(seconds: number): string {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}.${pad(ms, 3)}`;
+}
+
+/**
+ * Build a WebVTT thumbnail track pointing each cue at its tile in the sprite
+ * using media fragments (`sprite.jpg#xywh=x,y,w,h`).
+ */
+function buildVtt(storyboard: Omit<Storyboard, 'vttUrl'>, durationSec: number): string {
+  const lines = ['WEBVTT', ''];
+
+  for (let i = 0; i < storyboard.count; i++) {
+    const start = i * storyboard.intervalSec;
+    const end = Math.min((i + 1) * storyboard.intervalSec, durationSec);
+    const x = (i % storyboard.columns) * storyboard.tileWidth;
+    const y = Math.floor(i / storyboard.columns) * storyboard.tileHeight;
+
+    lines.push(
+      `${vttTimestamp(start)} --> ${vttTimestamp(end)}`,
+      `${storyboard.url}#xywh=${x},${y},${storyboard.tileWidth},${storyboard.tileHeight}`,
+      ''
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Build a storyboard sprite sheet from evenly spaced frames plus a WebVTT
+ * thumbnail track, and upload both to `thumbnails/{videoId}/storyboard.{jpg,vtt}`
+ * (or the version's folder, see mediaFolder).
+ * @param sourcePath - Local path to the video, or a ranged-read URL from getMediaReadUrl
+ * @param probe - Probe result for the video
+ * @param workDir - Scratch directory for the sprite
+ * @param bucket - Storage bucket to upload into
+ * @param videoId - The video document ID
+ * @param versionId - Media version when building for replacement media
+ * @returns Sprite geometry and URLs for hover previews and seek bar thumbnails
+ */
+export async function buildStoryboard(
+  sourcePath: string,
+  probe: ProbeResult,
+  workDir: string,
+  bucket: Bucket,
+  videoId: string,
+  versionId?: string
+): Promise<Storyboard> {
+  if (!probe.durationSec || !probe.width || !probe.height) {
+    throw new Error('Video duration or dimensions could not be determined');
+  }
+
+  const count = Math.min(MAX_TILES, Math.max(MIN_TILES, Math.ceil(probe.durationSec / TARGET_INTERVAL_SEC)));
+  const intervalSec = probe.durationSec / count;
+  const columns = Math.min(COLUMNS, count);
+  const rows = Math.ceil(count / columns);
+  const tileHeight = Math.round((TILE_WIDTH * probe.height) / probe.width / 2) * 2;
+
+  const spritePath = path.join(workDir, 'storyboard.jpg');
+  const command = ffmpeg(sourcePath)
+    .noAudio()
+    .videoFilter([
+      `fps=1/${intervalSec.toFixed(6)}`,
+      `scale=${TILE_WIDTH}:${tileHeight}`,
+      `tile=${columns}x${rows}`
+    ])
+    .outputOptions(['-frames:v 1', '-q:v 4'])
+    .output(spritePath);
+
+  await runFfmpeg(command, `Storyboard ${videoId}`);
+
+  const folder = mediaFolder(videoId, versionId);
+  const spriteStoragePath = `thumbnails/${folder}/storyboard.jpg`;
+  const vttStoragePath = `thumbnails/${folder}/storyboard.vtt`;
+  // Paths are reused on reprocessing, so bust caches with the generation time
+  const version = Date.now();
+
+  await bucket.upload(spritePath, {
+    destination: spriteStoragePath,
+    predefinedAcl: 'publicRead',
+    metadata: {
+      contentType: 'image/jpeg',
+      cacheControl: 'public, max-age=31536000' // 1 year
+    }
+  });
+
+  const sprite = {
+    url: `https://storage.googleapis.com/${bucket.name}/${spriteStoragePath}?v=${version}`,
+    tileWidth: TILE_WIDTH,
+    tileHeight,
+    columns,
+    rows,
+    count,
+    intervalSec: Math.round(intervalSec * 1000) / 1000
+  };
+
+  await bucket.file(vttStoragePath).save(buildVtt(sprite, probe.durationSec), {
+    predefinedAcl: 'publicRead',
+    metadata: {
+      contentType: 'text/vtt',
+      cacheControl: 'public, max-age=31536000' // 1 year
+    }
+  });
+
+  return {
+    ...sprite,
+    vttUrl: `https://storage.googleapis.com/${bucket.name}/${vttStoragePath}?v=${version}`
+  };
+}
@@ -0,0 +1,155 @@
+import * as ffmpeg from 'fluent-ffmpeg';
+
+// Technical metadata detected from the upload. Display strings use the same
+// format as the manual options on the edit page so the two can be compared.
+export interface DetectedTechMeta {
+  durationSec?: number;
+  width?: number;
+  height?: number;
+  resolution?: string;
+  frameRate?: string;
+  fps?: number;
+  codec?: string;
+  bitDepth?: string;
+  colorPrimaries?: string;
+  colorTransfer?: string;
+  colorProfile?: string;
+  audioChannels?: string;
+}
+
+// Common delivery resolutions, matched exactly against the probed dimensions
+const NAMED_RESOLUTIONS: { width: number; height: number; label: string }[] = [
+  { width: 7680, height: 4320, label: '8K (7680×4320)' },
+  { width: 6144, height: 3456, label: '6K (6144×3456)' },
+  { width: 3840, height: 2160, label: '4K (3840×2160)' },
+  { width: 2048, height: 1080, label: '2K (2048×1080)' },
+  { width: 1920, height: 1080, label: 'HD (1920×1080)' }
+];
+
+const COLOR_PRIMARIES: Record<string, string> = {
+  bt709: 'BT.709',
+  bt2020: 'BT.2020',
+  smpte432: 'Display P3',
+  smpte431: 'DCI-P3',
+  bt470bg: 'BT.601 (PAL)',
+  smpte170m: 'BT.601 (NTSC)'
+};
+
+const COLOR_TRANSFERS: Record<string, string> = {
+  bt709: 'BT.709',
+  smpte2084: 'PQ (ST 2084)',
+  'arib-std-b67': 'HLG',
+  'iec61966-2-1': 'sRGB',
+  linear: 'Linear',
+  smpte170m: 'BT.601'
+};
+
+const CHANNEL_LAYOUTS: Record<number, string> = {
+  1: '1 (Mono)',
+  2: '2 (Stereo)',
+  6: '6 (5.1)',
+  8: '8 (7.1)'
+};
+
+// Parse an ffprobe rational such as "24000/1001"
+function parseRational(value?: string): number | undefined {
+  if (!value) return undefined;
+  const [numerator, denominator] = value.split('/').map(Number);
+  if (!numerator || !denominator) return undefined;
+  return numerator / denominator;
+}
+
+function formatFrameRate(fps: number): string {
+  // 23.976 -> "23.98 fps", 24 -> "24 fps"
+  const rounded = Math.round(fps * 100) / 100;
+  return `${Number.isInteger(rounded) ? rounded.toFixed(0) : rounded.toFixed(2)} fps`;
+}
+
+function formatCodec(stream: ffmpeg.FfprobeStream): string | undefined {
+  const name = stream.codec_name;
+  const profile = String(stream.profile ?? '');
+
+  switch (name) {
+    case 'h264':
+      return 'H.264';
+    case 'hevc':
+      return 'H.265/HEVC';
+    case 'prores':
+      // Profiles are reported as Proxy, LT, Standard, HQ, 4444 and 4444 XQ
+      return profile.startsWith('4444') ? `ProRes ${profile}` : 'ProRes 422';
+    case 'dnxhd':
+      return profile.toUpperCase().startsWith('DNXHR') ? 'DNxHR' : 'DNxHD';
+    case 'av1':
+      return 'AV1';
+    case 'vp9':
+      return 'VP9';
+    default:
+      return name ? name.toUpperCase() : undefined;
+  }
+}
+
+function detectBitDepth(stream: ffmpeg.FfprobeStream): string | undefined {
+  const rawBits = Number(stream.bits_per_raw_sample);
+  if (rawBits) return `${rawBits}-bit`;
+
+  // Fall back to the pixel format, e.g. yuv422p10le -> 10-bit
+  const match = stream.pix_fmt?.match(/p(\d{2})(le|be)$/);
+  if (match) return `${Number(match[1])}-bit`;
+  return stream.pix_fmt ? '8-bit' : undefined;
+}
+
+function detectColorProfile(primaries?: string, transfer?: string): string | undefined {
+  if (primaries === 'bt2020') return 'Rec. 2020';
+  if (primaries === 'bt709' || transfer === 'bt709') return 'Rec. 709';
+  return undefined;
+}
+
+/**
+ * Extract technical metadata from an ffprobe result
+ * @param data - Raw ffprobe output for the upload
+ * @returns Detected values, omitting anything the container did not report
+ */
+export function extractTechMeta(data: ffmpeg.FfprobeData): DetectedTechMeta {
+  const videoStream = data.streams.find(s => s.codec_type === 'video');
+  const audioStream = data.streams.find(s => s.codec_type === 'audio');
+  const detected: DetectedTechMeta = {};
+
+  const duration = Number(data.format.duration) || Number(videoStream?.duration);
+  if (duration) detected.durationSec = Math.round(duration * 100) / 100;
+
+  if (videoStream) {
+    if (videoStream.width && videoStream.height) {
+      detected.width = videoStream.width;
+      detected.height = videoStream.height;
+      detected.resolution = NAMED_RESOLUTIONS.find(
+        r => r.width === videoStream.width && r.height === videoStream.height
+      )?.label || `${videoStream.width}×${videoStream.height}`;
+    }
+
+    const fps = parseRational(videoStream.avg_frame_rate) || parseRational(videoStream.r_frame_rate);
+    if (fps) {
+      detected.fps = Math.round(fps * 1000) / 1000;
+      detected.frameRate = formatFrameRate(fps);
+    }
+
+    const codec = formatCodec(videoStream);
+    if (codec) detected.codec = codec;
+
+    const bitDepth = detectBitDepth(videoStream);
+    if (bitDepth) detected.bitDepth = bitDepth;
+
+    const primaries = videoStream.color_primaries;
+    const transfer = videoStream.color_transfer;
+    if (primaries && COLOR_PRIMARIES[primaries]) detected.colorPrimaries = COLOR_PRIMARIES[primaries];
+    if (transfer && COLOR_TRANSFERS[transfer]) detected.colorTransfer = COLOR_TRANSFERS[transfer];
+
+    const colorProfile = detectColorProfile(primaries, transfer);
+    if (colorProfile) detected.colorProfile = colorProfile;
+  }
+
+  if (audioStream?.channels) {
+    detected.audioChannels = CHANNEL_LAYOUTS[audioStream.channels] || String(audioStream.channels);
+  }
+
+  return detected;
+}
@@ -0,0 +1,81 @@
+import * as ffmpeg from 'fluent-ffmpeg';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { Bucket } from './firebase';
+import { runFfmpeg } from './ffmpeg';
+import { getMediaReadUrl } from './media';
+
+export type ThumbnailQuality = 'high' | 'medium' | 'low';
+
+export const THUMBNAIL_QUALITY_SETTINGS: Record<ThumbnailQuality, { scale: string; quality: number }> = {
+  high: { scale: '1280:720', quality: 2 },
+  medium: { scale: '854:480', quality: 5 },
+  low: { scale: '640:360', quality: 8 }
+};
+
+/**
+ * Capture a single frame as a thumbnail and upload it to `thumbnails/{videoId}/`
+ * @param bucket - Bucket holding the source and receiving the thumbnail
+ * @param videoId - The video document ID
+ * @param sourceStoragePath - Object path of the video to read
+ * @param timestamp - Time of the frame in seconds
+ * @param quality - Output size and JPEG quality preset
+ * @returns Public URL of the uploaded thumbnail
+ */
+export async function captureThumbnail(
+  bucket: Bucket,
+  videoId: string,
+  sourceStoragePath: string,
+  timestamp: number,
+  quality: ThumbnailQuality
+): Promise<string> {
+  const thumbnailPath = path.join(os.tmpdir(), `thumb_${videoId}_${timestamp}_${Date.now()}.jpg`);
+  const settings = THUMBNAIL_QUALITY_SETTINGS[quality];
+
+  try {
+    // FFmpeg seeks over ranged reads, so only the bytes around the timestamp are transferred
+    const videoUrl = await getMediaReadUrl(bucket, sourceStoragePath);
+
+    console.log('Generating thumbnail at timestamp:', timestamp, 'from', sourceStoragePath);
+
+    const command = ffmpeg(videoUrl)
+      .seekInput(timestamp)
+      .frames(1)
+      .videoFilter(`scale=${settings.scale}`)
+      .outputOptions([`-q:v ${settings.quality}`])
+      .output(thumbnailPath);
+
+    await runFfmpeg(command, `Thumbnail ${videoId} @ ${timestamp}s`);
+
+    const thumbnailStoragePath = `thumbnails/${videoId}/thumb_${timestamp}_${Date.now()}.jpg`;
+    console.log('Uploading thumbnail to:', thumbnailStoragePath);
+
+    const [file] = await bucket.upload(thumbnailPath, {
+      destination: thumbnailStoragePath,
+      metadata: {
+        contentType: 'image/jpeg',
+        cacheControl: 'public, max-age=31536000', // 1 year
+        metadata: {
+          videoId,
+          timestamp: timestamp.toString(),
+          quality,
+          generatedAt: new Date().toISOString()
+        }
+      }
+    });
+
+    // Make the file publicly accessible
+    await file.makePublic();
+
+    return `https://storage.googleapis.com/${bucket.name}/${thumbnailStoragePath}`;
+  } finally {
+    try {
+      if (fs.existsSync(thumbnailPath)) {
+        fs.unlinkSync(thumbnailPath);
+      }
+    } catch (cleanupError) {
+      console.warn('Failed to clean up temporary files:', cleanupError);
+    }
+  }
+}
@@ -0,0 +1,285 @@
+import * as functions from 'firebase-functions';
+import * as ffmpeg from 'fluent-ffmpeg';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { admin, db, storage } from './firebase';
+import { EncodingPreset, applyH264Preset, probeVideo, runFfmpeg, scaledWidth, selectPresets } from './ffmpeg';
+import { ThumbnailCandidate, extractThumbnailCandidates, pickBestCandidate } from './candidates';
+import { packageHls } from './hls';
+import { getMediaReadUrl, mediaFolder } from './media';
+import { PermanentJobError, enqueueMediaJob } from './queue';
+import { setVideoStatus, setVideoStatusInTransaction } from './status';
+import { Storyboard, buildStoryboard } from './storyboard';
+import { extractTechMeta } from './techMeta';
+import { activateMediaVersion, setReplacementStatus } from './versions';
+
+export interface Rendition {
+  height: number;
+  width: number;
+  path: string;
+  url: string;
+  sizeBytes: number;
+}
+
+// Progressive MP4 ladder, highest first. Used as the fallback for browsers without HLS support.
+const RENDITION_PRESETS: EncodingPreset[] = [
+  { height: 1080, videoBitrate: '5000k', maxRate: '5350k', bufSize: '7500k', audioBitrate: '192k' },
+  { height: 720, videoBitrate: '2800k', maxRate: '2996k', bufSize: '4200k', audioBitrate: '128k' }
+];
+
+/**
+ * Find the video document an upload belongs to. The upload page stores the
+ * document ID in the object's custom metadata; older uploads are matched by path.
+ */
+async function findVideoDoc(object: functions.storage.ObjectMetadata) {
+  const videoId = object.metadata?.videoId;
+  if (videoId) {
+    const videoDoc = await db.collection('videos').doc(videoId).get();
+    if (videoDoc.exists) return videoDoc;
+  }
+
+  const snapshot = await db.collection('videos')
+    .where('storage.path', '==', object.name)
+    .limit(1)
+    .get();
+  if (!snapshot.empty) return snapshot.docs[0];
+
+  // Replacement media for an existing video
+  const replacementSnapshot = await db.collection('videos')
+    .where('replacement.storage.path', '==', object.name)
+    .limit(1)
+    .get();
+
+  return replacementSnapshot.empty ? null : replacementSnapshot.docs[0];
+}
+
+/**
+ * Transcode an upload into MP4 renditions and an HLS ladder, probe its technical
+ * metadata, and extract poster candidates and a storyboard. Runs as a `transcode`
+ * media job; failures are rethrown so the queue can retry them.
+ *
+ * Replacement media is written to its version's own folder and swapped in once
+ * everything is ready; the video keeps playing its current media until then.
+ * @param videoId - The video document ID
+ * @param filePath - Object path of the upload
+ * @param bucketName - Bucket holding the upload
+ * @param isFinalAttempt - Whether a failure should mark the video (or replacement) as failed
+ * @param versionId - Media version, when the upload replaces the video's media
+ * @returns A summary of the outputs, stored as the job result
+ */
+export async function transcodeVideo(
+  videoId: string,
+  filePath: string,
+  bucketName: string,
+  isFinalAttempt: boolean,
+  versionId?: string
+): Promise<Record<string, unknown>> {
+  const videoRef = db.collection('videos').doc(videoId);
+
+  if (versionId) {
+    if (!await setReplacementStatus(videoId, versionId, 'processing')) {
+      throw new PermanentJobError('Replacement was cancelled or superseded');
+    }
+  } else if (!await setVideoStatus(videoId, 'processing')) {
+    // A retry finds the video still processing from the failed attempt
+    const current = (await videoRef.get()).data()?.status;
+    if (current !== 'processing') {
+      throw new PermanentJobError(`Video is not in a processable state (${current || 'missing'})`);
+    }
+  }
+
+  const bucket = storage.bucket(bucketName);
+  // Only outputs are written locally. /tmp is memory-backed, so the master is never
+  // copied there; FFmpeg reads it over HTTP range requests instead.
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), `transcode_${videoId}_`));
+
+  try {
+    const sourceUrl = await getMediaReadUrl(bucket, filePath);
+    const probe = await probeVideo(sourceUrl);
+    console.log('Probed upload:', { videoId, width: probe.width, height: probe.height, duration: probe.durationSec });
+
+    const techMetaDetected = {
+      ...extractTechMeta(probe.raw),
+      probedAt: admin.firestore.FieldValue.serverTimestamp()
+    };
+
+    // Store detected metadata right away so it is available even if encoding fails.
+    // A replacement's metadata is swapped in with the rest of its media.
+    if (!versionId) {
+      await videoRef.update({ techMetaDetected });
+    }
+
+    const renditions: Rendition[] = [];
+
+    for (const preset of selectPresets(RENDITION_PRESETS, probe.height)) {
+      const outputName = `${preset.height}p.mp4`;
+      const outputPath = path.join(workDir, outputName);
+
+      const command = applyH264Preset(ffmpeg(sourceUrl), preset, probe.hasAudio)
+        .outputOptions(['-movflags +faststart'])
+        .output(outputPath);
+
+      await runFfmpeg(command, `Transcode ${videoId} ${preset.height}p`);
+
+      const renditionStoragePath = `renditions/${mediaFolder(videoId, versionId)}/${outputName}`;
+      const [file] = await bucket.upload(outputPath, {
+        destination: renditionStoragePath,
+        metadata: {
+          contentType: 'video/mp4',
+          cacheControl: 'public, max-age=31536000', // 1 year
+          metadata: {
+            videoId,
+            source: filePath,
+            generatedAt: new Date().toISOString()
+          }
+        }
+      });
+      await file.makePublic();
+
+      renditions.push({
+        height: preset.height,
+        width: scaledWidth(probe, preset.height),
+        path: renditionStoragePath,
+        url: `https://storage.googleapis.com/${bucket.name}/${renditionStoragePath}`,
+        sizeBytes: fs.statSync(outputPath).size
+      });
+
+      // Free tmpfs space before encoding the next rung
+      fs.unlinkSync(outputPath);
+    }
+
+    const hls = await packageHls(sourceUrl, probe, workDir, bucket, videoId, versionId);
+
+    // Poster candidates and the storyboard are nice-to-haves; a failure here should not fail playback
+    let candidates: ThumbnailCandidate[] = [];
+    let candidatesReady = false;
+    try {
+      candidates = await extractThumbnailCandidates(sourceUrl, probe, workDir, bucket, videoId, { versionId });
+      candidatesReady = true;
+    } catch (candidateError) {
+      console.warn('Failed to generate thumbnail candidates:', candidateError);
+    }
+
+    let storyboard: Storyboard | undefined;
+    try {
+      storyboard = await buildStoryboard(sourceUrl, probe, workDir, bucket, videoId, versionId);
+    } catch (storyboardError) {
+      console.warn('Failed to build storyboard:', storyboardError);
+    }
+
+    const bestCandidate = pickBestCandidate(candidates);
+
+    if (versionId) {
+      const activated = await activateMediaVersion(videoId, versionId, {
+        playback: {
+          mp4Url: renditions[0].url,
+          renditions,
+          hlsUrl: hls.url,
+          hlsVariants: hls.variants
+        },
+        techMetaDetected,
+        ...(candidatesReady ? { thumbnailCandidates: candidates } : {}),
+        ...(storyboard ? { storyboard } : {})
+      });
+      if (!activated) {
+        console.warn('Replacement was cancelled or superseded before it went live:', videoId, versionId);
+      }
+    } else {
+      const readyFields: Record<string, unknown> = {
+        'playback.provider': 'native',
+        'playback.id': videoId,
+        'playback.mp4Url': renditions[0].url,
+        'playback.renditions': renditions,
+        'playback.hlsUrl': hls.url,
+        'playback.hlsVariants': hls.variants
+      };
+      if (candidatesReady) readyFields.thumbnailCandidates = candidates;
+      if (storyboard) readyFields.storyboard = storyboard;
+
+      // Only pick a default poster; never replace one the owner already chose.
+      // The frame grabbed in the browser at upload is only a stand-in.
+      const currentPlayback = (await videoRef.get()).data()?.playback;
+      if (bestCandidate && (!currentPlayback?.posterUrl || currentPlayback.posterSource === 'upload-preview')) {
+        readyFields['playback.posterUrl'] = bestCandidate.url;
+        readyFields['playback.posterSource'] = admin.firestore.FieldValue.delete();
+      }
+
+      await setVideoStatus(videoId, 'ready', { fields: readyFields });
+    }
+
+    const summary = {
+      ...(versionId ? { versionId } : {}),
+      mp4: renditions.map(r => `${r.height}p`),
+      hls: hls.variants.map(v => `${v.height}p`),
+      poster: bestCandidate?.id || null
+    };
+    console.log('Transcoding completed for video:', videoId, summary);
+    return summary;
+  } catch (error) {
+    console.error('Transcoding error:', error);
+    // Leave the video processing while the job still has retries left
+    if (isFinalAttempt || error instanceof PermanentJobError) {
+      const failureReason = error instanceof Error ? error.message : 'Unknown error occurred';
+      if (versionId) {
+        // The video keeps playing its current media
+        await setReplacementStatus(videoId, versionId, 'failed', failureReason);
+      } else {
+        await setVideoStatus(videoId, 'failed', { failureReason });
+      }
+    }
+    throw error;
+  } finally {
+    try {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    } catch (cleanupError) {
+      console.warn('Failed to clean up temporary files:', cleanupError);
+    }
+  }
+}
+
+// Uploads only enqueue a transcode job; the media job worker does the work so it
+// can be retried. The object generation makes duplicate finalize events idempotent.
+export const processVideoUpload = functions
+  .region('us-central1')
+  .storage.object()
+  .onFinalize(async (object) => {
+    const filePath = object.name;
+
+    // Only process original uploads, never our own outputs
+    if (!filePath || !filePath.startsWith('uploads/')) return;
+    if (!object.contentType?.startsWith('video/')) {
+      console.log('Skipping non-video upload:', filePath, object.contentType);
+      return;
+    }
+
+    const videoDoc = await findVideoDoc(object);
+    if (!videoDoc) {
+      console.warn('No video document found for upload:', filePath);
+      return;
+    }
+
+    // A proxy uploaded alongside the master is kept as-is; only the master is transcoded
+    if (videoDoc.data()?.storage?.proxyPath === filePath) return;
+
+    const videoId = videoDoc.id;
+
+    // Replacement media is processed while the video stays live on its current media
+    const replacement = videoDoc.data()?.replacement;
+    const versionId: string | undefined = replacement?.storage?.path === filePath ? replacement.versionId : undefined;
+
+    // The video only moves to `uploaded` along with a newly queued job, so a repeated
+    // finalize can't leave it waiting on a job that already ran
+    const { jobId, queued } = await enqueueMediaJob({
+      type: 'transcode',
+      videoId,
+      ownerUid: videoDoc.data()?.ownerUid,
+      idempotencyKey: `transcode:${videoId}:${object.generation}`,
+      params: { path: filePath, bucket: object.bucket, ...(versionId ? { versionId } : {}) },
+      ...(!versionId && {
+        onQueued: (transaction: FirebaseFirestore.Transaction) => setVideoStatusInTransaction(transaction, videoId, 'uploaded')
+      })
+    });
+
+    console.log(queued ? 'Queued transcode job:' : 'Transcode job already exists:', jobId, 'for video', videoId);
+  });
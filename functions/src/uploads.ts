@@ -0,0 +1,266 @@
+import * as functions from 'firebase-functions';
+import { Bucket, admin, db, storage } from './firebase';
+
+// Chunked uploads write one object per part under `uploadParts/{uid}/{sessionId}/`
+// and are composed into the final `uploads/` object once every part is in place.
+export const UPLOAD_PARTS_PREFIX = 'uploadParts';
+
+// GCS compose accepts at most 32 source objects per request
+const MAX_COMPOSE_SOURCES = 32;
+
+// Parts untouched for this long belong to an upload the client gave up on
+const ABANDONED_UPLOAD_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+type StorageFile = ReturnType<Bucket['file']>;
+
+// Browsers leave `File.type` empty for some containers, such as Matroska, so the
+// type is worked out from the file name instead. Matches src/lib/uploads.ts.
+const VIDEO_TYPES_BY_EXTENSION: Record<string, string> = {
+  mp4: 'video/mp4',
+  m4v: 'video/x-m4v',
+  mov: 'video/quicktime',
+  mkv: 'video/x-matroska',
+  webm: 'video/webm',
+  avi: 'video/x-msvideo'
+};
+
+// `proxy` is a lightweight copy uploaded alongside the master; `replacement` is
+// new media for an existing video, processed before it is swapped in
+type UploadTarget = 'master' | 'proxy' | 'replacement';
+
+/**
+ * Where an upload of the given kind lands, from the video document
+ */
+function uploadDestination(videoData: FirebaseFirestore.DocumentData | undefined, target: UploadTarget) {
+  switch (target) {
+    case 'proxy':
+      return { path: videoData?.storage?.proxyPath as string | undefined, sizeBytes: videoData?.storage?.proxySizeBytes as number | undefined };
+    case 'replacement':
+      return { path: videoData?.replacement?.storage?.path as string | undefined, sizeBytes: videoData?.replacement?.storage?.sizeBytes as number | undefined };
+    default:
+      return { path: videoData?.storage?.path as string | undefined, sizeBytes: videoData?.storage?.sizeBytes as number | undefined };
+  }
+}
+
+interface CompleteUploadRequest {
+  videoId: string;
+  sessionId: string;
+  partCount: number;
+  target?: UploadTarget;
+}
+
+interface CompleteUploadResponse {
+  success: boolean;
+  path: string;
+}
+
+/**
+ * Content type of an upload: the type the browser reported if it is a video type,
+ * otherwise one from the destination's file extension
+ * @returns The type, or null if the upload isn't recognisably a video
+ */
+function uploadContentType(reported: unknown, destinationPath: string): string | null {
+  if (typeof reported === 'string' && reported.startsWith('video/')) return reported;
+  const extension = destinationPath.split('.').pop()?.toLowerCase() || '';
+  return VIDEO_TYPES_BY_EXTENSION[extension] || null;
+}
+
+/**
+ * Index of a part object, from its `{index}` file name, or null for other objects
+ * (such as intermediate compose outputs)
+ */
+function partIndex(file: StorageFile): number | null {
+  const name = file.name.split('/').pop() || '';
+  return /^\d+$/.test(name) ? parseInt(name, 10) : null;
+}
+
+/**
+ * Compose many objects into one, chaining compose requests through intermediate
+ * objects when there are more than 32 sources
+ * @param bucket - Bucket holding the sources
+ * @param sources - Source objects in order
+ * @param destination - Final object
+ * @param scratchPrefix - Prefix for intermediate objects
+ */
+async function composeObjects(bucket: Bucket, sources: StorageFile[], destination: StorageFile, scratchPrefix: string): Promise<void> {
+  let round = 0;
+  let current = sources;
+
+  while (current.length > MAX_COMPOSE_SOURCES) {
+    const next: StorageFile[] = [];
+    for (let i = 0; i < current.length; i += MAX_COMPOSE_SOURCES) {
+      const intermediate = bucket.file(`${scratchPrefix}compose_${round}_${next.length}`);
+      await bucket.combine(current.slice(i, i + MAX_COMPOSE_SOURCES), intermediate);
+      next.push(intermediate);
+    }
+    current = next;
+    round++;
+  }
+
+  await bucket.combine(current, destination);
+}
+
+// Called by the upload manager once every part of a chunked upload has been written
+export const completeChunkedUpload = functions
+  .region('us-central1')
+  .runWith({
+    timeoutSeconds: 300, // 5 minutes
+    memory: '512MB'
+  })
+  .https.onCall(async (data: CompleteUploadRequest, context): Promise<CompleteUploadResponse> => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        'unauthenticated',
+        'User must be authenticated'
+      );
+    }
+
+    const { videoId, sessionId, partCount, target = 'master' } = data;
+
+    if (!videoId || !sessionId || !/^[\w-]+$/.test(sessionId) || !Number.isInteger(partCount) || partCount < 1) {
+      throw new functions.https.HttpsError(
+        'invalid-argument',
+        'Missing required parameters: videoId, sessionId or partCount'
+      );
+    }
+
+    const videoDoc = await db.collection('videos').doc(videoId).get();
+
+    if (!videoDoc.exists) {
+      throw new functions.https.HttpsError(
+        'not-found',
+        'Video not found'
+      );
+    }
+
+    const videoData = videoDoc.data();
+    const uid = context.auth.uid;
+
+    if (videoData?.ownerUid !== uid) {
+      throw new functions.https.HttpsError(
+        'permission-denied',
+        'You do not have permission to edit this video'
+      );
+    }
+
+    const { path: destinationPath, sizeBytes: expectedBytes } = uploadDestination(videoData, target);
+    if (!destinationPath || !destinationPath.startsWith(`uploads/${uid}/`)) {
+      throw new functions.https.HttpsError(
+        'failed-precondition',
+        'Video has no upload path'
+      );
+    }
+
+    const bucket = storage.bucket();
+    const partsPrefix = `${UPLOAD_PARTS_PREFIX}/${uid}/${sessionId}/`;
+    const [files] = await bucket.getFiles({ prefix: partsPrefix });
+    const parts = files
+      .filter((file) => partIndex(file) !== null)
+      .sort((a, b) => (partIndex(a) as number) - (partIndex(b) as number));
+
+    // A retry after the parts were composed and cleaned up
+    if (parts.length === 0) {
+      const [exists] = await bucket.file(destinationPath).exists();
+      if (exists) {
+        return { success: true, path: destinationPath };
+      }
+      throw new functions.https.HttpsError(
+        'failed-precondition',
+        'Upload parts have expired. Please upload the video again.'
+      );
+    }
+
+    const missing = parts.length !== partCount || parts.some((file, index) => partIndex(file) !== index);
+    if (missing) {
+      throw new functions.https.HttpsError(
+        'failed-precondition',
+        `Expected ${partCount} upload parts but found ${parts.length}`
+      );
+    }
+
+    const totalBytes = parts.reduce((sum, file) => sum + Number(file.metadata.size || 0), 0);
+    if (expectedBytes && totalBytes !== expectedBytes) {
+      throw new functions.https.HttpsError(
+        'failed-precondition',
+        `Upload is ${totalBytes} bytes but ${expectedBytes} were expected`
+      );
+    }
+
+    // The real content type travels as custom metadata so parts never look like videos to processVideoUpload
+    const contentType = uploadContentType(parts[0].metadata.metadata?.contentType, destinationPath);
+    if (!contentType) {
+      throw new functions.https.HttpsError(
+        'invalid-argument',
+        'Upload is not a video'
+      );
+    }
+
+    const destination = bucket.file(destinationPath);
+    destination.metadata = { ...destination.metadata, contentType };
+
+    console.log(`Composing ${parts.length} parts into`, destinationPath);
+    await composeObjects(bucket, parts, destination, partsPrefix);
+
+    try {
+      await bucket.deleteFiles({ prefix: partsPrefix });
+    } catch (cleanupError) {
+      // Leftovers are removed by cleanupAbandonedUploads
+      console.warn('Failed to delete upload parts:', cleanupError);
+    }
+
+    return { success: true, path: destinationPath };
+  });
+
+// Remove parts of uploads that were never completed or cancelled, along with
+// their placeholder video documents
+export const cleanupAbandonedUploads = functions
+  .region('us-central1')
+  .pubsub.schedule('every 24 hours')
+  .onRun(async () => {
+    const bucket = storage.bucket();
+    const [files] = await bucket.getFiles({ prefix: `${UPLOAD_PARTS_PREFIX}/` });
+
+    // Group parts by upload session: uploadParts/{uid}/{sessionId}/{index}
+    const sessions = new Map<string, StorageFile[]>();
+    for (const file of files) {
+      const [, uid, sessionId] = file.name.split('/');
+      if (!uid || !sessionId) continue;
+      const key = `${uid}/${sessionId}`;
+      sessions.set(key, [...(sessions.get(key) || []), file]);
+    }
+
+    const cutoff = Date.now() - ABANDONED_UPLOAD_MS;
+    let removedSessions = 0;
+    let removedVideos = 0;
+
+    for (const [key, sessionFiles] of sessions) {
+      const lastActivity = Math.max(...sessionFiles.map((file) => new Date(file.metadata.updated || 0).getTime()));
+      if (lastActivity > cutoff) continue;
+
+      const videoId = sessionFiles
+        .map((file) => file.metadata.metadata?.videoId)
+        .find((id): id is string => typeof id === 'string');
+
+      await bucket.deleteFiles({ prefix: `${UPLOAD_PARTS_PREFIX}/${key}/` });
+      removedSessions++;
+
+      if (!videoId) continue;
+
+      // Only remove the video if its media never arrived
+      const videoDoc = await db.collection('videos').doc(videoId).get();
+      const storagePath: string | undefined = videoDoc.data()?.storage?.path;
+      if (videoDoc.exists && !videoDoc.data()?.status && (!storagePath || !(await bucket.file(storagePath).exists())[0])) {
+        await videoDoc.ref.delete();
+        removedVideos++;
+        continue;
+      }
+
+      // An abandoned replacement leaves the video on its current media
+      const replacement = videoDoc.data()?.replacement;
+      if (replacement?.status === 'uploading' && !(await bucket.file(replacement.storage.path).exists())[0]) {
+        await videoDoc.ref.update({ replacement: admin.firestore.FieldValue.delete() });
+      }
+    }
+
+    console.log(`Removed ${removedSessions} abandoned uploads and ${removedVideos} placeholder videos`);
+  });
@@ -0,0 +1,184 @@
+import * as functions from 'firebase-functions';
+import { admin, db, storage } from './firebase';
+
+// Per-user usage, read by the dashboard meters: `usage/{uid}`
+export const USAGE_COLLECTION = 'usage';
+
+// Estimated egress per calendar month: `usage/{uid}/egress/{period}`
+const EGRESS_SUBCOLLECTION = 'egress';
+
+// Used when a video's bitrate can't be worked out, roughly the top rung of the MP4 ladder
+const DEFAULT_BYTES_PER_SECOND = 5000 * 1000 / 8; // 5 Mbps
+
+/**
+ * Bytes a video takes up in Storage for its owner's quota: the master, any proxy
+ * and any pending replacement. Archived versions are added by archivedVersionBytes.
+ * Matches getStorageUsed in the upload API.
+ */
+function mediaBytes(videoData: FirebaseFirestore.DocumentData | undefined): number {
+  return (Number(videoData?.storage?.sizeBytes) || 0) +
+    (Number(videoData?.storage?.proxySizeBytes) || 0) +
+    (Number(videoData?.replacement?.storage?.sizeBytes) || 0);
+}
+
+/**
+ * Bytes of an owner's archived masters (and their proxies), kept in `videos/{videoId}/versions`
+ * so a replacement can be rolled back. Matches getStorageUsed in the upload API.
+ */
+async function archivedVersionBytes(uid: string): Promise<number> {
+  const snapshot = await db.collectionGroup('versions')
+    .where('ownerUid', '==', uid)
+    .where('status', '==', 'archived')
+    .select('storage')
+    .get();
+
+  return snapshot.docs.reduce((total, versionDoc) => total + mediaBytes(versionDoc.data()), 0);
+}
+
+/**
+ * Whether a video counts against the plan's private video allowance
+ */
+function isPrivateVideo(videoData: FirebaseFirestore.DocumentData | undefined): boolean {
+  return videoData?.visibility === 'private' || videoData?.visibility === 'unlisted';
+}
+
+/**
+ * Calendar month egress is counted against, e.g. "2025-03" (UTC)
+ */
+function usagePeriod(date = new Date()): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Recount a user's storage and private videos from their video documents. Counting
+ * from scratch rather than applying deltas means a missed or repeated event can't
+ * leave the totals drifting.
+ * The Firestore rules read `privateVideoCount` to enforce the plan's private video limit.
+ * @param uid - The owner to recount
+ * @returns The user's storage bytes
+ */
+export async function recalculateStorageUsage(uid: string): Promise<number> {
+  const snapshot = await db.collection('videos')
+    .where('ownerUid', '==', uid)
+    .select('storage', 'replacement', 'visibility')
+    .get();
+
+  const storageBytes = snapshot.docs.reduce((total, videoDoc) => total + mediaBytes(videoDoc.data()), 0) +
+    await archivedVersionBytes(uid);
+
+  await db.collection(USAGE_COLLECTION).doc(uid).set({
+    storageBytes,
+    videoCount: snapshot.size,
+    privateVideoCount: snapshot.docs.filter((videoDoc) => isPrivateVideo(videoDoc.data())).length,
+    storageRecalculatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp()
+  }, { merge: true });
+
+  return storageBytes;
+}
+
+/**
+ * Delete everything stored for a deleted video: its uploads, every media version,
+ * renditions and thumbnails
+ */
+async function deleteVideoFiles(videoId: string, videoData: FirebaseFirestore.DocumentData): Promise<void> {
+  const bucket = storage.bucket();
+  const versions = await db.collection('videos').doc(videoId).collection('versions').get();
+
+  // Uploads made before the upload API used `uploads/{uid}/{name}`, outside the video's folder
+  const paths = [
+    videoData.storage?.path,
+    videoData.storage?.proxyPath,
+    videoData.replacement?.storage?.path,
+    ...versions.docs.map((versionDoc) => versionDoc.data().storage?.path)
+  ].filter((path): path is string => typeof path === 'string' && path.startsWith('uploads/'));
+
+  await Promise.all(paths.map((path) => bucket.file(path).delete({ ignoreNotFound: true })));
+  await Promise.all([
+    bucket.deleteFiles({ prefix: `uploads/${videoData.ownerUid}/${videoId}/` }),
+    bucket.deleteFiles({ prefix: `renditions/${videoId}/` }),
+    bucket.deleteFiles({ prefix: `thumbnails/${videoId}/` })
+  ]);
+
+  // Subcollections outlive their parent document
+  const batch = db.batch();
+  versions.docs.forEach((versionDoc) => batch.delete(versionDoc.ref));
+  await batch.commit();
+}
+
+// Keep the owner's usage in step with their videos, and free a deleted
+// video's files so the space it used is actually released
+export const updateStorageUsage = functions
+  .region('us-central1')
+  .runWith({
+    timeoutSeconds: 300 // 5 minutes
+  })
+  .firestore.database('folio-nicco')
+  .document('videos/{videoId}')
+  .onWrite(async (change, context) => {
+    const before = change.before.data();
+    const after = change.after.data();
+
+    if (before && !after) {
+      try {
+        await deleteVideoFiles(context.params.videoId, before);
+      } catch (cleanupError) {
+        // Usage is still recounted; the files can be removed by hand
+        console.error('Failed to delete files of deleted video:', context.params.videoId, cleanupError);
+      }
+    }
+
+    const unchanged = before && after &&
+      before.ownerUid === after.ownerUid &&
+      mediaBytes(before) === mediaBytes(after) &&
+      // A swap or rollback archives a version even when the sizes match
+      before.currentVersionId === after.currentVersionId &&
+      isPrivateVideo(before) === isPrivateVideo(after);
+    if (unchanged) return;
+
+    const owners = new Set([before?.ownerUid, after?.ownerUid].filter((uid): uid is string => !!uid));
+    for (const uid of owners) {
+      const storageBytes = await recalculateStorageUsage(uid);
+      console.log('Recalculated usage for', uid, storageBytes);
+    }
+  });
+
+// Estimate the bandwidth each view costs its owner, counted per calendar month.
+// This is an estimate from the video's average bitrate, not a measurement of bytes served.
+// Playback sessions report watch time in heartbeats, so each write counts the time added since the last.
+export const recordViewEgress = functions
+  .region('us-central1')
+  .firestore.database('folio-nicco')
+  .document('videoViews/{viewId}')
+  .onWrite(async (change) => {
+    const before = change.before.data();
+    const view = change.after.data();
+    if (!view?.videoId) return;
+
+    const addedSeconds = (Number(view.watchTimeSeconds) || 0) - (Number(before?.watchTimeSeconds) || 0);
+    if (addedSeconds <= 0) return;
+
+    const videoDoc = await db.collection('videos').doc(view.videoId).get();
+    const videoData = videoDoc.data();
+    if (!videoData?.ownerUid) return;
+
+    const durationSec = Number(videoData.techMetaDetected?.durationSec || videoData.techMeta?.durationSec) || 0;
+    const topRenditionBytes = Number(videoData.playback?.renditions?.[0]?.sizeBytes) || 0;
+    const bytesPerSecond = durationSec && topRenditionBytes
+      ? topRenditionBytes / durationSec
+      : DEFAULT_BYTES_PER_SECOND;
+
+    const bytes = Math.round(addedSeconds * bytesPerSecond);
+    if (!bytes) return;
+
+    // A blind increment on this month's document rather than a transaction on usage/{uid},
+    // so concurrent heartbeats for a popular owner don't contend
+    const period = usagePeriod();
+    await db.collection(USAGE_COLLECTION).doc(videoData.ownerUid)
+      .collection(EGRESS_SUBCOLLECTION).doc(period)
+      .set({
+        egressBytes: admin.firestore.FieldValue.increment(bytes),
+        period,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp()
+      }, { merge: true });
+  });
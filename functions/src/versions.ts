@@ -0,0 +1,248 @@
+import * as functions from 'firebase-functions';
+import { admin, db } from './firebase';
+
+// The video's first upload, recorded as a version the first time its media is replaced
+export const ORIGINAL_VERSION_ID = 'original';
+
+export type MediaVersionStatus = 'active' | 'archived';
+
+// Replacement media on its way in, stored on the video as `replacement` until it is swapped in
+export interface MediaReplacement {
+  versionId: string;
+  storage: FirebaseFirestore.DocumentData;
+  status: 'uploading' | 'processing' | 'failed';
+  failureReason?: string;
+  startedAt?: FirebaseFirestore.Timestamp;
+}
+
+// Everything on a video that comes from its media rather than from its owner.
+// Swapped as a whole so viewers never get a mix of old and new files.
+export interface MediaSnapshot {
+  storage: FirebaseFirestore.DocumentData;
+  playback: FirebaseFirestore.DocumentData;
+  techMetaDetected?: FirebaseFirestore.DocumentData;
+  thumbnailCandidates?: unknown[];
+  storyboard?: FirebaseFirestore.DocumentData;
+}
+
+// The poster is the owner's choice, so it stays put when media is swapped
+const PLAYBACK_MEDIA_FIELDS = ['mp4Url', 'renditions', 'hlsUrl', 'hlsVariants'];
+
+interface RollbackRequest {
+  videoId: string;
+  versionId: string;
+}
+
+function versionRef(videoId: string, versionId: string) {
+  return db.collection('videos').doc(videoId).collection('versions').doc(versionId);
+}
+
+/**
+ * The media fields of a video or version document
+ */
+export function snapshotMedia(videoData: FirebaseFirestore.DocumentData): MediaSnapshot {
+  const playback: FirebaseFirestore.DocumentData = {};
+  for (const field of PLAYBACK_MEDIA_FIELDS) {
+    if (videoData.playback?.[field] !== undefined) playback[field] = videoData.playback[field];
+  }
+
+  return {
+    storage: videoData.storage || {},
+    playback,
+    ...(videoData.techMetaDetected ? { techMetaDetected: videoData.techMetaDetected } : {}),
+    ...(videoData.thumbnailCandidates ? { thumbnailCandidates: videoData.thumbnailCandidates } : {}),
+    ...(videoData.storyboard ? { storyboard: videoData.storyboard } : {})
+  };
+}
+
+/**
+ * Video document update that points the video at a snapshot's media, removing
+ * fields the snapshot doesn't have
+ */
+function mediaUpdate(media: MediaSnapshot): Record<string, unknown> {
+  const remove = admin.firestore.FieldValue.delete();
+  const update: Record<string, unknown> = {
+    storage: media.storage,
+    techMetaDetected: media.techMetaDetected ?? remove,
+    thumbnailCandidates: media.thumbnailCandidates ?? remove,
+    storyboard: media.storyboard ?? remove
+  };
+
+  for (const field of PLAYBACK_MEDIA_FIELDS) {
+    update[`playback.${field}`] = media.playback[field] ?? remove;
+  }
+  return update;
+}
+
+/**
+ * Swap a version's media into the video within a transaction, archiving the
+ * media it replaces. Must be called after all of the transaction's reads.
+ */
+function swapMedia(
+  transaction: FirebaseFirestore.Transaction,
+  videoDoc: FirebaseFirestore.DocumentSnapshot,
+  currentVersionDoc: FirebaseFirestore.DocumentSnapshot,
+  nextVersionId: string,
+  nextMedia: MediaSnapshot,
+  videoFields: Record<string, unknown> = {},
+  versionFields: Record<string, unknown> = {}
+) {
+  const videoData = videoDoc.data() || {};
+  const now = admin.firestore.FieldValue.serverTimestamp();
+
+  // Refresh the outgoing version, since candidates or the storyboard may have been regenerated
+  // ownerUid lets storage usage sum an owner's archived masters with one collection group query
+  transaction.set(currentVersionDoc.ref, {
+    ...snapshotMedia(videoData),
+    ownerUid: videoData.ownerUid,
+    status: 'archived',
+    archivedAt: now,
+    ...(currentVersionDoc.exists ? {} : { createdAt: videoData.createdAt || now })
+  }, { merge: true });
+
+  transaction.set(versionRef(videoDoc.id, nextVersionId), {
+    ...nextMedia,
+    ...versionFields,
+    ownerUid: videoData.ownerUid,
+    status: 'active',
+    activatedAt: now
+  }, { merge: true });
+
+  transaction.update(videoDoc.ref, {
+    ...mediaUpdate(nextMedia),
+    ...videoFields,
+    currentVersionId: nextVersionId,
+    updatedAt: now
+  });
+}
+
+/**
+ * Update the status of a video's pending replacement, if it is still the one
+ * being processed
+ * @param videoId - The video document ID
+ * @param versionId - Version the replacement will become
+ * @param status - New status
+ * @param failureReason - Stored for `failed`
+ * @returns Whether the replacement was still pending
+ */
+export async function setReplacementStatus(
+  videoId: string,
+  versionId: string,
+  status: MediaReplacement['status'],
+  failureReason?: string
+): Promise<boolean> {
+  const videoRef = db.collection('videos').doc(videoId);
+
+  return db.runTransaction(async (transaction) => {
+    const videoDoc = await transaction.get(videoRef);
+    const replacement = videoDoc.data()?.replacement as MediaReplacement | undefined;
+    if (replacement?.versionId !== versionId) return false;
+
+    transaction.update(videoRef, {
+      'replacement.status': status,
+      'replacement.failureReason': status === 'failed'
+        ? failureReason || 'Unknown error occurred'
+        : admin.firestore.FieldValue.delete()
+    });
+    return true;
+  });
+}
+
+/**
+ * Make processed replacement media the video's live media. The previous media
+ * is kept as an archived version so the owner can roll back.
+ * @param videoId - The video document ID
+ * @param versionId - Version the replacement becomes
+ * @param media - Playback and derived media from processing; storage comes from the replacement
+ * @returns Whether the version went live (false if the replacement was cancelled or superseded)
+ */
+export async function activateMediaVersion(
+  videoId: string,
+  versionId: string,
+  media: Omit<MediaSnapshot, 'storage'>
+): Promise<boolean> {
+  const videoRef = db.collection('videos').doc(videoId);
+
+  return db.runTransaction(async (transaction) => {
+    const videoDoc = await transaction.get(videoRef);
+    const replacement = videoDoc.data()?.replacement as MediaReplacement | undefined;
+    if (!videoDoc.exists || replacement?.versionId !== versionId) return false;
+
+    const currentVersionId: string = videoDoc.data()?.currentVersionId || ORIGINAL_VERSION_ID;
+    const currentVersionDoc = await transaction.get(versionRef(videoId, currentVersionId));
+
+    swapMedia(
+      transaction,
+      videoDoc,
+      currentVersionDoc,
+      versionId,
+      { ...media, storage: replacement.storage },
+      { replacement: admin.firestore.FieldValue.delete() },
+      { createdAt: replacement.startedAt || admin.firestore.FieldValue.serverTimestamp() }
+    );
+    return true;
+  });
+}
+
+// Make an archived version the video's live media again
+export const rollbackMediaVersion = functions
+  .region('us-central1')
+  .https.onCall(async (data: RollbackRequest, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        'unauthenticated',
+        'User must be authenticated'
+      );
+    }
+
+    const { videoId, versionId } = data;
+
+    if (!videoId || !versionId) {
+      throw new functions.https.HttpsError(
+        'invalid-argument',
+        'Missing required parameters: videoId or versionId'
+      );
+    }
+
+    const uid = context.auth.uid;
+    const videoRef = db.collection('videos').doc(videoId);
+
+    await db.runTransaction(async (transaction) => {
+      const videoDoc = await transaction.get(videoRef);
+
+      if (!videoDoc.exists) {
+        throw new functions.https.HttpsError(
+          'not-found',
+          'Video not found'
+        );
+      }
+
+      if (videoDoc.data()?.ownerUid !== uid) {
+        throw new functions.https.HttpsError(
+          'permission-denied',
+          'You do not have permission to edit this video'
+        );
+      }
+
+      const currentVersionId: string = videoDoc.data()?.currentVersionId || ORIGINAL_VERSION_ID;
+      if (currentVersionId === versionId) return;
+
+      const [currentVersionDoc, targetVersionDoc] = await Promise.all([
+        transaction.get(versionRef(videoId, currentVersionId)),
+        transaction.get(versionRef(videoId, versionId))
+      ]);
+
+      if (!targetVersionDoc.exists) {
+        throw new functions.https.HttpsError(
+          'not-found',
+          'Version not found'
+        );
+      }
+
+      // Version documents hold the same media fields as the video itself
+      swapMedia(transaction, videoDoc, currentVersionDoc, versionId, snapshotMedia(targetVersionDoc.data() || {}));
+    });
+
+    console.log('Rolled back video', videoId, 'to version', versionId);
+    return { success: true, versionId };
+  });
@@ -0,0 +1,25 @@
+import * as ffmpeg from 'fluent-ffmpeg';
+import { runFfmpeg } from '../src/ffmpeg';
+import { projectId } from '../../test/emulators';
+
+// Shared with the app's tests, which run against the same emulators
+export { clearFirestore, projectId } from '../../test/emulators';
+
+export const bucketName = `${projectId}.appspot.com`;
+
+/**
+ * Render a short test pattern with a tone, standing in for an uploaded master
+ * @param outputPath - Local path of the MP4 to write
+ * @param seconds - Length of the clip
+ */
+export async function makeTestVideo(outputPath: string, seconds = 3): Promise<void> {
+  const command = ffmpeg()
+    .input('testsrc=size=640x360:rate=25')
+    .inputFormat('lavfi')
+    .input('sine=frequency=440:sample_rate=48000')
+    .inputFormat('lavfi')
+    .outputOptions([`-t ${seconds}`, '-c:v libx264', '-pix_fmt yuv420p', '-c:a aac', '-movflags +faststart'])
+    .output(outputPath);
+
+  await runFfmpeg(command, 'Render test video');
+}
@@ -0,0 +1,166 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { File } from '@google-cloud/storage';
+import { db, storage } from '../src/firebase';
+import { getMediaReadUrl } from '../src/media';
+import { MEDIA_JOBS_COLLECTION } from '../src/queue';
+import { processVideoUpload, transcodeVideo } from '../src/transcode';
+import { bucketName, clearFirestore, makeTestVideo, projectId } from './emulators';
+import functionsTest = require('firebase-functions-test');
+
+const testEnv = functionsTest({ projectId, storageBucket: bucketName });
+
+const OWNER_UID = 'owner-1';
+const bucket = storage.bucket(bucketName);
+
+let workDir: string;
+let masterFile: string;
+
+beforeAll(async () => {
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'transcode_test_'));
+  masterFile = path.join(workDir, 'master.mp4');
+  await makeTestVideo(masterFile);
+});
+
+afterAll(() => {
+  fs.rmSync(workDir, { recursive: true, force: true });
+  testEnv.cleanup();
+});
+
+beforeEach(clearFirestore);
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+/**
+ * Upload the test master and create its video document, as the upload page does
+ */
+async function createUploadedVideo(videoId: string) {
+  const storagePath = `uploads/${OWNER_UID}/${videoId}.mp4`;
+  await bucket.upload(masterFile, {
+    destination: storagePath,
+    metadata: { contentType: 'video/mp4', metadata: { videoId } }
+  });
+  await db.collection('videos').doc(videoId).set({
+    ownerUid: OWNER_UID,
+    title: 'Test pattern',
+    visibility: 'public',
+    status: 'uploaded',
+    storage: { path: storagePath, sizeBytes: fs.statSync(masterFile).size }
+  });
+  return storagePath;
+}
+
+/**
+ * The finalize event Storage sends for an upload
+ */
+function uploadedObject(videoId: string, storagePath: string, generation = '1') {
+  return {
+    ...testEnv.storage.makeObjectMetadata({ name: storagePath, bucket: bucketName, contentType: 'video/mp4', generation }),
+    metadata: { videoId }
+  };
+}
+
+describe('getMediaReadUrl', () => {
+  it('serves ranged reads of the master from the emulator', async () => {
+    const storagePath = await createUploadedVideo('ranged-read');
+
+    const response = await fetch(await getMediaReadUrl(bucket, storagePath), {
+      headers: { Range: 'bytes=0-99' }
+    });
+
+    expect(response.status).toBe(206);
+    expect((await response.arrayBuffer()).byteLength).toBe(100);
+  });
+});
+
+describe('transcodeVideo', () => {
+  it('encodes from the read URL without downloading the master', async () => {
+    const videoId = 'transcode-ok';
+    const storagePath = await createUploadedVideo(videoId);
+    const readStream = jest.spyOn(File.prototype, 'createReadStream');
+    const download = jest.spyOn(File.prototype, 'download');
+
+    const summary = await transcodeVideo(videoId, storagePath, bucketName, true);
+
+    const readsOfMaster = [...readStream.mock.contexts, ...download.mock.contexts]
+      .filter((file) => (file as File).name === storagePath);
+    expect(readsOfMaster).toHaveLength(0);
+
+    // Smaller than every rung, so one rendition at the source height
+    expect(summary).toMatchObject({ mp4: ['360p'], hls: ['360p'] });
+
+    const video = (await db.collection('videos').doc(videoId).get()).data();
+    expect(video?.status).toBe('ready');
+    expect(video?.techMetaDetected.durationSec).toBeCloseTo(3, 0);
+    expect(video?.playback.renditions).toEqual([
+      expect.objectContaining({ height: 360, width: 640, path: `renditions/${videoId}/360p.mp4` })
+    ]);
+    expect(video?.playback.hlsUrl).toContain(`renditions/${videoId}/hls/master.m3u8`);
+    expect(video?.storyboard).toBeDefined();
+
+    for (const output of [
+      `renditions/${videoId}/360p.mp4`,
+      `renditions/${videoId}/hls/master.m3u8`,
+      `thumbnails/${videoId}/storyboard.jpg`
+    ]) {
+      const [exists] = await bucket.file(output).exists();
+      expect({ output, exists }).toEqual({ output, exists: true });
+    }
+  });
+
+  it('marks the video failed when the master is missing on the final attempt', async () => {
+    const videoId = 'transcode-missing';
+    const storagePath = await createUploadedVideo(videoId);
+    await bucket.file(storagePath).delete();
+
+    await expect(transcodeVideo(videoId, storagePath, bucketName, true)).rejects.toThrow();
+
+    const video = (await db.collection('videos').doc(videoId).get()).data();
+    expect(video?.status).toBe('failed');
+    expect(video?.processing.failureReason).toBeTruthy();
+  });
+
+  it('leaves the video processing while the job has retries left', async () => {
+    const videoId = 'transcode-retry';
+    const storagePath = await createUploadedVideo(videoId);
+    await bucket.file(storagePath).delete();
+
+    await expect(transcodeVideo(videoId, storagePath, bucketName, false)).rejects.toThrow();
+
+    const video = (await db.collection('videos').doc(videoId).get()).data();
+    expect(video?.status).toBe('processing');
+  });
+});
+
+describe('processVideoUpload', () => {
+  const finalize = testEnv.wrap(processVideoUpload);
+
+  it('queues one transcode job per object generation', async () => {
+    const videoId = 'finalize-once';
+    const storagePath = await createUploadedVideo(videoId);
+    const object = uploadedObject(videoId, storagePath);
+
+    await finalize(object);
+    await finalize(object);
+
+    const jobs = await db.collection(MEDIA_JOBS_COLLECTION).where('videoId', '==', videoId).get();
+    expect(jobs.size).toBe(1);
+    expect(jobs.docs[0].data()).toMatchObject({ type: 'transcode', status: 'queued', params: { path: storagePath } });
+  });
+
+  it('does not move a ready video back to uploaded on a repeated finalize', async () => {
+    const videoId = 'finalize-ready';
+    const storagePath = await createUploadedVideo(videoId);
+    const object = uploadedObject(videoId, storagePath);
+
+    await finalize(object);
+    await transcodeVideo(videoId, storagePath, bucketName, true);
+    await finalize(object);
+
+    const video = (await db.collection('videos').doc(videoId).get()).data();
+    expect(video?.status).toBe('ready');
+  });
+});
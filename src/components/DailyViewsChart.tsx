@@ -0,0 +1,49 @@
+import { DailyStats, DateRange, daysInRange } from '../lib/analyticsRollups'
+
+type DailyViewsChartProps = {
+  days: DailyStats[]
+  range: DateRange
+}
+
+// Ranges longer than this are charted by month rather than by day
+const MAX_DAILY_BARS = 90
+
+// Bar chart of views per day (or per month over long ranges), with days without views shown empty
+export function DailyViewsChart({ days, range }: DailyViewsChartProps) {
+  const allDays = daysInRange(range)
+  const monthly = allDays.length > MAX_DAILY_BARS
+  const periodOf = (date: string) => (monthly ? date.slice(0, 7) : date)
+
+  const viewsByPeriod = new Map<string, number>()
+  allDays.forEach((date) => viewsByPeriod.set(periodOf(date), 0))
+  days.forEach((day) => {
+    const period = periodOf(day.date)
+    viewsByPeriod.set(period, (viewsByPeriod.get(period) || 0) + day.views)
+  })
+
+  const bars = Array.from(viewsByPeriod, ([period, views]) => ({ period, views }))
+  const maxViews = Math.max(1, ...bars.map((bar) => bar.views))
+  const formatPeriod = (period: string) => new Date(monthly ? `${period}-01` : period).toLocaleDateString(undefined, {
+    timeZone: 'UTC',
+    ...(monthly ? { month: 'short', year: 'numeric' } : { month: 'short', day: 'numeric' })
+  })
+
+  return (
+    <div className="daily-views-chart">
+      <div className="daily-views-chart__bars" role="img" aria-label={`Views per ${monthly ? 'month' : 'day'}`}>
+        {bars.map(({ period, views }) => (
+          <div
+            key={period}
+            className="daily-views-chart__bar"
+            style={{ height: `${(views / maxViews) * 100}%` }}
+            title={`${formatPeriod(period)}: ${views.toLocaleString()} ${views === 1 ? 'view' : 'views'}`}
+          />
+        ))}
+      </div>
+      <div className="daily-views-chart__axis">
+        <span>{formatPeriod(bars[0].period)}</span>
+        <span>{formatPeriod(bars[bars.length - 1].period)}</span>
+      </div>
+    </div>
+  )
+}
@@ -2,6 +2,7 @@ import { ReactNode } from 'react';
 import Link from 'next/link';
 import { useAuth } from '../contexts/AuthContext';
 import { logOut } from '../lib/auth';
+import { UploadTray } from './UploadTray';
 
 interface LayoutProps {
   children: ReactNode;
@@ -58,6 +59,9 @@ export function Layout({ children, showHeader = true, showFooter = true }: Layou
                       <Link href="/edit-profile" className="menu-item">
                         <span>⚙️</span> Settings
                       </Link>
+                      <Link href="/settings/billing" className="menu-item">
+                        <span>💳</span> Billing
+                      </Link>
                       <button onClick={handleLogout} className="menu-item menu-item--button">
                         <span>🚪</span> Sign Out
                       </button>
@@ -89,6 +93,8 @@ export function Layout({ children, showHeader = true, showFooter = true }: Layou
         {children}
       </main>
 
+      {user && <UploadTray />}
+
       {showFooter && (
         <footer className="footer">
           <div className="container">
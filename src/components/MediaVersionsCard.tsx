@@ -0,0 +1,199 @@
+import { useEffect, useRef, useState } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import { useUploads } from '../contexts/UploadContext'
+import { usePlan } from '../contexts/PlanContext'
+import { sha256File } from '../lib/contentHash'
+import {
+  MediaVersion,
+  VideoMedia,
+  beginMediaReplacement,
+  clearMediaReplacement,
+  rollbackMediaVersion,
+  subscribeToMediaVersions,
+  subscribeToVideoMedia
+} from '../lib/mediaVersions'
+import { formatBytes, videoContentType } from '../lib/uploads'
+import { GB } from '../lib/plans'
+import { isUserFacingError } from '../lib/videoApi'
+
+type MediaVersionsCardProps = {
+  videoId: string
+  title: string
+}
+
+function formatVersionDate(timestamp: any) {
+  const date = timestamp?.toDate?.()
+  return date ? date.toLocaleString() : 'Just now'
+}
+
+function describeVersion(version: MediaVersion) {
+  return [
+    version.storage.fileName || version.storage.originalFileName,
+    version.techMetaDetected?.resolution,
+    version.storage.sizeBytes ? formatBytes(version.storage.sizeBytes) : undefined
+  ].filter(Boolean).join(' • ')
+}
+
+// Replace a video's media with a new master while keeping its ID, details and stats,
+// and roll back to earlier versions
+export function MediaVersionsCard({ videoId, title }: MediaVersionsCardProps) {
+  const { user } = useAuth()
+  const { uploads, startUpload, cancelUpload } = useUploads()
+  const { plan } = usePlan()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [media, setMedia] = useState<VideoMedia | null>(null)
+  const [versions, setVersions] = useState<MediaVersion[]>([])
+  const [preparing, setPreparing] = useState('')
+  const [rollingBack, setRollingBack] = useState('')
+  const [error, setError] = useState('')
+
+  useEffect(() => subscribeToVideoMedia(videoId, setMedia), [videoId])
+  useEffect(() => subscribeToMediaVersions(videoId, setVersions), [videoId])
+
+  const replacement = media?.replacement
+  const upload = replacement && uploads.find(u => u.videoId === videoId && u.storagePath === replacement.storage.path)
+  const percent = upload?.fileSize ? Math.round((upload.uploadedBytes / upload.fileSize) * 100) : 0
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file || !user) return
+
+    if (!videoContentType(file)) {
+      setError('Please choose a video file')
+      return
+    }
+    if (file.size > plan.entitlements.maxUploadGb * GB) {
+      setError(`Videos on the ${plan.name} plan must be smaller than ${plan.entitlements.maxUploadGb}GB`)
+      return
+    }
+    if (!confirm(`Replace the media of "${title}" with ${file.name}? The current version stays live until the new one is processed.`)) {
+      return
+    }
+
+    setError('')
+    try {
+      setPreparing('Checking file...')
+      const sha256 = await sha256File(file, (progress) => setPreparing(`Checking file ${Math.round(progress * 100)}%`))
+      if (sha256 === media?.storage?.sha256) {
+        setError('This is the file the video already uses')
+        return
+      }
+
+      setPreparing('Starting upload...')
+      const { storagePath } = await beginMediaReplacement(user, videoId, file, { sha256 })
+      await startUpload({ file, videoId, title, storagePath, target: 'replacement' })
+    } catch (replaceError) {
+      console.error('Error replacing media:', replaceError)
+      setError(isUserFacingError(replaceError) ? replaceError.message : 'Could not start replacing the media. Please try again.')
+    } finally {
+      setPreparing('')
+    }
+  }
+
+  const handleDiscard = async () => {
+    if (!replacement) return
+    try {
+      if (upload && upload.status !== 'complete' && upload.status !== 'finalizing') {
+        await cancelUpload(upload.id)
+      } else {
+        await clearMediaReplacement(videoId, replacement.storage.path)
+      }
+    } catch (discardError) {
+      console.error('Error discarding replacement:', discardError)
+      setError('Could not discard the new media. Please try again.')
+    }
+  }
+
+  const handleRollback = async (version: MediaVersion) => {
+    if (!confirm(`Make the version from ${formatVersionDate(version.createdAt)} live again?`)) return
+
+    setRollingBack(version.id)
+    setError('')
+    try {
+      await rollbackMediaVersion(videoId, version.id)
+    } catch (rollbackError) {
+      console.error('Error rolling back media:', rollbackError)
+      setError('Could not roll back to that version. Please try again.')
+    } finally {
+      setRollingBack('')
+    }
+  }
+
+  const renderReplacementStatus = () => {
+    if (!replacement) return null
+
+    let label: string
+    if (replacement.status === 'failed') {
+      label = `Processing the new media failed: ${replacement.failureReason || 'Unknown error'}`
+    } else if (replacement.status === 'processing' || upload?.status === 'complete') {
+      label = 'Processing the new media. The current version stays live until it is ready.'
+    } else if (upload) {
+      label = `Uploading ${replacement.storage.fileName || 'new media'}: ${percent}%`
+    } else {
+      label = 'Waiting for the new media to be uploaded from the browser it was started in'
+    }
+
+    return (
+      <div className={`media-versions__pending media-versions__pending--${replacement.status}`}>
+        <span>{label}</span>
+        <button type="button" className="btn btn--ghost" onClick={handleDiscard}>
+          {replacement.status === 'failed' ? 'Dismiss' : 'Discard'}
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="card" style={{ marginBottom: 'var(--space-6)' }}>
+      <h2 style={{ marginBottom: 'var(--space-2)' }}>Media</h2>
+      <p style={{ color: 'var(--text-secondary)', marginBottom: 'var(--space-4)' }}>
+        Upload a new master, such as a new grade, without losing this video&apos;s details, stats, shares or embeds.
+      </p>
+
+      {error && <p className="media-versions__error">{error}</p>}
+
+      {renderReplacementStatus()}
+
+      {!replacement && (
+        <>
+          <input ref={fileInputRef} type="file" accept="video/*" onChange={handleFileChange} style={{ display: 'none' }} />
+          <button
+            type="button"
+            className="btn btn--secondary"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!!preparing}
+          >
+            {preparing || 'Replace media'}
+          </button>
+        </>
+      )}
+
+      {versions.length > 0 && (
+        <ul className="media-versions__list">
+          {versions.map((version) => (
+            <li key={version.id} className="media-versions__item">
+              <div>
+                <div className="media-versions__date">
+                  {formatVersionDate(version.createdAt)}
+                  {version.id === (media?.currentVersionId || 'original') && <span className="badge">Live</span>}
+                </div>
+                <div className="media-versions__meta">{describeVersion(version)}</div>
+              </div>
+              {version.id !== (media?.currentVersionId || 'original') && (
+                <button
+                  type="button"
+                  className="btn btn--ghost"
+                  onClick={() => handleRollback(version)}
+                  disabled={!!rollingBack}
+                >
+                  {rollingBack === version.id ? 'Rolling back...' : 'Roll back'}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+import { ImgHTMLAttributes } from 'react'
+import { PosterSet, getPosterSrcSet } from '../lib/posters'
+
+type PosterImageProps = Omit<ImgHTMLAttributes<HTMLImageElement>, 'src' | 'srcSet'> & {
+  posterUrl: string
+  posters?: PosterSet
+}
+
+// Grid cards are at most a third of the content width on desktop and full width on phones
+const DEFAULT_SIZES = '(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 33vw'
+
+// Responsive poster: AVIF, then WebP, then JPEG derivatives, falling back to the
+// original poster for videos processed before derivatives existed
+export function PosterImage({ posterUrl, posters, sizes = DEFAULT_SIZES, alt, ...imgProps }: PosterImageProps) {
+  if (!posters || posters.widths.length === 0) {
+    return <img src={posterUrl} alt={alt} loading="lazy" {...imgProps} />
+  }
+
+  return (
+    <picture>
+      <source type="image/avif" srcSet={getPosterSrcSet(posters, 'avif')} sizes={sizes} />
+      <source type="image/webp" srcSet={getPosterSrcSet(posters, 'webp')} sizes={sizes} />
+      <img
+        src={posterUrl}
+        srcSet={getPosterSrcSet(posters, 'jpeg')}
+        sizes={sizes}
+        alt={alt}
+        loading="lazy"
+        {...imgProps}
+      />
+    </picture>
+  )
+}
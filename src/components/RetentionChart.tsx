@@ -0,0 +1,116 @@
+import { MouseEvent, useState } from 'react'
+import { RetentionBucket, findDropOffs } from '../lib/retention'
+import { Storyboard, getStoryboardTileIndex, getStoryboardTileStyle } from '../lib/storyboard'
+import { formatTime } from '../lib/thumbnails'
+
+type RetentionChartProps = {
+  buckets: RetentionBucket[]
+  durationSec: number
+  storyboard?: Storyboard
+}
+
+// Storyboard frames shown along the top of the chart
+const FRAME_COUNT = 8
+
+const percent = (share: number) => `${Math.round(share * 100)}%`
+
+// Share of viewers still watching at each point of the video, with rewatched parts
+// drawn above the curve and the steepest drop-offs marked
+export function RetentionChart({ buckets, durationSec, storyboard }: RetentionChartProps) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null)
+
+  // The chart is drawn in a 100 x 100 box stretched to fit
+  const maxPlays = Math.max(1, ...buckets.map((bucket) => bucket.plays))
+  const x = (time: number) => (time / durationSec) * 100
+  const y = (share: number) => 100 - (share / maxPlays) * 100
+  const line = (value: (bucket: RetentionBucket) => number) =>
+    buckets.map((bucket) => `${x(bucket.start)},${y(value(bucket))} ${x(bucket.end)},${y(value(bucket))}`).join(' ')
+  const area = (value: (bucket: RetentionBucket) => number) => `0,100 ${line(value)} 100,100`
+
+  const dropOffs = findDropOffs(buckets)
+  const frameTimes = Array.from({ length: FRAME_COUNT }, (_, index) => ((index + 0.5) / FRAME_COUNT) * durationSec)
+  const hovered = hoverIndex !== null ? buckets[hoverIndex] : null
+
+  const handleMouseMove = (e: MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const fraction = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 0.9999)
+    setHoverIndex(Math.floor(fraction * buckets.length))
+  }
+
+  return (
+    <div className="retention-chart">
+      {storyboard && (
+        <div className="retention-chart__frames" aria-hidden="true">
+          {frameTimes.map((time) => (
+            <div
+              key={time}
+              className="retention-chart__frame"
+              style={{
+                aspectRatio: `${storyboard.tileWidth} / ${storyboard.tileHeight}`,
+                ...getStoryboardTileStyle(storyboard, getStoryboardTileIndex(storyboard, time))
+              }}
+            />
+          ))}
+        </div>
+      )}
+
+      <div
+        className="retention-chart__plot"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverIndex(null)}
+      >
+        <svg viewBox="0 0 100 100" preserveAspectRatio="none" role="img" aria-label="Audience retention over the video">
+          <polygon className="retention-chart__rewatch" points={area((bucket) => bucket.plays)} />
+          <polygon className="retention-chart__area" points={area((bucket) => bucket.retention)} />
+          <polyline className="retention-chart__line" points={line((bucket) => bucket.retention)} vectorEffect="non-scaling-stroke" />
+          {dropOffs.map((dropOff) => (
+            <line
+              key={dropOff.time}
+              className="retention-chart__drop-off"
+              x1={x(dropOff.time)}
+              x2={x(dropOff.time)}
+              y1={0}
+              y2={100}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+          {hovered && (
+            <line
+              className="retention-chart__cursor"
+              x1={x((hovered.start + hovered.end) / 2)}
+              x2={x((hovered.start + hovered.end) / 2)}
+              y1={0}
+              y2={100}
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+
+        {hovered && (
+          <div className="retention-chart__tooltip" style={{ left: `${x((hovered.start + hovered.end) / 2)}%` }}>
+            <div className="retention-chart__tooltip-time">{formatTime(hovered.start)}</div>
+            <div>{percent(hovered.retention)} still watching</div>
+            {hovered.plays > hovered.retention && (
+              <div>Rewatched {percent(hovered.plays - hovered.retention)}</div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="retention-chart__axis">
+        <span>0:00</span>
+        <span>{formatTime(durationSec)}</span>
+      </div>
+
+      <div className="retention-chart__legend">
+        <span className="retention-chart__key retention-chart__key--retention">Still watching</span>
+        <span className="retention-chart__key retention-chart__key--rewatch">Rewatched</span>
+        {dropOffs.length > 0 && (
+          <span className="retention-chart__key retention-chart__key--drop-off">
+            Biggest drop-offs: {dropOffs.map((dropOff) => `${formatTime(dropOff.time)} (−${percent(dropOff.drop)})`).join(', ')}
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+import { MouseEvent, useState } from 'react'
+import { Storyboard, getStoryboardTileStyle } from '../lib/storyboard'
+
+type StoryboardHoverPreviewProps = {
+  storyboard: Storyboard
+}
+
+// Overlay for video card thumbnails: moving the pointer across the card scrubs
+// through the storyboard sprite. The sprite is only requested once hovered.
+export function StoryboardHoverPreview({ storyboard }: StoryboardHoverPreviewProps) {
+  const [tileIndex, setTileIndex] = useState<number | null>(null)
+
+  const handleMouseMove = (e: MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const fraction = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 0.9999)
+    setTileIndex(Math.floor(fraction * storyboard.count))
+  }
+
+  return (
+    <div
+      className="storyboard-preview"
+      onMouseMove={handleMouseMove}
+      onMouseLeave={() => setTileIndex(null)}
+      aria-hidden="true"
+    >
+      {tileIndex !== null && (
+        <>
+          <div className="storyboard-preview__frame" style={getStoryboardTileStyle(storyboard, tileIndex)} />
+          <div className="storyboard-preview__progress" style={{ width: `${((tileIndex + 1) / storyboard.count) * 100}%` }} />
+        </>
+      )}
+    </div>
+  )
+}
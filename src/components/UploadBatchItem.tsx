@@ -0,0 +1,277 @@
+import { useState } from 'react'
+import Link from 'next/link'
+import { UploadProgress, useUploads } from '../contexts/UploadContext'
+import { formatBytes } from '../lib/uploads'
+import { PROXY_SUGGESTED_BYTES } from '../lib/localMedia'
+import { TechMetaDetected, formatTechValue } from '../lib/techMeta'
+import { DuplicateVideo } from '../lib/contentHash'
+
+export type Visibility = 'public' | 'private' | 'unlisted'
+
+// `alongside` uploads a 720p proxy next to the master; `instead` uploads only the proxy
+export type ProxyMode = 'off' | 'alongside' | 'instead'
+
+// One file in a batch upload. Empty overrides fall back to the batch's shared fields.
+export interface BatchUploadFile {
+  key: string
+  file: File
+  title: string
+  description: string
+  extraTags: string
+  visibility: Visibility | ''
+  camera: string
+  // Read in the browser with ffmpeg.wasm as soon as the file is added
+  inspection: 'pending' | 'done' | 'failed'
+  detected?: TechMetaDetected
+  previewBlob?: Blob
+  previewUrl?: string
+  proxyMode: ProxyMode
+  proxyProgress?: number
+  hashProgress?: number
+  sha256?: string
+  // An existing video with the same content hash, and whether to replace its media instead
+  duplicate?: DuplicateVideo
+  replaceVideoId?: string
+  videoId?: string
+  uploadId?: string
+  proxyUploadId?: string
+  error?: string
+}
+
+type UploadBatchItemProps = {
+  item: BatchUploadFile
+  upload?: UploadProgress
+  proxyUpload?: UploadProgress
+  batchVisibility: Visibility
+  batchCamera: string
+  cameraOptions: string[]
+  onChange: (patch: Partial<BatchUploadFile>) => void
+  onRemove: () => void
+}
+
+function getItemStatus(item: BatchUploadFile, upload?: UploadProgress) {
+  if (item.error) return { label: item.error, tone: 'error' }
+  if (!item.uploadId && item.proxyProgress !== undefined) {
+    return { label: `Creating proxy ${Math.round(item.proxyProgress * 100)}%`, tone: 'active' }
+  }
+  if (!item.uploadId && item.inspection === 'pending') return { label: 'Reading file...', tone: 'pending' }
+  if (!item.uploadId && !item.sha256 && item.hashProgress !== undefined) {
+    return { label: `Checking for duplicates ${Math.round(item.hashProgress * 100)}%`, tone: 'pending' }
+  }
+  if (!item.uploadId) return { label: item.replaceVideoId ? 'Ready to replace' : 'Ready to upload', tone: 'pending' }
+  if (!upload) return { label: 'Starting...', tone: 'active' }
+
+  switch (upload.status) {
+    case 'queued':
+      return { label: 'Waiting for another upload to finish', tone: 'pending' }
+    case 'uploading':
+      return { label: `${formatBytes(upload.uploadedBytes)} of ${formatBytes(upload.fileSize)}`, tone: 'active' }
+    case 'paused':
+      return { label: 'Paused', tone: 'pending' }
+    case 'needs-file':
+      return { label: 'Select the file again from the upload tray to resume', tone: 'error' }
+    case 'error':
+      return { label: upload.error || 'Upload interrupted', tone: 'error' }
+    case 'finalizing':
+      return { label: 'Finishing up...', tone: 'active' }
+    case 'complete':
+      return { label: 'Uploaded', tone: 'complete' }
+  }
+}
+
+// e.g. "3840x2160 • 23.976 fps • ProRes 422 HQ • 2:14"
+function describeDetected(detected?: TechMetaDetected) {
+  if (!detected) return ''
+  return [
+    detected.resolution,
+    detected.frameRate && `${detected.frameRate} fps`,
+    detected.codec,
+    detected.durationSec !== undefined && formatTechValue('durationSec', detected.durationSec)
+  ].filter(Boolean).join(' • ')
+}
+
+export function UploadBatchItem({
+  item,
+  upload,
+  proxyUpload,
+  batchVisibility,
+  batchCamera,
+  cameraOptions,
+  onChange,
+  onRemove
+}: UploadBatchItemProps) {
+  const { pauseUpload, resumeUpload } = useUploads()
+  const [expanded, setExpanded] = useState(false)
+  const started = !!item.uploadId
+  const status = getItemStatus(item, upload)
+  const percent = upload?.fileSize
+    ? Math.round((upload.uploadedBytes / upload.fileSize) * 100)
+    : Math.round((item.proxyProgress || 0) * 100)
+  const summary = describeDetected(item.detected)
+
+  return (
+    <li className={`upload-batch-item upload-batch-item--${status.tone}`}>
+      <div className="upload-batch-item__row">
+        {item.previewUrl ? (
+          <img src={item.previewUrl} alt="" className="upload-batch-item__preview" />
+        ) : (
+          <div className="upload-batch-item__preview" aria-hidden="true" />
+        )}
+        <input
+          type="text"
+          value={item.title}
+          onChange={(e) => onChange({ title: e.target.value })}
+          className="input"
+          placeholder="Title *"
+          maxLength={100}
+          disabled={started || !!item.replaceVideoId}
+          aria-label={`Title for ${item.file.name}`}
+        />
+        <div className="upload-batch-item__actions">
+          {!started && (
+            <button type="button" className="btn btn--ghost" onClick={() => setExpanded(!expanded)}>
+              {expanded ? 'Done' : 'Edit details'}
+            </button>
+          )}
+          {upload && (upload.status === 'uploading' || upload.status === 'queued') && (
+            <button type="button" className="btn btn--ghost" onClick={() => pauseUpload(upload.id)}>Pause</button>
+          )}
+          {upload && (upload.status === 'paused' || upload.status === 'error') && (
+            <button type="button" className="btn btn--ghost" onClick={() => resumeUpload(upload.id)}>Resume</button>
+          )}
+          {!started && (
+            <button type="button" className="btn btn--ghost" onClick={onRemove} aria-label={`Remove ${item.file.name}`}>×</button>
+          )}
+        </div>
+      </div>
+
+      <div className="upload-batch-item__meta">
+        <span>{item.file.name} • {formatBytes(item.file.size)}{summary && ` • ${summary}`}</span>
+        <span className="upload-batch-item__status">{status.label}</span>
+      </div>
+
+      {item.duplicate && !started && (
+        <div className="upload-batch-item__duplicate">
+          {item.replaceVideoId ? (
+            <span>
+              Replaces the media of <Link href={`/video/${item.duplicate.id}`} target="_blank">{item.duplicate.title}</Link>.
+              Its details, stats and link stay the same.
+            </span>
+          ) : (
+            <span>
+              You already uploaded this file as <Link href={`/video/${item.duplicate.id}`} target="_blank">{item.duplicate.title}</Link>.
+            </span>
+          )}
+          <button
+            type="button"
+            className="btn btn--ghost"
+            onClick={() => onChange({ replaceVideoId: item.replaceVideoId ? undefined : item.duplicate?.id })}
+          >
+            {item.replaceVideoId ? 'Upload as a new video' : 'Replace its media'}
+          </button>
+        </div>
+      )}
+
+      {proxyUpload && proxyUpload.status !== 'complete' && (
+        <div className="upload-batch-item__meta">
+          <span>Proxy • {formatBytes(proxyUpload.fileSize)}</span>
+          <span>{formatBytes(proxyUpload.uploadedBytes)} of {formatBytes(proxyUpload.fileSize)}</span>
+        </div>
+      )}
+
+      {!started && item.proxyMode === 'off' && item.file.size > PROXY_SUGGESTED_BYTES && (
+        <div className="upload-batch-item__hint">
+          Large master. A 720p proxy can be made in your browser from Edit details.
+        </div>
+      )}
+
+      {(started || item.proxyProgress !== undefined) && (
+        <div className="upload-batch-item__track">
+          <div className="upload-batch-item__fill" style={{ width: `${percent}%` }} />
+        </div>
+      )}
+
+      {expanded && !started && (
+        <div className="upload-batch-item__details">
+          <div>
+            <label style={{ display: 'block', marginBottom: 'var(--space-1)', fontSize: 'var(--text-small-size)' }}>
+              Description
+            </label>
+            <textarea
+              value={item.description}
+              onChange={(e) => onChange({ description: e.target.value })}
+              className="input"
+              rows={3}
+              maxLength={1000}
+              placeholder="Describe this cut..."
+              style={{ resize: 'vertical' }}
+            />
+          </div>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 'var(--space-3)' }}>
+            <div>
+              <label style={{ display: 'block', marginBottom: 'var(--space-1)', fontSize: 'var(--text-small-size)' }}>
+                Visibility
+              </label>
+              <select
+                value={item.visibility}
+                onChange={(e) => onChange({ visibility: e.target.value as Visibility | '' })}
+                className="input"
+              >
+                <option value="">Batch setting ({batchVisibility})</option>
+                <option value="public">Public</option>
+                <option value="unlisted">Unlisted</option>
+                <option value="private">Private</option>
+              </select>
+            </div>
+            <div>
+              <label style={{ display: 'block', marginBottom: 'var(--space-1)', fontSize: 'var(--text-small-size)' }}>
+                Camera
+              </label>
+              <select
+                value={item.camera}
+                onChange={(e) => onChange({ camera: e.target.value })}
+                className="input"
+              >
+                <option value="">Batch setting ({batchCamera || 'none'})</option>
+                {cameraOptions.map((cam) => (
+                  <option key={cam} value={cam}>{cam}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label style={{ display: 'block', marginBottom: 'var(--space-1)', fontSize: 'var(--text-small-size)' }}>
+              Extra tags
+            </label>
+            <input
+              type="text"
+              value={item.extraTags}
+              onChange={(e) => onChange({ extraTags: e.target.value })}
+              className="input"
+              placeholder="Comma separated, added to the batch tags"
+            />
+          </div>
+          <div>
+            <label style={{ display: 'block', marginBottom: 'var(--space-1)', fontSize: 'var(--text-small-size)' }}>
+              Proxy
+            </label>
+            <select
+              value={item.proxyMode}
+              onChange={(e) => onChange({ proxyMode: e.target.value as ProxyMode })}
+              className="input"
+            >
+              <option value="off">Upload the original only</option>
+              <option value="alongside">Upload the original and a 720p H.264 proxy</option>
+              <option value="instead">Upload a 720p H.264 proxy instead of the original</option>
+            </select>
+            {item.proxyMode !== 'off' && (
+              <p className="upload-batch-item__hint" style={{ marginTop: 'var(--space-1)' }}>
+                The proxy is encoded in this tab before uploading, which can take a while for long videos.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </li>
+  )
+}
@@ -0,0 +1,100 @@
+import { useRef, useState } from 'react'
+import Link from 'next/link'
+import { UploadProgress, useUploads } from '../contexts/UploadContext'
+import { UploadStatus, formatBytes } from '../lib/uploads'
+
+const STATUS_LABELS: Record<UploadStatus, string> = {
+  queued: 'Waiting to upload',
+  uploading: 'Uploading',
+  paused: 'Paused',
+  'needs-file': 'Select the file again to resume',
+  error: 'Upload interrupted',
+  finalizing: 'Finishing up',
+  complete: 'Uploaded'
+}
+
+function UploadTrayItem({ upload }: { upload: UploadProgress }) {
+  const { pauseUpload, resumeUpload, cancelUpload, dismissUpload, provideUploadFile } = useUploads()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [fileMismatch, setFileMismatch] = useState(false)
+  const percent = upload.fileSize ? Math.round((upload.uploadedBytes / upload.fileSize) * 100) : 0
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (file) setFileMismatch(!provideUploadFile(upload.id, file))
+  }
+
+  return (
+    <li className={`upload-tray__item upload-tray__item--${upload.status}`}>
+      <div className="upload-tray__row">
+        <span className="upload-tray__title" title={upload.fileName}>{upload.title || upload.fileName}</span>
+        <span className="upload-tray__percent">{percent}%</span>
+      </div>
+      <div className="upload-tray__track">
+        <div className="upload-tray__fill" style={{ width: `${percent}%` }} />
+      </div>
+      <div className="upload-tray__row">
+        <span className="upload-tray__status">
+          {fileMismatch ? `That isn't ${upload.fileName}` : upload.status === 'error' && upload.error ? upload.error : STATUS_LABELS[upload.status]}
+          {(upload.status === 'uploading' || upload.status === 'paused') && ` · ${formatBytes(upload.uploadedBytes)} of ${formatBytes(upload.fileSize)}`}
+        </span>
+        <span className="upload-tray__actions">
+          {(upload.status === 'uploading' || upload.status === 'queued') && (
+            <button type="button" onClick={() => pauseUpload(upload.id)}>Pause</button>
+          )}
+          {(upload.status === 'paused' || upload.status === 'error') && (
+            <button type="button" onClick={() => resumeUpload(upload.id)}>Resume</button>
+          )}
+          {upload.status === 'needs-file' && (
+            <>
+              <input ref={fileInputRef} type="file" accept="video/*" onChange={handleFileChange} style={{ display: 'none' }} />
+              <button type="button" onClick={() => fileInputRef.current?.click()}>Select file</button>
+            </>
+          )}
+          {upload.status === 'complete' ? (
+            <>
+              <Link href={`/video/${upload.videoId}/edit`}>Edit</Link>
+              <button type="button" onClick={() => dismissUpload(upload.id)}>Dismiss</button>
+            </>
+          ) : upload.status !== 'finalizing' && (
+            <button
+              type="button"
+              onClick={() => {
+                if (confirm(`Cancel uploading "${upload.title || upload.fileName}"?`)) cancelUpload(upload.id)
+              }}
+            >
+              Cancel
+            </button>
+          )}
+        </span>
+      </div>
+    </li>
+  )
+}
+
+// Floating list of uploads that keeps running while the user moves around the app
+export function UploadTray() {
+  const { uploads } = useUploads()
+  const [collapsed, setCollapsed] = useState(false)
+
+  if (uploads.length === 0) return null
+
+  const active = uploads.filter(upload => upload.status !== 'complete').length
+
+  return (
+    <aside className="upload-tray" aria-label="Uploads">
+      <button type="button" className="upload-tray__header" onClick={() => setCollapsed(!collapsed)} aria-expanded={!collapsed}>
+        <span>{active > 0 ? `Uploading ${active} ${active === 1 ? 'video' : 'videos'}` : 'Uploads complete'}</span>
+        <span aria-hidden="true">{collapsed ? '▴' : '▾'}</span>
+      </button>
+      {!collapsed && (
+        <ul className="upload-tray__list">
+          {uploads.map(upload => (
+            <UploadTrayItem key={upload.id} upload={upload} />
+          ))}
+        </ul>
+      )}
+    </aside>
+  )
+}
@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react'
+import { usePlan } from '../contexts/PlanContext'
+import { GB } from '../lib/plans'
+import { Usage, subscribeToUsage } from '../lib/usage'
+import { formatBytes } from '../lib/uploads'
+
+type UsageMetersProps = {
+  uid: string
+}
+
+// Meters turn to a warning colour from this share of the plan's allowance
+const WARNING_RATIO = 0.8
+
+function UsageMeter({ label, used, limit }: { label: string; used: number; limit: number }) {
+  const ratio = limit ? used / limit : 0
+  const level = ratio >= 1 ? 'over' : ratio >= WARNING_RATIO ? 'warning' : 'ok'
+
+  return (
+    <div className={`usage-meter usage-meter--${level}`}>
+      <div className="usage-meter__label">
+        <span>{label}</span>
+        <span>{formatBytes(used)} of {formatBytes(limit)}</span>
+      </div>
+      <div
+        className="progress-bar"
+        role="meter"
+        aria-label={label}
+        aria-valuemin={0}
+        aria-valuemax={limit}
+        aria-valuenow={Math.min(used, limit)}
+      >
+        <div className="progress-fill" style={{ width: `${Math.min(100, ratio * 100)}%` }} />
+      </div>
+    </div>
+  )
+}
+
+// Storage and estimated bandwidth against the owner's plan
+export function UsageMeters({ uid }: UsageMetersProps) {
+  const [usage, setUsage] = useState<Usage | null>(null)
+  const { plan } = usePlan()
+
+  useEffect(() => subscribeToUsage(uid, setUsage), [uid])
+
+  if (!usage) return null
+
+  const storageBytes = plan.entitlements.storageGb * GB
+
+  return (
+    <div className="usage-meters">
+      <div className="usage-meters__plan">{plan.name} plan</div>
+      <UsageMeter label="Storage" used={usage.storageBytes} limit={storageBytes} />
+      <UsageMeter label="Bandwidth this month (est.)" used={usage.egressBytes} limit={plan.entitlements.egressGbPerMonth * GB} />
+      {usage.storageBytes >= storageBytes && (
+        <p className="usage-meters__note">Storage is full. Delete videos or upgrade to upload more.</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef, VideoHTMLAttributes } from 'react'
+
+type VideoPlayerProps = Omit<VideoHTMLAttributes<HTMLVideoElement>, 'src'> & {
+  hlsUrl?: string
+  mp4Url?: string
+}
+
+const HLS_MIME_TYPE = 'application/vnd.apple.mpegurl'
+
+// Plays the adaptive HLS ladder when available: natively on Safari/iOS, through
+// hls.js (Media Source Extensions) elsewhere, and falls back to the progressive MP4.
+export const VideoPlayer = forwardRef<HTMLVideoElement, VideoPlayerProps>(function VideoPlayer(
+  { hlsUrl, mp4Url, children, ...videoProps },
+  forwardedRef
+) {
+  const videoRef = useRef<HTMLVideoElement>(null)
+  useImperativeHandle(forwardedRef, () => videoRef.current as HTMLVideoElement)
+
+  useEffect(() => {
+    const videoElement = videoRef.current
+    if (!videoElement) return
+
+    let destroyed = false
+    let hls: import('hls.js').default | null = null
+
+    const fallBackToMp4 = () => {
+      if (mp4Url && videoElement.src !== mp4Url) {
+        videoElement.src = mp4Url
+      }
+    }
+
+    if (!hlsUrl) {
+      fallBackToMp4()
+      return
+    }
+
+    if (videoElement.canPlayType(HLS_MIME_TYPE)) {
+      videoElement.src = hlsUrl
+      return
+    }
+
+    import('hls.js').then(({ default: Hls }) => {
+      if (destroyed) return
+
+      if (!Hls.isSupported()) {
+        fallBackToMp4()
+        return
+      }
+
+      hls = new Hls({ capLevelToPlayerSize: true })
+      hls.on(Hls.Events.ERROR, (_event, data) => {
+        if (!data.fatal) return
+        console.error('HLS playback error, falling back to MP4:', data.type, data.details)
+        hls?.destroy()
+        hls = null
+        fallBackToMp4()
+      })
+      hls.loadSource(hlsUrl)
+      hls.attachMedia(videoElement)
+    }).catch((error) => {
+      console.error('Failed to load HLS player:', error)
+      fallBackToMp4()
+    })
+
+    return () => {
+      destroyed = true
+      hls?.destroy()
+    }
+  }, [hlsUrl, mp4Url])
+
+  return (
+    <video ref={videoRef} {...videoProps}>
+      {children}
+    </video>
+  )
+})
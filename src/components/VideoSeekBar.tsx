@@ -0,0 +1,94 @@
+import { MouseEvent, RefObject, useEffect, useState } from 'react'
+import { Storyboard, getStoryboardTileIndex, getStoryboardTileStyle } from '../lib/storyboard'
+import { formatTime } from '../lib/thumbnails'
+
+type VideoSeekBarProps = {
+  videoRef: RefObject<HTMLVideoElement | null>
+  storyboard?: Storyboard
+}
+
+// Width of the hover preview in pixels; height follows the storyboard's aspect ratio
+const PREVIEW_WIDTH = 160
+
+// Seek bar for the watch page that shows a storyboard frame and timestamp while hovering
+export function VideoSeekBar({ videoRef, storyboard }: VideoSeekBarProps) {
+  const [currentTime, setCurrentTime] = useState(0)
+  const [duration, setDuration] = useState(0)
+  const [buffered, setBuffered] = useState(0)
+  const [hover, setHover] = useState<{ time: number; offset: number; width: number } | null>(null)
+
+  useEffect(() => {
+    const videoElement = videoRef.current
+    if (!videoElement) return
+
+    const sync = () => {
+      setCurrentTime(videoElement.currentTime)
+      setDuration(Number.isFinite(videoElement.duration) ? videoElement.duration : 0)
+      if (videoElement.buffered.length > 0) {
+        setBuffered(videoElement.buffered.end(videoElement.buffered.length - 1))
+      }
+    }
+
+    const events = ['timeupdate', 'durationchange', 'loadedmetadata', 'progress', 'seeked']
+    events.forEach((event) => videoElement.addEventListener(event, sync))
+    sync()
+
+    return () => {
+      events.forEach((event) => videoElement.removeEventListener(event, sync))
+    }
+  }, [videoRef])
+
+  const timeAtPointer = (e: MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const fraction = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1)
+    return { time: fraction * duration, offset: e.clientX - rect.left, width: rect.width }
+  }
+
+  const handleClick = (e: MouseEvent<HTMLDivElement>) => {
+    if (!videoRef.current || !duration) return
+    videoRef.current.currentTime = timeAtPointer(e).time
+  }
+
+  const previewHeight = storyboard
+    ? Math.round((PREVIEW_WIDTH * storyboard.tileHeight) / storyboard.tileWidth)
+    : 0
+  // Keep the preview inside the bar's bounds
+  const previewLeft = hover
+    ? Math.min(Math.max(hover.offset - PREVIEW_WIDTH / 2, 0), Math.max(hover.width - PREVIEW_WIDTH, 0))
+    : 0
+
+  return (
+    <div
+      className="video-seek-bar"
+      role="slider"
+      aria-label="Seek"
+      aria-valuemin={0}
+      aria-valuemax={Math.round(duration)}
+      aria-valuenow={Math.round(currentTime)}
+      aria-valuetext={formatTime(currentTime)}
+      onClick={handleClick}
+      onMouseMove={(e) => setHover(duration ? timeAtPointer(e) : null)}
+      onMouseLeave={() => setHover(null)}
+    >
+      <div className="video-seek-bar__track">
+        <div className="video-seek-bar__buffered" style={{ width: duration ? `${(buffered / duration) * 100}%` : 0 }} />
+        <div className="video-seek-bar__played" style={{ width: duration ? `${(currentTime / duration) * 100}%` : 0 }} />
+      </div>
+
+      {hover && (
+        <div className="video-seek-bar__preview" style={{ left: previewLeft, width: PREVIEW_WIDTH }}>
+          {storyboard && (
+            <div
+              className="video-seek-bar__frame"
+              style={{
+                height: previewHeight,
+                ...getStoryboardTileStyle(storyboard, getStoryboardTileIndex(storyboard, hover.time))
+              }}
+            />
+          )}
+          <div className="video-seek-bar__time">{formatTime(hover.time)}</div>
+        </div>
+      )}
+    </div>
+  )
+}
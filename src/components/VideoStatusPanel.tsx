@@ -0,0 +1,23 @@
+import { VideoStatus, getVideoStatusMessage } from '../lib/videoStatus'
+
+type VideoStatusPanelProps = {
+  status: VideoStatus
+  failureReason?: string
+  showReason?: boolean
+}
+
+// Shown in place of the <video> element until renditions are ready
+export function VideoStatusPanel({ status, failureReason, showReason = false }: VideoStatusPanelProps) {
+  return (
+    <div className="video-status-panel" role="status">
+      <div style={{ fontSize: '32px' }}>{status === 'failed' ? '⚠️' : '⏳'}</div>
+      <div>{getVideoStatusMessage(status)}</div>
+      {status === 'failed' && showReason && failureReason && (
+        <div className="video-status-panel__reason">{failureReason}</div>
+      )}
+      {status !== 'failed' && (
+        <div className="video-status-panel__reason">This page will update automatically when the video is ready.</div>
+      )}
+    </div>
+  )
+}
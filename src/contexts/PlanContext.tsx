@@ -0,0 +1,96 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { User } from 'firebase/auth';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { useAuth } from './AuthContext';
+import { FeatureEntitlement, PLANS, Plan, PlanId, hasEntitlement, resolvePlanId } from '../lib/plans';
+
+interface PlanContextType {
+  planId: PlanId;
+  plan: Plan;
+  subscriptionStatus?: string;
+  loading: boolean;
+  hasEntitlement: (entitlement: FeatureEntitlement) => boolean;
+}
+
+const PlanContext = createContext<PlanContextType>({
+  planId: 'free',
+  plan: PLANS.free,
+  loading: true,
+  hasEntitlement: () => false
+});
+
+export const usePlan = () => {
+  const context = useContext(PlanContext);
+  if (!context) {
+    throw new Error('usePlan must be used within a PlanProvider');
+  }
+  return context;
+};
+
+/**
+ * Fetch a new ID token if the current one was issued before the claims changed
+ */
+async function refreshStaleToken(user: User, claimsUpdatedAt: number): Promise<void> {
+  try {
+    const token = await user.getIdTokenResult();
+    if (Date.parse(token.issuedAtTime) < claimsUpdatedAt) {
+      await user.getIdToken(true);
+    }
+  } catch (error) {
+    console.error('Error refreshing plan claims:', error);
+  }
+}
+
+interface PlanProviderProps {
+  children: ReactNode;
+}
+
+// The signed-in user's plan, following the billing fields the Stripe webhook writes
+// to `users/{uid}`. Entitlements are also checked server-side; this only drives the UI.
+export const PlanProvider = ({ children }: PlanProviderProps) => {
+  const { user } = useAuth();
+  const [planId, setPlanId] = useState<PlanId>('free');
+  const [subscriptionStatus, setSubscriptionStatus] = useState<string | undefined>();
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) {
+      setPlanId('free');
+      setSubscriptionStatus(undefined);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    return onSnapshot(doc(db, 'users', user.uid), (snapshot) => {
+      const data = snapshot.data();
+      setPlanId(resolvePlanId(data));
+      setSubscriptionStatus(data?.subscriptionStatus);
+      setLoading(false);
+
+      // The rules read the plan from custom claims, which only reach the client in a new ID token
+      const claimsUpdatedAt = data?.claimsUpdatedAt?.toMillis();
+      if (claimsUpdatedAt) {
+        refreshStaleToken(user, claimsUpdatedAt);
+      }
+    }, (error) => {
+      console.error('Error loading plan:', error);
+      setLoading(false);
+    });
+  }, [user]);
+
+  const value = {
+    planId,
+    plan: PLANS[planId],
+    subscriptionStatus,
+    loading,
+    hasEntitlement: (entitlement: FeatureEntitlement) => hasEntitlement(planId, entitlement)
+  };
+
+  return (
+    <PlanContext.Provider value={value}>
+      {children}
+    </PlanContext.Provider>
+  );
+};
@@ -0,0 +1,370 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, ReactNode } from 'react';
+import { UploadTask } from 'firebase/storage';
+import { doc, deleteDoc, getDoc } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { clearMediaReplacement } from '../lib/mediaVersions';
+import { useAuth } from './AuthContext';
+import {
+  ABANDONED_UPLOAD_MS,
+  MAX_CONCURRENT_UPLOADS,
+  UPLOAD_CHUNK_SIZE,
+  UploadSession,
+  UploadTarget,
+  completeChunkedUpload,
+  deleteUploadParts,
+  deleteUploadSession,
+  getUploadFile,
+  getUploadSessions,
+  getUploadedBytes,
+  matchesUploadSession,
+  saveUploadFile,
+  saveUploadSession,
+  uploadPart,
+  videoContentType
+} from '../lib/uploads';
+
+export interface UploadProgress extends UploadSession {
+  uploadedBytes: number;
+}
+
+export interface StartUploadOptions {
+  file: File;
+  videoId: string;
+  title: string;
+  storagePath: string;
+  target?: UploadTarget;
+}
+
+interface UploadContextType {
+  uploads: UploadProgress[];
+  startUpload: (options: StartUploadOptions) => Promise<string>;
+  pauseUpload: (id: string) => void;
+  resumeUpload: (id: string) => void;
+  cancelUpload: (id: string) => Promise<void>;
+  dismissUpload: (id: string) => void;
+  provideUploadFile: (id: string, file: File) => boolean;
+}
+
+const UploadContext = createContext<UploadContextType | null>(null);
+
+export const useUploads = () => {
+  const context = useContext(UploadContext);
+  if (!context) {
+    throw new Error('useUploads must be used within an UploadProvider');
+  }
+  return context;
+};
+
+const isCanceledError = (error: unknown) =>
+  !!error && typeof error === 'object' && 'code' in error && error.code === 'storage/canceled';
+
+interface UploadProviderProps {
+  children: ReactNode;
+}
+
+// Runs uploads outside any page so they keep going while the user moves around the app
+export const UploadProvider = ({ children }: UploadProviderProps) => {
+  const { user } = useAuth();
+
+  // The upload loop reads and writes these refs directly, since it needs the latest
+  // values between awaits; `publish` copies them into state for rendering
+  const sessionsRef = useRef(new Map<string, UploadSession>());
+  const filesRef = useRef(new Map<string, Blob>());
+  const tasksRef = useRef(new Map<string, UploadTask>());
+  const partBytesRef = useRef(new Map<string, number>());
+  const runningRef = useRef(new Set<string>());
+
+  const [sessions, setSessions] = useState<UploadSession[]>([]);
+  const [partBytes, setPartBytesState] = useState<ReadonlyMap<string, number>>(new Map());
+
+  const publish = useCallback(() => {
+    setSessions(Array.from(sessionsRef.current.values()));
+    setPartBytesState(new Map(partBytesRef.current));
+  }, []);
+
+  const updateSession = useCallback((id: string, patch: Partial<UploadSession>) => {
+    const session = sessionsRef.current.get(id);
+    if (!session) return;
+
+    const next = { ...session, ...patch, updatedAt: Date.now() };
+    sessionsRef.current.set(id, next);
+    publish();
+
+    if (next.status !== 'complete') {
+      saveUploadSession(next).catch(error => console.error('Error saving upload session:', error));
+    }
+  }, [publish]);
+
+  const setPartBytes = useCallback((id: string, bytes: number) => {
+    partBytesRef.current.set(id, bytes);
+    publish();
+  }, [publish]);
+
+  // Ref to the latest runSession so the queue can start the next upload from inside one
+  const runSessionRef = useRef<(id: string) => Promise<void>>(async () => {});
+
+  const startNextQueued = useCallback(() => {
+    const queued = Array.from(sessionsRef.current.values())
+      .filter(session => session.status === 'queued' && !runningRef.current.has(session.id))
+      .sort((a, b) => a.createdAt - b.createdAt);
+
+    for (const session of queued.slice(0, Math.max(0, MAX_CONCURRENT_UPLOADS - runningRef.current.size))) {
+      runSessionRef.current(session.id);
+    }
+  }, []);
+
+  const runSession = useCallback(async (id: string) => {
+    if (runningRef.current.has(id)) return;
+
+    if (runningRef.current.size >= MAX_CONCURRENT_UPLOADS) {
+      updateSession(id, { status: 'queued' });
+      return;
+    }
+    runningRef.current.add(id);
+
+    try {
+      const initial = sessionsRef.current.get(id);
+      if (!initial) return;
+
+      let file = filesRef.current.get(id);
+      if (!file && initial.completedParts < initial.partCount) {
+        file = await getUploadFile(id);
+        if (file) filesRef.current.set(id, file);
+      }
+
+      if (!file && initial.completedParts < initial.partCount) {
+        updateSession(id, { status: 'needs-file' });
+        return;
+      }
+
+      updateSession(id, { status: 'uploading', error: undefined });
+
+      // Upload the remaining parts one at a time; completed parts are never re-sent
+      while (true) {
+        const session = sessionsRef.current.get(id);
+        if (!session || session.status !== 'uploading') return;
+        if (session.completedParts >= session.partCount) break;
+
+        const task = uploadPart(session, file as Blob, session.completedParts);
+        tasksRef.current.set(id, task);
+        const unsubscribe = task.on('state_changed', (snapshot) => {
+          setPartBytes(id, snapshot.bytesTransferred);
+        });
+
+        try {
+          await task;
+        } finally {
+          unsubscribe();
+          tasksRef.current.delete(id);
+        }
+
+        partBytesRef.current.set(id, 0);
+        updateSession(id, { completedParts: session.completedParts + 1 });
+      }
+
+      updateSession(id, { status: 'finalizing' });
+      await completeChunkedUpload(sessionsRef.current.get(id) as UploadSession);
+
+      updateSession(id, { status: 'complete' });
+      filesRef.current.delete(id);
+      await deleteUploadSession(id);
+    } catch (error) {
+      const session = sessionsRef.current.get(id);
+
+      // Pausing, cancelling and signing out stop the task themselves
+      if (session && !isCanceledError(error) && (session.status === 'uploading' || session.status === 'finalizing')) {
+        console.error('Upload error:', error);
+        updateSession(id, {
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Upload failed'
+        });
+      }
+    } finally {
+      runningRef.current.delete(id);
+      partBytesRef.current.set(id, 0);
+      startNextQueued();
+    }
+  }, [updateSession, setPartBytes, startNextQueued]);
+
+  runSessionRef.current = runSession;
+
+  // Restore this user's unfinished uploads; ones that were running carry on
+  useEffect(() => {
+    const sessions = sessionsRef.current;
+    const tasks = tasksRef.current;
+
+    if (!user) return;
+
+    let cancelled = false;
+
+    getUploadSessions(user.uid)
+      .then(async (stored) => {
+        if (cancelled) return;
+
+        for (const session of stored) {
+          if (Date.now() - session.updatedAt > ABANDONED_UPLOAD_MS) {
+            // The server has already removed its parts
+            await deleteUploadSession(session.id);
+            continue;
+          }
+          if (!sessions.has(session.id)) {
+            sessions.set(session.id, session);
+          }
+        }
+        publish();
+
+        for (const session of Array.from(sessions.values())) {
+          if (['queued', 'uploading', 'finalizing', 'needs-file'].includes(session.status)) {
+            runSession(session.id);
+          }
+        }
+      })
+      .catch(error => console.error('Error restoring uploads:', error));
+
+    return () => {
+      cancelled = true;
+
+      // Signing out stops uploads without forgetting them; they resume on next sign in
+      const running = Array.from(tasks.values());
+      sessions.clear();
+      filesRef.current.clear();
+      partBytesRef.current.clear();
+      running.forEach(task => task.cancel());
+      publish();
+    };
+  }, [user, publish, runSession]);
+
+  // Pick errored uploads back up when the connection returns
+  useEffect(() => {
+    const handleOnline = () => {
+      sessionsRef.current.forEach(session => {
+        if (session.status === 'error') runSession(session.id);
+      });
+    };
+
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [runSession]);
+
+  const startUpload = useCallback(async ({ file, videoId, title, storagePath, target = 'master' }: StartUploadOptions) => {
+    if (!user) throw new Error('User must be signed in to upload');
+
+    const now = Date.now();
+    const session: UploadSession = {
+      id: `${videoId}-${target === 'proxy' ? 'proxy-' : ''}${now}`,
+      ownerUid: user.uid,
+      videoId,
+      title,
+      storagePath,
+      target,
+      fileName: file.name,
+      fileSize: file.size,
+      contentType: videoContentType(file),
+      lastModified: file.lastModified,
+      chunkSize: UPLOAD_CHUNK_SIZE,
+      partCount: Math.max(1, Math.ceil(file.size / UPLOAD_CHUNK_SIZE)),
+      completedParts: 0,
+      status: 'uploading',
+      createdAt: now,
+      updatedAt: now
+    };
+
+    sessionsRef.current.set(session.id, session);
+    filesRef.current.set(session.id, file);
+    publish();
+
+    await saveUploadSession(session);
+    // Copying a large file into IndexedDB can take a while; the upload starts meanwhile
+    saveUploadFile(session.id, file);
+    runSession(session.id);
+
+    return session.id;
+  }, [user, publish, runSession]);
+
+  // Pausing drops the part in flight so the slot goes to the next queued upload
+  const pauseUpload = useCallback((id: string) => {
+    const session = sessionsRef.current.get(id);
+    if (!session || (session.status !== 'uploading' && session.status !== 'queued')) return;
+
+    updateSession(id, { status: 'paused' });
+    tasksRef.current.get(id)?.cancel();
+  }, [updateSession]);
+
+  const resumeUpload = useCallback((id: string) => {
+    const session = sessionsRef.current.get(id);
+    if (!session || (session.status !== 'paused' && session.status !== 'error')) return;
+
+    runSession(id);
+  }, [runSession]);
+
+  const cancelUpload = useCallback(async (id: string) => {
+    const session = sessionsRef.current.get(id);
+    if (!session || session.status === 'complete' || session.status === 'finalizing') return;
+
+    sessionsRef.current.delete(id);
+    filesRef.current.delete(id);
+    partBytesRef.current.delete(id);
+    tasksRef.current.get(id)?.cancel();
+    publish();
+
+    try {
+      await deleteUploadSession(id);
+      await deleteUploadParts(session);
+
+      // Remove the placeholder document so it doesn't linger on the dashboard.
+      // A cancelled proxy or replacement leaves the video on its current media.
+      if (session.target === 'replacement') {
+        await clearMediaReplacement(session.videoId, session.storagePath);
+      } else if (session.target !== 'proxy') {
+        const videoDoc = await getDoc(doc(db, 'videos', session.videoId));
+        if (videoDoc.exists() && !videoDoc.data().status) {
+          await deleteDoc(videoDoc.ref);
+        }
+      }
+    } catch (error) {
+      console.error('Error cleaning up cancelled upload:', error);
+    }
+  }, [publish]);
+
+  const dismissUpload = useCallback((id: string) => {
+    const session = sessionsRef.current.get(id);
+    if (!session || session.status !== 'complete') return;
+
+    sessionsRef.current.delete(id);
+    partBytesRef.current.delete(id);
+    publish();
+  }, [publish]);
+
+  const provideUploadFile = useCallback((id: string, file: File) => {
+    const session = sessionsRef.current.get(id);
+    if (!session || !matchesUploadSession(session, file)) return false;
+
+    filesRef.current.set(id, file);
+    saveUploadFile(id, file);
+    runSession(id);
+    return true;
+  }, [runSession]);
+
+  const uploads = useMemo(() => {
+    return [...sessions]
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(session => ({
+        ...session,
+        uploadedBytes: getUploadedBytes(session, partBytes.get(session.id))
+      }));
+  }, [sessions, partBytes]);
+
+  return (
+    <UploadContext.Provider value={{
+      uploads,
+      startUpload,
+      pauseUpload,
+      resumeUpload,
+      cancelUpload,
+      dismissUpload,
+      provideUploadFile
+    }}>
+      {children}
+    </UploadContext.Provider>
+  );
+};
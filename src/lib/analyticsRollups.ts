@@ -0,0 +1,122 @@
+import { collection, getDocs, orderBy, query, where } from 'firebase/firestore';
+import { db } from './firebase';
+import { ViewSource, VIEW_SOURCES } from './playbackAnalytics';
+
+// One UTC day of a video's or an owner's analytics, built by Cloud Functions
+// (functions/src/analytics.ts) from playback sessions and shares
+export interface DailyStats {
+  date: string; // "2025-03-14"
+  views: number;
+  // Counted per day: someone who watches on two days counts on both
+  uniqueViewers: number;
+  watchTimeSeconds: number;
+  completedViews: number;
+  sources: Record<ViewSource, number>;
+  shares: number;
+}
+
+export type StatsTotals = Omit<DailyStats, 'date'>;
+
+// A span of whole UTC days, both ends included
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * UTC day a date falls on, e.g. "2025-03-14"
+ */
+export function dateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * The last `days` days up to and including today
+ */
+export function lastDays(days: number, now = new Date()): DateRange {
+  return {
+    from: dateKey(new Date(now.getTime() - (days - 1) * DAY_MS)),
+    to: dateKey(now)
+  };
+}
+
+/**
+ * Every day of a range, in order
+ */
+export function daysInRange({ from, to }: DateRange): string[] {
+  const days: string[] = [];
+  for (let time = Date.parse(from); time <= Date.parse(to); time += DAY_MS) {
+    days.push(dateKey(new Date(time)));
+  }
+  return days;
+}
+
+function toDailyStats(data: Record<string, any>): DailyStats {
+  return {
+    date: data.date,
+    views: data.views || 0,
+    uniqueViewers: data.uniqueViewers || 0,
+    watchTimeSeconds: data.watchTimeSeconds || 0,
+    completedViews: data.completedViews || 0,
+    sources: Object.fromEntries(VIEW_SOURCES.map((source) => [source, data.sources?.[source] || 0])) as Record<ViewSource, number>,
+    shares: data.shares || 0
+  };
+}
+
+/**
+ * Daily stats of one video over a date range. Days without activity have no rollup and are left out.
+ * @param ownerUid - The signed-in owner; the security rules only let owners read their rollups
+ * @param videoId - The video
+ * @param range - Days to fetch
+ */
+export async function fetchVideoDailyStats(ownerUid: string, videoId: string, range: DateRange): Promise<DailyStats[]> {
+  const snapshot = await getDocs(query(
+    collection(db, 'videoStatsDaily'),
+    where('ownerUid', '==', ownerUid),
+    where('videoId', '==', videoId),
+    where('date', '>=', range.from),
+    where('date', '<=', range.to),
+    orderBy('date')
+  ));
+  return snapshot.docs.map((doc) => toDailyStats(doc.data()));
+}
+
+/**
+ * Daily stats across all of an owner's videos over a date range
+ * @param ownerUid - The signed-in owner
+ * @param range - Days to fetch
+ */
+export async function fetchOwnerDailyStats(ownerUid: string, range: DateRange): Promise<DailyStats[]> {
+  const snapshot = await getDocs(query(
+    collection(db, 'ownerStatsDaily'),
+    where('ownerUid', '==', ownerUid),
+    where('date', '>=', range.from),
+    where('date', '<=', range.to),
+    orderBy('date')
+  ));
+  return snapshot.docs.map((doc) => toDailyStats(doc.data()));
+}
+
+/**
+ * Add up daily stats. Unique viewers are the sum of each day's.
+ */
+export function sumDailyStats(days: DailyStats[]): StatsTotals {
+  return days.reduce<StatsTotals>((totals, day) => ({
+    views: totals.views + day.views,
+    uniqueViewers: totals.uniqueViewers + day.uniqueViewers,
+    watchTimeSeconds: totals.watchTimeSeconds + day.watchTimeSeconds,
+    completedViews: totals.completedViews + day.completedViews,
+    sources: Object.fromEntries(VIEW_SOURCES.map((source) =>
+      [source, totals.sources[source] + day.sources[source]])) as Record<ViewSource, number>,
+    shares: totals.shares + day.shares
+  }), {
+    views: 0,
+    uniqueViewers: 0,
+    watchTimeSeconds: 0,
+    completedViews: 0,
+    sources: Object.fromEntries(VIEW_SOURCES.map((source) => [source, 0])) as Record<ViewSource, number>,
+    shares: 0
+  });
+}
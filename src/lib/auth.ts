@@ -36,6 +36,7 @@ export interface UserProfile {
   website?: string;
   skills?: string[];
   links?: { label: string; url: string }[];
+  customDomain?: string; // Set through /api/profile/custom-domain only
   visibility: 'public' | 'private' | 'unlisted';
   role: 'user' | 'companyAdmin' | 'admin';
   onboarded: boolean;
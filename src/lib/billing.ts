@@ -0,0 +1,119 @@
+import { collection, doc, limit, onSnapshot, orderBy, query } from 'firebase/firestore';
+import { db } from './firebase';
+import { PlanId, resolvePlanId } from './plans';
+
+// Billing state the Stripe webhook mirrors onto `users/{uid}`
+
+export interface PaymentMethodSummary {
+  brand: string;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+}
+
+export interface BillingDetails {
+  planId: PlanId;
+  subscriptionStatus?: string;
+  // Renewal, or the end of access when cancelAtPeriodEnd is set
+  currentPeriodEnd?: Date;
+  cancelAtPeriodEnd: boolean;
+  trialEnd?: Date;
+  // Set after a failed renewal payment: the plan is kept until then while Stripe retries
+  graceUntil?: Date;
+  paymentMethod: PaymentMethodSummary | null;
+  // Whether the user has a Stripe customer, and so can open the billing portal
+  hasCustomer: boolean;
+}
+
+export interface Invoice {
+  id: string;
+  number: string | null;
+  status: 'draft' | 'open' | 'paid' | 'uncollectible' | 'void' | null;
+  amountDue: number; // In the currency's smallest unit
+  amountPaid: number;
+  currency: string;
+  created: Date;
+  hostedInvoiceUrl: string | null;
+  invoicePdf: string | null;
+}
+
+export type PaymentMethodStatus = 'ok' | 'expiring' | 'expired' | 'failed' | 'missing';
+
+// How many invoices the billing page lists
+const INVOICE_HISTORY_LIMIT = 24;
+
+/**
+ * Listen to a user's billing details
+ * @returns Unsubscribe function
+ */
+export function subscribeToBilling(uid: string, callback: (billing: BillingDetails) => void): () => void {
+  return onSnapshot(doc(db, 'users', uid), (snapshot) => {
+    const data = snapshot.data();
+    callback({
+      planId: resolvePlanId(data),
+      subscriptionStatus: data?.subscriptionStatus,
+      currentPeriodEnd: data?.currentPeriodEnd?.toDate(),
+      cancelAtPeriodEnd: !!data?.cancelAtPeriodEnd,
+      trialEnd: data?.trialEnd?.toDate(),
+      graceUntil: data?.graceUntil?.toDate(),
+      paymentMethod: data?.paymentMethod || null,
+      hasCustomer: !!data?.customerId
+    });
+  });
+}
+
+/**
+ * Listen to a user's most recent invoices, newest first
+ * @returns Unsubscribe function
+ */
+export function subscribeToInvoices(uid: string, callback: (invoices: Invoice[]) => void): () => void {
+  const invoicesQuery = query(
+    collection(db, 'users', uid, 'invoices'),
+    orderBy('created', 'desc'),
+    limit(INVOICE_HISTORY_LIMIT)
+  );
+
+  return onSnapshot(invoicesQuery, (snapshot) => {
+    callback(snapshot.docs.map((invoiceDoc) => {
+      const data = invoiceDoc.data();
+      return {
+        id: invoiceDoc.id,
+        number: data.number,
+        status: data.status,
+        amountDue: data.amountDue || 0,
+        amountPaid: data.amountPaid || 0,
+        currency: data.currency || 'usd',
+        created: data.created?.toDate() || new Date(0),
+        hostedInvoiceUrl: data.hostedInvoiceUrl,
+        invoicePdf: data.invoicePdf
+      };
+    }));
+  });
+}
+
+/**
+ * Whether the card on file will keep the subscription paid
+ * @param billing - The user's billing details
+ * @param latestInvoice - The most recent invoice, if any
+ */
+export function getPaymentMethodStatus(billing: BillingDetails, latestInvoice?: Invoice): PaymentMethodStatus {
+  if (billing.graceUntil || billing.subscriptionStatus === 'unpaid') return 'failed';
+  if (latestInvoice?.status === 'open' && billing.subscriptionStatus === 'past_due') return 'failed';
+
+  const card = billing.paymentMethod;
+  if (!card) return 'missing';
+
+  // Cards work until the end of their expiry month
+  const now = new Date();
+  const monthsLeft = (card.expYear - now.getFullYear()) * 12 + (card.expMonth - (now.getMonth() + 1));
+  if (monthsLeft < 0) return 'expired';
+  if (monthsLeft < 1) return 'expiring';
+  return 'ok';
+}
+
+/**
+ * Format an amount in a currency's smallest unit, e.g. 5000 "usd" -> "$50.00"
+ */
+export function formatAmount(amount: number, currency: string): string {
+  return new Intl.NumberFormat(undefined, { style: 'currency', currency: currency.toUpperCase() }).format(amount / 100);
+}
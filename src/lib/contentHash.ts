@@ -0,0 +1,156 @@
+import { collection, getDocs, limit, query, where } from 'firebase/firestore';
+import { db } from './firebase';
+
+// Files are read in slices so large masters are never held in memory at once
+const HASH_SLICE_SIZE = 4 * 1024 * 1024; // 4MB
+
+const ROUND_CONSTANTS = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+export interface DuplicateVideo {
+  id: string;
+  title: string;
+}
+
+/**
+ * Incremental SHA-256. SubtleCrypto can only digest a whole buffer, which
+ * doesn't work for multi-gigabyte files.
+ */
+function createSha256() {
+  const state = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+  ]);
+  const words = new Uint32Array(64);
+  const pending = new Uint8Array(64);
+  let pendingLength = 0;
+  let totalLength = 0;
+
+  const compress = (data: Uint8Array, offset: number) => {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      words[i] = (data[j] << 24) | (data[j + 1] << 16) | (data[j + 2] << 8) | data[j + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const w15 = words[i - 15];
+      const w2 = words[i - 2];
+      const s0 = ((w15 >>> 7) | (w15 << 25)) ^ ((w15 >>> 18) | (w15 << 14)) ^ (w15 >>> 3);
+      const s1 = ((w2 >>> 17) | (w2 << 15)) ^ ((w2 >>> 19) | (w2 << 13)) ^ (w2 >>> 10);
+      words[i] = (words[i - 16] + s0 + words[i - 7] + s1) | 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = state;
+    for (let i = 0; i < 64; i++) {
+      const S1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (h + S1 + ch + ROUND_CONSTANTS[i] + words[i]) | 0;
+      const S0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (S0 + maj) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+    state[4] += e;
+    state[5] += f;
+    state[6] += g;
+    state[7] += h;
+  };
+
+  return {
+    update(data: Uint8Array) {
+      let offset = 0;
+      totalLength += data.length;
+
+      if (pendingLength > 0) {
+        const take = Math.min(64 - pendingLength, data.length);
+        pending.set(data.subarray(0, take), pendingLength);
+        pendingLength += take;
+        offset = take;
+        if (pendingLength < 64) return;
+        compress(pending, 0);
+        pendingLength = 0;
+      }
+
+      for (; offset + 64 <= data.length; offset += 64) {
+        compress(data, offset);
+      }
+
+      pending.set(data.subarray(offset), 0);
+      pendingLength = data.length - offset;
+    },
+
+    digest(): string {
+      // Pad with 0x80, zeros, and the message length in bits as a 64-bit big-endian integer
+      const bitLength = totalLength * 8;
+      const padded = new Uint8Array(pendingLength < 56 ? 64 : 128);
+      padded.set(pending.subarray(0, pendingLength));
+      padded[pendingLength] = 0x80;
+
+      const view = new DataView(padded.buffer);
+      view.setUint32(padded.length - 8, Math.floor(bitLength / 0x100000000));
+      view.setUint32(padded.length - 4, bitLength >>> 0);
+
+      for (let offset = 0; offset < padded.length; offset += 64) {
+        compress(padded, offset);
+      }
+
+      return Array.from(state, (word) => word.toString(16).padStart(8, '0')).join('');
+    }
+  };
+}
+
+/**
+ * Compute the SHA-256 of a file in the browser
+ * @param file - The file to hash
+ * @param onProgress - Called with progress from 0 to 1 after each slice
+ * @returns Lowercase hex digest
+ */
+export async function sha256File(file: Blob, onProgress?: (progress: number) => void): Promise<string> {
+  const hash = createSha256();
+
+  for (let offset = 0; offset < file.size; offset += HASH_SLICE_SIZE) {
+    const slice = await file.slice(offset, offset + HASH_SLICE_SIZE).arrayBuffer();
+    hash.update(new Uint8Array(slice));
+    onProgress?.(Math.min(1, (offset + HASH_SLICE_SIZE) / file.size));
+  }
+
+  return hash.digest();
+}
+
+/**
+ * Find one of the owner's videos whose master has the given hash
+ * @param ownerUid - The owner to search
+ * @param sha256 - Hex digest from sha256File
+ * @returns The existing video, or null if the file is new
+ */
+export async function findVideoByContentHash(ownerUid: string, sha256: string): Promise<DuplicateVideo | null> {
+  const snapshot = await getDocs(query(
+    collection(db, 'videos'),
+    where('ownerUid', '==', ownerUid),
+    where('storage.sha256', '==', sha256),
+    limit(1)
+  ));
+
+  if (snapshot.empty) return null;
+
+  const video = snapshot.docs[0];
+  return { id: video.id, title: video.data().title || 'Untitled' };
+}
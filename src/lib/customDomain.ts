@@ -0,0 +1,48 @@
+import { User } from 'firebase/auth';
+
+// Hostnames like "portfolio.example.com": at least two labels, no scheme, port or path
+const HOSTNAME_PATTERN = /^(?=.{4,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+/**
+ * Lower-case a domain as typed, dropping a pasted scheme, path or trailing dot
+ */
+export function normalizeCustomDomain(input: string): string {
+  return input
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/\.$/, '');
+}
+
+/**
+ * Whether a normalized domain is a hostname the portfolio can be served from
+ */
+export function isValidCustomDomain(domain: string): boolean {
+  return HOSTNAME_PATTERN.test(domain);
+}
+
+/**
+ * Set or clear the custom domain on the user's profile. The API checks the plan's entitlement.
+ * @param user - The signed-in user
+ * @param domain - The domain, or an empty string to remove it
+ * @returns The domain as saved
+ */
+export async function saveCustomDomain(user: User, domain: string): Promise<string> {
+  const token = await user.getIdToken();
+
+  const response = await fetch('/api/profile/custom-domain', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ domain })
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.message || 'Failed to save custom domain');
+  }
+  return data.customDomain || '';
+}
@@ -0,0 +1,168 @@
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+import { ProbeData, TechMetaDetected, techMetaFromProbe } from './techMeta';
+
+// Single-threaded core (matches @ffmpeg/ffmpeg's default), so no cross-origin isolation headers are needed
+const CORE_BASE_URL = 'https://unpkg.com/@ffmpeg/core@0.12.9/dist/umd';
+
+// Masters larger than this get a proxy suggested on the upload page
+export const PROXY_SUGGESTED_BYTES = 500 * 1024 * 1024; // 500MB
+
+const PROXY_HEIGHT = 720;
+
+let ffmpegPromise: Promise<FFmpeg> | null = null;
+let queue: Promise<unknown> = Promise.resolve();
+let jobCount = 0;
+
+/**
+ * Load ffmpeg.wasm once, on first use. The core (~30MB) is fetched from the CDN.
+ */
+function loadFFmpeg(): Promise<FFmpeg> {
+  if (!ffmpegPromise) {
+    ffmpegPromise = (async () => {
+      const [{ FFmpeg }, { toBlobURL }] = await Promise.all([
+        import('@ffmpeg/ffmpeg'),
+        import('@ffmpeg/util')
+      ]);
+
+      const ffmpeg = new FFmpeg();
+      await ffmpeg.load({
+        coreURL: await toBlobURL(`${CORE_BASE_URL}/ffmpeg-core.js`, 'text/javascript'),
+        wasmURL: await toBlobURL(`${CORE_BASE_URL}/ffmpeg-core.wasm`, 'application/wasm')
+      });
+      return ffmpeg;
+    })().catch((error) => {
+      ffmpegPromise = null;
+      throw error;
+    });
+  }
+  return ffmpegPromise;
+}
+
+/**
+ * Run a job against the shared ffmpeg instance with the file mounted read-only.
+ * Jobs run one at a time; WORKERFS reads the file lazily, so large masters are
+ * never copied into wasm memory.
+ */
+function withMountedFile<T>(file: Blob, run: (ffmpeg: FFmpeg, inputPath: string, workDir: string) => Promise<T>): Promise<T> {
+  const job = queue.then(async () => {
+    const ffmpeg = await loadFFmpeg();
+    const { FFFSType } = await import('@ffmpeg/ffmpeg');
+
+    const id = ++jobCount;
+    const mountPoint = `/input_${id}`;
+    const workDir = `/work_${id}`;
+    const inputName = file instanceof File ? file.name : 'input';
+
+    await ffmpeg.createDir(mountPoint);
+    await ffmpeg.createDir(workDir);
+    await ffmpeg.mount(FFFSType.WORKERFS, { blobs: [{ name: inputName, data: file }] }, mountPoint);
+
+    try {
+      return await run(ffmpeg, `${mountPoint}/${inputName}`, workDir);
+    } finally {
+      try {
+        await ffmpeg.unmount(mountPoint);
+        await ffmpeg.deleteDir(mountPoint);
+        for (const node of await ffmpeg.listDir(workDir)) {
+          if (!node.isDir) await ffmpeg.deleteFile(`${workDir}/${node.name}`);
+        }
+        await ffmpeg.deleteDir(workDir);
+      } catch (cleanupError) {
+        console.warn('Failed to clean up ffmpeg files:', cleanupError);
+      }
+    }
+  });
+
+  // Keep the queue going even if this job fails
+  queue = job.catch(() => undefined);
+  return job;
+}
+
+async function readBlob(ffmpeg: FFmpeg, path: string, type: string): Promise<Blob> {
+  const data = await ffmpeg.readFile(path);
+  return new Blob([data as Uint8Array<ArrayBuffer>], { type });
+}
+
+/**
+ * Read container metadata from a video in the browser with ffprobe
+ * @param file - The local video file
+ * @returns Detected technical metadata, in the same format the Cloud Function writes
+ */
+export function inspectVideoFile(file: Blob): Promise<TechMetaDetected> {
+  return withMountedFile(file, async (ffmpeg, inputPath, workDir) => {
+    const outputPath = `${workDir}/probe.json`;
+    await ffmpeg.ffprobe([
+      '-v', 'error',
+      '-print_format', 'json',
+      '-show_format',
+      '-show_streams',
+      inputPath,
+      '-o', outputPath
+    ]);
+
+    const json = await ffmpeg.readFile(outputPath, 'utf8');
+    return techMetaFromProbe(JSON.parse(json as string) as ProbeData);
+  });
+}
+
+/**
+ * Grab a single frame as a JPEG for an instant poster preview
+ * @param file - The local video file
+ * @param timestamp - Time of the frame in seconds
+ * @returns JPEG image, 1280px wide at most
+ */
+export function captureLocalPoster(file: Blob, timestamp: number): Promise<Blob> {
+  return withMountedFile(file, async (ffmpeg, inputPath, workDir) => {
+    const outputPath = `${workDir}/poster.jpg`;
+    await ffmpeg.exec([
+      '-ss', timestamp.toFixed(2),
+      '-i', inputPath,
+      '-frames:v', '1',
+      '-vf', "scale='min(1280,iw)':-2",
+      '-q:v', '3',
+      outputPath
+    ]);
+
+    return readBlob(ffmpeg, outputPath, 'image/jpeg');
+  });
+}
+
+/**
+ * Encode a lightweight 720p H.264/AAC proxy of a large master
+ * @param file - The local video file
+ * @param onProgress - Called with encoding progress from 0 to 1
+ * @returns The proxy as an MP4 file named after the original
+ */
+export function createProxy(file: File, onProgress?: (progress: number) => void): Promise<File> {
+  return withMountedFile(file, async (ffmpeg, inputPath, workDir) => {
+    const outputPath = `${workDir}/proxy.mp4`;
+    const handleProgress = ({ progress }: { progress: number }) => {
+      onProgress?.(Math.min(1, Math.max(0, progress)));
+    };
+
+    ffmpeg.on('progress', handleProgress);
+    try {
+      const exitCode = await ffmpeg.exec([
+        '-i', inputPath,
+        '-vf', `scale=-2:'min(${PROXY_HEIGHT},ih)'`,
+        '-c:v', 'libx264',
+        '-preset', 'veryfast',
+        '-crf', '26',
+        '-pix_fmt', 'yuv420p',
+        '-c:a', 'aac',
+        '-b:a', '128k',
+        '-movflags', '+faststart',
+        outputPath
+      ]);
+      if (exitCode !== 0) {
+        throw new Error('Proxy encoding failed');
+      }
+    } finally {
+      ffmpeg.off('progress', handleProgress);
+    }
+
+    const baseName = file.name.includes('.') ? file.name.slice(0, file.name.lastIndexOf('.')) : file.name;
+    const blob = await readBlob(ffmpeg, outputPath, 'video/mp4');
+    return new File([blob], `${baseName}_proxy.mp4`, { type: 'video/mp4', lastModified: Date.now() });
+  });
+}
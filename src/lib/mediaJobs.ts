@@ -0,0 +1,129 @@
+import { httpsCallable } from 'firebase/functions';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { db, functions } from './firebase';
+
+export type MediaJobType = 'thumbnail' | 'candidates' | 'probe' | 'sprite';
+
+export type MediaJobStatus = 'queued' | 'running' | 'retrying' | 'succeeded' | 'dead';
+
+export interface MediaJob {
+  id: string;
+  type: MediaJobType | 'transcode';
+  videoId: string;
+  status: MediaJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  result?: Record<string, unknown>;
+  lastError?: string;
+}
+
+interface EnqueueMediaJobRequest {
+  type: MediaJobType;
+  videoId: string;
+  idempotencyKey: string;
+  params?: Record<string, unknown>;
+}
+
+interface EnqueueMediaJobResponse {
+  jobId: string;
+  queued: boolean;
+}
+
+/**
+ * Queue a media processing job for one of the user's videos. Sending the same
+ * idempotency key again returns the existing job instead of running it twice.
+ * @param request - Job type, video, idempotency key and job parameters
+ * @returns Promise resolving to the job ID
+ */
+export async function enqueueMediaJob(request: EnqueueMediaJobRequest): Promise<EnqueueMediaJobResponse> {
+  const enqueue = httpsCallable<EnqueueMediaJobRequest, EnqueueMediaJobResponse>(
+    functions,
+    'enqueueMediaJob'
+  );
+
+  const result = await enqueue(request);
+  return result.data;
+}
+
+/**
+ * Listen to a media job's progress
+ * @param jobId - The job ID returned by enqueueMediaJob
+ * @param callback - Called with the job on every change
+ * @returns Unsubscribe function
+ */
+export function subscribeToMediaJob(jobId: string, callback: (job: MediaJob) => void): () => void {
+  return onSnapshot(doc(db, 'mediaJobs', jobId), (snapshot) => {
+    if (snapshot.exists()) {
+      callback({ id: snapshot.id, ...snapshot.data() } as MediaJob);
+    }
+  });
+}
+
+/**
+ * Wait until a media job succeeds or is dead-lettered
+ * @param jobId - The job ID returned by enqueueMediaJob
+ * @param onStatusChange - Optional callback for intermediate statuses
+ * @returns Promise resolving to the finished job
+ */
+export function waitForMediaJob(jobId: string, onStatusChange?: (job: MediaJob) => void): Promise<MediaJob> {
+  return new Promise((resolve, reject) => {
+    let unsubscribe: (() => void) | null = null;
+    let finished = false;
+
+    const stop = () => {
+      finished = true;
+      unsubscribe?.();
+    };
+
+    unsubscribe = onSnapshot(
+      doc(db, 'mediaJobs', jobId),
+      (snapshot) => {
+        if (!snapshot.exists() || finished) return;
+        const job = { id: snapshot.id, ...snapshot.data() } as MediaJob;
+        onStatusChange?.(job);
+
+        if (job.status === 'succeeded' || job.status === 'dead') {
+          stop();
+          resolve(job);
+        }
+      },
+      (error) => {
+        stop();
+        reject(error);
+      }
+    );
+
+    // The listener can fire synchronously from cache before `unsubscribe` is assigned
+    if (finished) unsubscribe();
+  });
+}
+
+/**
+ * Human-readable label for a job status
+ * @param job - The job to describe
+ */
+export function describeMediaJob(job: MediaJob): string {
+  switch (job.status) {
+    case 'queued':
+      return job.attempts > 0 ? `Queued for retry (attempt ${job.attempts + 1} of ${job.maxAttempts})` : 'Queued';
+    case 'running':
+      return job.attempts > 1 ? `Processing (attempt ${job.attempts} of ${job.maxAttempts})` : 'Processing';
+    case 'retrying':
+      return `Failed, retrying shortly${job.lastError ? `: ${job.lastError}` : ''}`;
+    case 'succeeded':
+      return 'Done';
+    case 'dead':
+      return `Failed${job.lastError ? `: ${job.lastError}` : ''}`;
+  }
+}
+
+/**
+ * Fresh idempotency key for a user action. Callers that retry the same action
+ * should reuse the key so the job is not queued twice.
+ */
+export function createIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
@@ -0,0 +1,134 @@
+import { httpsCallable } from 'firebase/functions';
+import { User } from 'firebase/auth';
+import { collection, deleteField, doc, getDoc, onSnapshot, orderBy, query, updateDoc } from 'firebase/firestore';
+import { db, functions } from './firebase';
+import { TechMetaDetected } from './techMeta';
+import { videoContentType } from './uploads';
+import { startMediaReplacement } from './videoApi';
+
+export interface MediaStorage {
+  path: string;
+  sizeBytes: number;
+  sha256?: string;
+  fileName?: string;
+  isProxy?: boolean;
+  originalFileName?: string;
+  originalSizeBytes?: number;
+}
+
+// New media for an existing video, stored on the video until Cloud Functions swap it in
+export interface MediaReplacement {
+  versionId: string;
+  storage: MediaStorage;
+  status: 'uploading' | 'processing' | 'failed';
+  failureReason?: string;
+  startedAt?: any;
+}
+
+// The media fields of a video, kept live
+export interface VideoMedia {
+  storage?: MediaStorage;
+  replacement?: MediaReplacement;
+  currentVersionId?: string;
+}
+
+export interface MediaVersion {
+  id: string;
+  status: 'active' | 'archived';
+  storage: MediaStorage;
+  techMetaDetected?: TechMetaDetected;
+  createdAt?: any;
+  activatedAt?: any;
+  archivedAt?: any;
+}
+
+interface RollbackRequest {
+  videoId: string;
+  versionId: string;
+}
+
+/**
+ * Start replacing a video's media. The server checks the new file against the
+ * owner's plan; the video keeps its current media until the new upload has been processed.
+ * @param user - The video's owner (the current user)
+ * @param videoId - The video to replace the media of
+ * @param file - The file to upload: the new master, or a proxy of it
+ * @param details - The hash of the file the owner picked, and that file when a proxy is uploaded instead
+ * @returns The upload path to pass to the upload manager
+ */
+export async function beginMediaReplacement(
+  user: User,
+  videoId: string,
+  file: File,
+  details: { sha256?: string; originalFile?: File } = {}
+): Promise<{ versionId: string; storagePath: string }> {
+  return startMediaReplacement(user, videoId, {
+    filename: file.name,
+    sizeBytes: file.size,
+    contentType: videoContentType(file) || 'video/mp4',
+    ...(details.sha256 ? { sha256: details.sha256 } : {}),
+    ...(details.originalFile
+      ? { originalFileName: details.originalFile.name, originalSizeBytes: details.originalFile.size }
+      : {})
+  });
+}
+
+/**
+ * Drop a video's pending replacement. Processing that is already running
+ * finishes but never goes live.
+ * @param videoId - The video document ID
+ * @param storagePath - Only clear the replacement if it is still this upload
+ */
+export async function clearMediaReplacement(videoId: string, storagePath?: string): Promise<void> {
+  const videoRef = doc(db, 'videos', videoId);
+
+  if (storagePath) {
+    const videoDoc = await getDoc(videoRef);
+    if (videoDoc.data()?.replacement?.storage?.path !== storagePath) return;
+  }
+
+  await updateDoc(videoRef, { replacement: deleteField() });
+}
+
+/**
+ * Listen to a video's live media and pending replacement
+ * @returns Unsubscribe function
+ */
+export function subscribeToVideoMedia(videoId: string, callback: (media: VideoMedia) => void): () => void {
+  return onSnapshot(doc(db, 'videos', videoId), (snapshot) => {
+    const data = snapshot.data();
+    callback({
+      storage: data?.storage,
+      replacement: data?.replacement,
+      currentVersionId: data?.currentVersionId
+    });
+  });
+}
+
+/**
+ * Listen to a video's media versions, newest first. There are none until the
+ * media is replaced for the first time.
+ * @returns Unsubscribe function
+ */
+export function subscribeToMediaVersions(videoId: string, callback: (versions: MediaVersion[]) => void): () => void {
+  return onSnapshot(
+    query(collection(db, 'videos', videoId, 'versions'), orderBy('createdAt', 'desc')),
+    (snapshot) => {
+      callback(snapshot.docs.map((versionDoc) => ({ id: versionDoc.id, ...versionDoc.data() } as MediaVersion)));
+    }
+  );
+}
+
+/**
+ * Make an archived version the video's live media again
+ * @param videoId - The video document ID
+ * @param versionId - The version to restore
+ */
+export async function rollbackMediaVersion(videoId: string, versionId: string): Promise<void> {
+  const rollback = httpsCallable<RollbackRequest, { success: boolean }>(
+    functions,
+    'rollbackMediaVersion'
+  );
+
+  await rollback({ videoId, versionId });
+}
@@ -0,0 +1,127 @@
+// Subscription plans and what each one unlocks. Shared by pages, API routes and
+// the upload quota checks; Stripe price IDs are mapped server-side in server/billing.ts.
+
+export type PlanId = 'free' | 'pro' | 'studio';
+
+export interface PlanEntitlements {
+  // Embed unlisted and private videos, not just public ones
+  privateEmbeds: boolean;
+  // Serve the portfolio from the owner's own domain
+  customDomain: boolean;
+  // How many videos can be unlisted or private at once
+  privateVideos: number;
+  // How far back video analytics go
+  analyticsRetentionDays: number;
+  storageGb: number;
+  maxUploadGb: number;
+  // Estimated playback bandwidth per calendar month. Not enforced; shown on the usage meters.
+  egressGbPerMonth: number;
+}
+
+// Entitlements that are simply on or off
+export type FeatureEntitlement = {
+  [K in keyof PlanEntitlements]: PlanEntitlements[K] extends boolean ? K : never
+}[keyof PlanEntitlements];
+
+export interface Plan {
+  id: PlanId;
+  name: string;
+  priceMonthly: number; // USD
+  description: string;
+  highlights: string[];
+  entitlements: PlanEntitlements;
+}
+
+export const PLANS: Record<PlanId, Plan> = {
+  free: {
+    id: 'free',
+    name: 'Free',
+    priceMonthly: 0,
+    description: 'Try Folio with a few projects',
+    highlights: ['5 GB of storage', '3 private or unlisted videos', 'Public embeds', '30 days of analytics'],
+    entitlements: {
+      privateEmbeds: false,
+      customDomain: false,
+      privateVideos: 3,
+      analyticsRetentionDays: 30,
+      storageGb: 5,
+      maxUploadGb: 1,
+      egressGbPerMonth: 50
+    }
+  },
+  pro: {
+    id: 'pro',
+    name: 'Pro',
+    priceMonthly: 50,
+    description: 'For working professionals',
+    highlights: ['500 GB of storage', 'Private and unlisted embeds', '1 year of analytics', '4K streaming quality', 'Priority support'],
+    entitlements: {
+      privateEmbeds: true,
+      customDomain: false,
+      privateVideos: 1000,
+      analyticsRetentionDays: 365,
+      storageGb: 500,
+      maxUploadGb: 2,
+      egressGbPerMonth: 2000
+    }
+  },
+  studio: {
+    id: 'studio',
+    name: 'Studio',
+    priceMonthly: 150,
+    description: 'For production companies and teams',
+    highlights: ['2 TB of storage', '10 GB uploads', 'Private and unlisted embeds', 'Custom domain', 'Unlimited analytics history', 'Priority support'],
+    entitlements: {
+      privateEmbeds: true,
+      customDomain: true,
+      privateVideos: 10000,
+      analyticsRetentionDays: 3650,
+      storageGb: 2000,
+      maxUploadGb: 10,
+      egressGbPerMonth: 10000
+    }
+  }
+};
+
+export const PLAN_IDS = Object.keys(PLANS) as PlanId[];
+
+// Stripe subscription statuses that keep a paid plan's entitlements
+const PAID_STATUSES = ['active', 'trialing'];
+
+// How long a subscription whose renewal payment failed keeps its plan while Stripe retries
+export const PAYMENT_GRACE_PERIOD_DAYS = 7;
+
+export const isPlanId = (value: unknown): value is PlanId =>
+  typeof value === 'string' && PLAN_IDS.includes(value as PlanId);
+
+/**
+ * The plan whose entitlements apply, from the billing fields the Stripe webhook
+ * stores on `users/{uid}`. Subscribers from before plan tiers have no `planId` and are on Pro.
+ * A past-due subscription keeps its plan until `graceUntil`.
+ */
+export function resolvePlanId(billing: {
+  planId?: string;
+  subscriptionStatus?: string;
+  graceUntil?: { toMillis(): number } | null;
+} | undefined): PlanId {
+  const status = billing?.subscriptionStatus;
+  const inGracePeriod = status === 'past_due' && !!billing?.graceUntil && billing.graceUntil.toMillis() > Date.now();
+  if (!status || (!PAID_STATUSES.includes(status) && !inGracePeriod)) return 'free';
+  return isPlanId(billing?.planId) ? billing.planId : 'pro';
+}
+
+/**
+ * Whether a plan includes an on/off feature
+ */
+export function hasEntitlement(planId: PlanId, entitlement: FeatureEntitlement): boolean {
+  return PLANS[planId].entitlements[entitlement];
+}
+
+/**
+ * The cheapest plan that includes a feature, for upgrade prompts
+ */
+export function planWithEntitlement(entitlement: FeatureEntitlement): Plan {
+  return PLAN_IDS.map(id => PLANS[id]).find(plan => plan.entitlements[entitlement]) || PLANS.studio;
+}
+
+export const GB = 1024 * 1024 * 1024;
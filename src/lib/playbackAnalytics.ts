@@ -0,0 +1,260 @@
+// Playback sessions: each time a viewer starts playing a video, the player reports
+// what was actually played as ranges of the video timeline, plus pause and seek events.
+// Reports are batched into heartbeats sent to /api/analytics/events; the last batch
+// goes out with sendBeacon when the page is hidden or closed.
+
+export type ViewSource = 'direct' | 'profile' | 'discover' | 'embed';
+
+export const VIEW_SOURCES: ViewSource[] = ['direct', 'profile', 'discover', 'embed'];
+
+// [start, end] in seconds of the video timeline
+export type PlayedRange = [number, number];
+
+export type PlaybackEventType = 'play' | 'pause' | 'seek' | 'ended';
+
+export const PLAYBACK_EVENT_TYPES: PlaybackEventType[] = ['play', 'pause', 'seek', 'ended'];
+
+export interface PlaybackEvent {
+  type: PlaybackEventType;
+  // Position in the video, in seconds
+  position: number;
+  // Where a seek started
+  from?: number;
+  // Client time, ms since the epoch
+  at: number;
+}
+
+// One heartbeat. `seq` increases with every batch of a session so repeats can be ignored.
+export interface PlaybackBatch {
+  sessionId: string;
+  videoId: string;
+  viewerId: string;
+  source: ViewSource;
+  seq: number;
+  durationSec?: number;
+  ranges: PlayedRange[];
+  events: PlaybackEvent[];
+  // Lets the API attribute the session to a signed-in viewer
+  idToken?: string;
+}
+
+export const PLAYBACK_EVENTS_URL = '/api/analytics/events';
+
+const HEARTBEAT_INTERVAL_MS = 10 * 1000;
+
+// timeupdate fires every 250ms or so while playing; a bigger jump is a seek
+const MAX_CONTINUOUS_GAP_SEC = 1.5;
+
+// Ranges shorter than this are rounding noise
+const MIN_RANGE_SEC = 0.05;
+
+const VIEWER_ID_KEY = 'folio.viewerId';
+
+/**
+ * Union of played ranges, sorted, for what was played at least once
+ */
+export function mergeRanges(ranges: PlayedRange[]): PlayedRange[] {
+  const sorted = ranges
+    .filter(([start, end]) => end > start)
+    .sort((a, b) => a[0] - b[0]);
+
+  const merged: PlayedRange[] = [];
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Total seconds covered by ranges, counting overlaps as often as they occur
+ */
+export function rangesDuration(ranges: PlayedRange[]): number {
+  return ranges.reduce((total, [start, end]) => total + Math.max(0, end - start), 0);
+}
+
+/**
+ * Where a viewer came from, from the page's referrer
+ */
+export function detectViewSource(referrer: string): ViewSource {
+  if (referrer.includes('/profile/')) return 'profile';
+  if (referrer.includes('/discover')) return 'discover';
+  if (referrer.includes('/embed/')) return 'embed';
+  return 'direct';
+}
+
+function randomId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID().replace(/-/g, '')
+    : Math.random().toString(36).slice(2) + Date.now().toString(36);
+}
+
+// Anonymous ID kept in this browser, so repeat views count as one unique viewer
+function getViewerId(): string {
+  try {
+    let viewerId = localStorage.getItem(VIEWER_ID_KEY);
+    if (!viewerId) {
+      viewerId = randomId();
+      localStorage.setItem(VIEWER_ID_KEY, viewerId);
+    }
+    return viewerId;
+  } catch {
+    // Storage can be blocked in third-party iframes (embeds)
+    return randomId();
+  }
+}
+
+function sendBatch(batch: PlaybackBatch, useBeacon: boolean): void {
+  const body = JSON.stringify(batch);
+
+  if (useBeacon && typeof navigator !== 'undefined' && navigator.sendBeacon) {
+    const queued = navigator.sendBeacon(PLAYBACK_EVENTS_URL, new Blob([body], { type: 'application/json' }));
+    if (queued) return;
+  }
+
+  fetch(PLAYBACK_EVENTS_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body,
+    keepalive: true
+  }).catch((error) => {
+    console.warn('Failed to send playback events:', error);
+  });
+}
+
+/**
+ * Report playback of a video element as a session. The session starts at the first
+ * play, so loading the page without playing doesn't count as a view.
+ * @param video - The player's video element
+ * @param options - The video being played, where the viewer came from and, for
+ *   signed-in viewers, how to get their ID token
+ * @returns Stop function; sends whatever is left
+ */
+export function trackPlayback(
+  video: HTMLVideoElement,
+  options: { videoId: string; source: ViewSource; getIdToken?: () => Promise<string> | undefined }
+): () => void {
+  const sessionId = randomId();
+  const viewerId = getViewerId();
+  let started = false;
+  let seq = 0;
+  let idToken: string | undefined;
+
+  let ranges: PlayedRange[] = [];
+  let events: PlaybackEvent[] = [];
+  // Start of the range being played, or null while paused
+  let segmentStart: number | null = null;
+  let lastPosition = 0;
+
+  const closeSegment = (end: number) => {
+    if (segmentStart !== null && end - segmentStart >= MIN_RANGE_SEC) {
+      ranges.push([segmentStart, end]);
+    }
+    segmentStart = null;
+  };
+
+  const record = (type: PlaybackEventType, extra: Partial<PlaybackEvent> = {}) => {
+    events.push({ type, position: video.currentTime, at: Date.now(), ...extra });
+  };
+
+  const flush = (useBeacon = false) => {
+    if (!started) return;
+
+    // Cut the range being played so it is reported now, and carry on from there
+    if (segmentStart !== null) {
+      const resumeAt = lastPosition;
+      closeSegment(lastPosition);
+      segmentStart = resumeAt;
+    }
+    if (!ranges.length && !events.length) return;
+
+    sendBatch({
+      sessionId,
+      videoId: options.videoId,
+      viewerId,
+      source: options.source,
+      seq: seq++,
+      durationSec: Number.isFinite(video.duration) ? video.duration : undefined,
+      ranges,
+      events,
+      idToken
+    }, useBeacon);
+    ranges = [];
+    events = [];
+  };
+
+  const handlePlay = () => {
+    if (!started) {
+      started = true;
+      options.getIdToken?.()?.then((token) => { idToken = token; }).catch(() => {});
+    }
+    segmentStart = video.currentTime;
+    lastPosition = video.currentTime;
+    record('play');
+  };
+
+  const handleTimeUpdate = () => {
+    const position = video.currentTime;
+    if (segmentStart !== null && (position < lastPosition || position - lastPosition > MAX_CONTINUOUS_GAP_SEC)) {
+      // A jump the seeking event didn't report
+      closeSegment(lastPosition);
+      segmentStart = position;
+    }
+    lastPosition = position;
+  };
+
+  const handleSeeking = () => {
+    if (!started) return;
+    const playing = segmentStart !== null;
+    closeSegment(lastPosition);
+    record('seek', { from: lastPosition });
+    lastPosition = video.currentTime;
+    if (playing) segmentStart = video.currentTime;
+  };
+
+  const handlePause = () => {
+    if (video.ended) return; // Reported as ended
+    closeSegment(video.currentTime);
+    lastPosition = video.currentTime;
+    record('pause');
+  };
+
+  const handleEnded = () => {
+    closeSegment(Number.isFinite(video.duration) ? video.duration : video.currentTime);
+    record('ended');
+    flush();
+  };
+
+  const handleHidden = () => {
+    if (document.visibilityState === 'hidden') flush(true);
+  };
+  const handlePageHide = () => flush(true);
+
+  const heartbeat = window.setInterval(() => {
+    if (segmentStart !== null || events.length) flush();
+  }, HEARTBEAT_INTERVAL_MS);
+
+  video.addEventListener('play', handlePlay);
+  video.addEventListener('timeupdate', handleTimeUpdate);
+  video.addEventListener('seeking', handleSeeking);
+  video.addEventListener('pause', handlePause);
+  video.addEventListener('ended', handleEnded);
+  document.addEventListener('visibilitychange', handleHidden);
+  window.addEventListener('pagehide', handlePageHide);
+
+  return () => {
+    window.clearInterval(heartbeat);
+    video.removeEventListener('play', handlePlay);
+    video.removeEventListener('timeupdate', handleTimeUpdate);
+    video.removeEventListener('seeking', handleSeeking);
+    video.removeEventListener('pause', handlePause);
+    video.removeEventListener('ended', handleEnded);
+    document.removeEventListener('visibilitychange', handleHidden);
+    window.removeEventListener('pagehide', handlePageHide);
+    flush(true);
+  };
+}
@@ -0,0 +1,43 @@
+export type PosterFormat = 'avif' | 'webp' | 'jpeg';
+
+// Poster derivatives written by the Cloud Function: URLs keyed by format, then by width
+export interface PosterSet {
+  sourceUrl: string;
+  widths: number[];
+  avif: Record<string, string>;
+  webp: Record<string, string>;
+  jpeg: Record<string, string>;
+}
+
+interface PosterFields {
+  posters?: PosterSet;
+  playback?: { posterUrl?: string };
+}
+
+/**
+ * Build a `srcset` attribute for one format of a poster set
+ * @param posters - The video's poster derivatives
+ * @param format - Image format to list
+ * @returns e.g. "https://.../320.webp 320w, https://.../640.webp 640w"
+ */
+export function getPosterSrcSet(posters: PosterSet, format: PosterFormat): string {
+  return posters.widths
+    .filter(width => posters[format]?.[String(width)])
+    .map(width => `${posters[format][String(width)]} ${width}w`)
+    .join(', ');
+}
+
+/**
+ * Pick the JPEG derivative closest to (but not below) a target width, for places
+ * that take a single URL such as Open Graph tags
+ * @param video - Video with posters and playback.posterUrl
+ * @param targetWidth - Desired width in pixels
+ * @returns The derivative URL, falling back to the original poster
+ */
+export function getPosterUrl(video: PosterFields, targetWidth: number): string | undefined {
+  const posters = video.posters;
+  if (!posters || posters.widths.length === 0) return video.playback?.posterUrl;
+
+  const width = posters.widths.find(w => w >= targetWidth) ?? posters.widths[posters.widths.length - 1];
+  return posters.jpeg[String(width)] || video.playback?.posterUrl;
+}
@@ -0,0 +1,74 @@
+import { PlayedRange, mergeRanges } from './playbackAnalytics';
+
+// One slice of the video timeline on the retention chart
+export interface RetentionBucket {
+  start: number;
+  end: number;
+  // Share of sessions that played this part at least once (0-1)
+  retention: number;
+  // Times this part was played per session, rewatches included; above `retention` means rewatched
+  plays: number;
+}
+
+// A point where a noticeable share of viewers stopped watching
+export interface RetentionDropOff {
+  time: number;
+  // Fall in retention, in share of sessions (0-1)
+  drop: number;
+}
+
+// Buckets on the chart; short videos get one per second
+const MAX_BUCKETS = 100;
+// Drop-offs smaller than this share of sessions are ordinary wear-off, not worth marking
+const MIN_DROP_OFF = 0.05;
+
+/**
+ * Seconds of a bucket covered by a set of ranges
+ */
+function coverage(ranges: PlayedRange[], start: number, end: number): number {
+  return ranges.reduce((total, [rangeStart, rangeEnd]) =>
+    total + Math.max(0, Math.min(end, rangeEnd) - Math.max(start, rangeStart)), 0);
+}
+
+/**
+ * Aggregate the played ranges of playback sessions into retention over the video timeline
+ * @param sessions - Played ranges of each session; sessions that played nothing are skipped
+ * @param durationSec - The video's duration
+ * @returns Buckets covering the whole video, or none without a duration or sessions
+ */
+export function computeRetention(sessions: PlayedRange[][], durationSec: number): RetentionBucket[] {
+  const played = sessions.filter((ranges) => ranges.length > 0);
+  if (!durationSec || !played.length) return [];
+
+  const bucketCount = Math.min(MAX_BUCKETS, Math.max(1, Math.ceil(durationSec)));
+  const bucketSec = durationSec / bucketCount;
+  const merged = played.map(mergeRanges);
+
+  return Array.from({ length: bucketCount }, (_, index) => {
+    const start = index * bucketSec;
+    const end = start + bucketSec;
+    const unique = merged.reduce((total, ranges) => total + coverage(ranges, start, end), 0);
+    const total = played.reduce((sum, ranges) => sum + coverage(ranges, start, end), 0);
+
+    return {
+      start,
+      end,
+      retention: Math.min(1, unique / bucketSec / played.length),
+      plays: total / bucketSec / played.length
+    };
+  });
+}
+
+/**
+ * The steepest falls in retention, largest first
+ * @param buckets - Output of computeRetention
+ * @param limit - How many to return
+ */
+export function findDropOffs(buckets: RetentionBucket[], limit = 3): RetentionDropOff[] {
+  return buckets
+    .slice(1)
+    .map((bucket, index) => ({ time: bucket.start, drop: buckets[index].retention - bucket.retention }))
+    .filter((dropOff) => dropOff.drop >= MIN_DROP_OFF)
+    .sort((a, b) => b.drop - a.drop)
+    .slice(0, limit);
+}
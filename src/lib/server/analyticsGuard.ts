@@ -0,0 +1,84 @@
+import crypto from 'crypto';
+import type { NextApiRequest } from 'next';
+import { Timestamp } from 'firebase-admin/firestore';
+import { adminDb } from './firebaseAdmin';
+
+// Fixed-window request counters for the analytics routes, keyed by hashed IP or session
+export const RATE_LIMITS_COLLECTION = 'analyticsRateLimits';
+
+export interface RateLimit {
+  // Hashed identifier, e.g. from hashIdentifier('ip', address)
+  key: string;
+  // Requests allowed per window
+  limit: number;
+}
+
+// Crawlers, link unfurlers, headless browsers and HTTP libraries. Matched case-insensitively.
+const BOT_USER_AGENT = new RegExp([
+  'bot', 'crawl', 'spider', 'slurp', 'archiver', 'facebookexternalhit', 'embedly', 'quora link preview',
+  'whatsapp', 'telegram', 'skypeuripreview', 'vkshare', 'pinterest', 'bitlybot', 'outbrain',
+  'headlesschrome', 'phantomjs', 'puppeteer', 'playwright', 'selenium', 'lighthouse', 'pagespeed',
+  'gtmetrix', 'pingdom', 'uptimerobot', 'statuscake', 'curl', 'wget', 'python-requests', 'python-urllib',
+  'aiohttp', 'httpclient', 'okhttp', 'go-http-client', 'java/', 'libwww', 'node-fetch', 'axios', 'postman'
+].join('|'), 'i');
+
+/**
+ * Whether a request comes from a known bot or crawler rather than a person's browser.
+ * Requests without a user agent are treated as bots.
+ */
+export function isBotUserAgent(userAgent: string | undefined): boolean {
+  return !userAgent || BOT_USER_AGENT.test(userAgent);
+}
+
+/**
+ * The caller's IP address, from the proxy headers Vercel sets
+ */
+export function getClientIp(req: NextApiRequest): string {
+  const forwardedFor = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor)?.split(',')[0].trim();
+  const realIp = req.headers['x-real-ip'];
+  return first || (Array.isArray(realIp) ? realIp[0] : realIp) || req.socket.remoteAddress || 'unknown';
+}
+
+function analyticsHashSecret(): string {
+  const secret = process.env.ANALYTICS_HASH_SECRET;
+  if (!secret) throw new Error('ANALYTICS_HASH_SECRET is not set');
+  return secret;
+}
+
+/**
+ * Keyed hash of an identifier such as an IP address, so raw addresses are never stored
+ * @param kind - What the identifier is, keeping hashes of different kinds apart
+ * @param value - The identifier
+ */
+export function hashIdentifier(kind: string, value: string): string {
+  return crypto.createHmac('sha256', analyticsHashSecret()).update(`${kind}:${value}`).digest('hex').slice(0, 40);
+}
+
+/**
+ * Count a request against each limit, in one transaction. A request that is over any
+ * limit is not counted against the others.
+ * @param limits - The limits that apply to the request
+ * @param windowMs - Length of the window the limits are per
+ * @returns false if any limit has been reached in the current window
+ */
+export async function consumeRateLimits(limits: RateLimit[], windowMs: number): Promise<boolean> {
+  const refs = limits.map(({ key }) => adminDb.collection(RATE_LIMITS_COLLECTION).doc(key));
+  const windowStart = Math.floor(Date.now() / windowMs) * windowMs;
+
+  return adminDb.runTransaction(async (transaction) => {
+    const docs = await transaction.getAll(...refs);
+    const counts = docs.map((doc) => doc.data()?.windowStart === windowStart ? Number(doc.data()?.count) || 0 : 0);
+    if (counts.some((count, index) => count >= limits[index].limit)) return false;
+
+    refs.forEach((ref, index) => {
+      transaction.set(ref, {
+        windowStart,
+        count: counts[index] + 1,
+        // TTL field; counters are only needed for the current window
+        expiresAt: Timestamp.fromMillis(windowStart + windowMs * 2)
+      });
+    });
+    return true;
+  });
+}
@@ -0,0 +1,159 @@
+import Stripe from 'stripe';
+import { PLANS, PlanEntitlements, PlanId, isPlanId, resolvePlanId } from '../plans';
+import { adminAuth, adminDb } from './firebaseAdmin';
+
+export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2024-06-20',
+});
+
+// Paid plans and the env vars holding their monthly Stripe price IDs.
+// STRIPE_PRICE_ID is the single price used before there were tiers.
+const PRICE_ENV: Partial<Record<PlanId, string | undefined>> = {
+  pro: process.env.STRIPE_PRICE_ID_PRO || process.env.STRIPE_PRICE_ID,
+  studio: process.env.STRIPE_PRICE_ID_STUDIO,
+};
+
+/**
+ * The Stripe price to check out for a plan, or undefined for the free plan or a
+ * plan without a configured price
+ */
+export function stripePriceIdForPlan(planId: PlanId): string | undefined {
+  return PRICE_ENV[planId];
+}
+
+/**
+ * The plan a Stripe price belongs to
+ */
+export function planIdForStripePrice(priceId: string | undefined): PlanId | undefined {
+  if (!priceId) return undefined;
+  return (Object.keys(PRICE_ENV) as PlanId[]).find((planId) => PRICE_ENV[planId] === priceId);
+}
+
+/**
+ * The plan a user is on, from the billing fields the Stripe webhook stores
+ */
+export async function getUserPlanId(uid: string): Promise<PlanId> {
+  const userDoc = await adminDb.collection('users').doc(uid).get();
+  return resolvePlanId(userDoc.data());
+}
+
+// Custom claims read by the Firestore and Storage rules. `planExpiresAt` (ms) is set
+// while a past-due subscription is in its grace period; the rules treat the plan as Free after it.
+export interface PlanClaims {
+  plan: PlanId;
+  planExpiresAt?: number;
+  entitlements: PlanEntitlements;
+}
+
+/**
+ * Mirror a user's plan into their custom claims, keeping any other claims. Writes
+ * `claimsUpdatedAt` to the user document so the client knows to refresh its ID token.
+ * @param uid - The user whose billing fields changed
+ * @returns The claims set, or null if the user has no Auth account
+ */
+export async function syncPlanClaims(uid: string): Promise<PlanClaims | null> {
+  const userRef = adminDb.collection('users').doc(uid);
+  const billing = (await userRef.get()).data();
+  const planId = resolvePlanId(billing);
+
+  let customClaims: Record<string, unknown> | undefined;
+  try {
+    customClaims = (await adminAuth.getUser(uid)).customClaims;
+  } catch (error: any) {
+    if (error?.code === 'auth/user-not-found') return null;
+    throw error;
+  }
+
+  const planClaims: PlanClaims = {
+    plan: planId,
+    entitlements: PLANS[planId].entitlements,
+  };
+  if (planId !== 'free' && billing?.subscriptionStatus === 'past_due' && billing.graceUntil) {
+    planClaims.planExpiresAt = billing.graceUntil.toMillis();
+  }
+
+  const otherClaims = { ...customClaims };
+  delete otherClaims.planExpiresAt;
+  await adminAuth.setCustomUserClaims(uid, { ...otherClaims, ...planClaims });
+  await userRef.update({ claimsUpdatedAt: new Date() });
+
+  return planClaims;
+}
+
+// The card summary shown on the billing page, `users/{uid}.paymentMethod`
+export interface PaymentMethodSummary {
+  brand: string;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+}
+
+/**
+ * Card details safe to store and show, from a payment method or its ID
+ */
+export async function summarizePaymentMethod(
+  paymentMethod: string | Stripe.PaymentMethod | null | undefined
+): Promise<PaymentMethodSummary | null> {
+  if (!paymentMethod) return null;
+  const method = typeof paymentMethod === 'string'
+    ? await stripe.paymentMethods.retrieve(paymentMethod)
+    : paymentMethod;
+  if (!method.card) return null;
+
+  return {
+    brand: method.card.brand,
+    last4: method.card.last4,
+    expMonth: method.card.exp_month,
+    expYear: method.card.exp_year,
+  };
+}
+
+/**
+ * The customer's default card, used when a subscription has no payment method of its own
+ */
+export async function getCustomerPaymentMethod(customerId: string): Promise<PaymentMethodSummary | null> {
+  const customer = await stripe.customers.retrieve(customerId);
+  if (customer.deleted) return null;
+  return summarizePaymentMethod(customer.invoice_settings?.default_payment_method);
+}
+
+/**
+ * Billing fields mirrored onto `users/{uid}` for a subscription. The plan is only
+ * included when it can be told from the price or the checkout metadata.
+ */
+export async function subscriptionBillingFields(subscription: Stripe.Subscription) {
+  const planId = planIdForStripePrice(subscription.items.data[0]?.price.id) ||
+    (isPlanId(subscription.metadata?.planId) ? subscription.metadata.planId : undefined);
+  const paymentMethod = subscription.default_payment_method
+    ? await summarizePaymentMethod(subscription.default_payment_method)
+    : await getCustomerPaymentMethod(subscription.customer as string);
+
+  return {
+    subscriptionStatus: subscription.status,
+    subscriptionId: subscription.id,
+    ...(planId && { planId }),
+    currentPeriodEnd: new Date(subscription.current_period_end * 1000),
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    trialEnd: subscription.trial_end ? new Date(subscription.trial_end * 1000) : null,
+    paymentMethod,
+  };
+}
+
+/**
+ * An invoice as stored in `users/{uid}/invoices/{invoiceId}`
+ */
+export function invoiceRecord(invoice: Stripe.Invoice) {
+  return {
+    number: invoice.number || null,
+    status: invoice.status,
+    amountDue: invoice.amount_due,
+    amountPaid: invoice.amount_paid,
+    currency: invoice.currency,
+    created: new Date(invoice.created * 1000),
+    periodStart: new Date(invoice.period_start * 1000),
+    periodEnd: new Date(invoice.period_end * 1000),
+    hostedInvoiceUrl: invoice.hosted_invoice_url || null,
+    invoicePdf: invoice.invoice_pdf || null,
+    updatedAt: new Date(),
+  };
+}
@@ -0,0 +1,44 @@
+import type { NextApiRequest } from 'next';
+import { cert, getApp, getApps, initializeApp } from 'firebase-admin/app';
+import { DecodedIdToken, getAuth } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
+import { getStorage } from 'firebase-admin/storage';
+
+// Server-only: imported by API routes, never by pages or components
+
+const app = getApps().length
+  ? getApp()
+  : initializeApp({
+      credential: cert({
+        projectId: process.env.FIREBASE_PROJECT_ID,
+        clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+        privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+      }),
+    });
+
+export const adminAuth = getAuth(app);
+
+// ALWAYS use the folio-nicco database
+export const adminDb = getFirestore(app, 'folio-nicco');
+
+// The bucket the web app uploads to
+export const adminBucket = getStorage(app).bucket(
+  process.env.FIREBASE_STORAGE_BUCKET || 'hour-college.firebasestorage.app'
+);
+
+/**
+ * Verify the Firebase ID token sent as `Authorization: Bearer <token>`
+ * @param req - The API request
+ * @returns The decoded token, or null if it is missing or invalid
+ */
+export async function getRequestUser(req: NextApiRequest): Promise<DecodedIdToken | null> {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) return null;
+
+  try {
+    return await adminAuth.verifyIdToken(authHeader.split('Bearer ')[1]);
+  } catch (error) {
+    console.warn('Invalid ID token:', error);
+    return null;
+  }
+}
@@ -0,0 +1,235 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import {
+  PLAYBACK_EVENT_TYPES,
+  PlaybackBatch,
+  PlaybackEvent,
+  PlayedRange,
+  VIEW_SOURCES,
+  mergeRanges,
+  rangesDuration
+} from '../playbackAnalytics';
+import { adminDb } from './firebaseAdmin';
+
+// One document per playback session, docId = sessionId
+export const VIEWS_COLLECTION = 'videoViews';
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+const MAX_RANGES_PER_BATCH = 200;
+const MAX_EVENTS_PER_BATCH = 100;
+// Kept per session; beyond these, played time still counts but isn't itemised
+const MAX_STORED_RANGES = 1000;
+const MAX_STORED_EVENTS = 300;
+// Batches applied ahead of one that hasn't arrived; past this many the missing batch is taken as lost
+const MAX_PENDING_SEQS = 200;
+// Ranges this close together are stored as one, so continuous play across heartbeats stays a single range
+const CONTIGUOUS_SEC = 0.5;
+// Share of the video that must have been played for a session without an ended event to count as completed
+const COMPLETION_RATIO = 0.95;
+const MAX_POSITION_SEC = 24 * 60 * 60;
+// A batch can't add more watch time than the wall-clock time since the session's last batch
+// allows at the fastest playback speed, plus slack for heartbeats delayed or arriving out of order
+const MAX_PLAYBACK_RATE = 2;
+const WATCH_TIME_SLACK_SEC = 30;
+
+const isPosition = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= MAX_POSITION_SEC;
+
+/**
+ * Drop repeats of the same event, e.g. a pause the browser fired twice
+ */
+function dedupeEvents(events: PlaybackEvent[]): PlaybackEvent[] {
+  const seen = new Set<string>();
+  return events.filter((event) => {
+    const key = `${event.type}:${event.position}:${event.at}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Validate a heartbeat sent by trackPlayback
+ * @param body - The parsed request body
+ * @returns The batch, or a message describing the first problem found
+ */
+export function parsePlaybackBatch(body: any): { batch: PlaybackBatch; error?: undefined } | { batch?: undefined; error: string } {
+  if (!body || typeof body !== 'object') return { error: 'Body must be a JSON object' };
+
+  const { sessionId, videoId, viewerId, source, seq, durationSec, ranges, events, idToken } = body;
+
+  if (typeof sessionId !== 'string' || !ID_PATTERN.test(sessionId)) return { error: 'sessionId is invalid' };
+  if (typeof viewerId !== 'string' || !ID_PATTERN.test(viewerId)) return { error: 'viewerId is invalid' };
+  if (typeof videoId !== 'string' || !videoId || videoId.length > 128 || videoId.includes('/')) {
+    return { error: 'videoId is invalid' };
+  }
+  if (!VIEW_SOURCES.includes(source)) return { error: 'source is invalid' };
+  if (!Number.isInteger(seq) || seq < 0 || seq > 100000) return { error: 'seq is invalid' };
+  if (durationSec !== undefined && !isPosition(durationSec)) return { error: 'durationSec is invalid' };
+
+  if (!Array.isArray(ranges) || ranges.length > MAX_RANGES_PER_BATCH) return { error: 'ranges is invalid' };
+  for (const range of ranges) {
+    if (!Array.isArray(range) || range.length !== 2 || !isPosition(range[0]) || !isPosition(range[1]) || range[1] < range[0]) {
+      return { error: 'ranges must be [start, end] pairs in seconds' };
+    }
+  }
+
+  if (!Array.isArray(events) || events.length > MAX_EVENTS_PER_BATCH) return { error: 'events is invalid' };
+  for (const event of events) {
+    if (!event || !PLAYBACK_EVENT_TYPES.includes(event.type) || !isPosition(event.position) ||
+        (event.from !== undefined && !isPosition(event.from)) || typeof event.at !== 'number') {
+      return { error: 'events are invalid' };
+    }
+  }
+
+  if (idToken !== undefined && typeof idToken !== 'string') return { error: 'idToken is invalid' };
+
+  return {
+    batch: {
+      sessionId,
+      videoId,
+      viewerId,
+      source,
+      seq,
+      durationSec,
+      ranges: ranges.map(([start, end]: PlayedRange) => [start, end] as PlayedRange),
+      events: dedupeEvents(events.map(({ type, position, from, at }: PlaybackEvent) => ({
+        type,
+        position,
+        ...(from !== undefined && { from }),
+        at
+      }))),
+      idToken
+    }
+  };
+}
+
+const abuts = (position: number, edge: number) => Math.abs(position - edge) <= CONTIGUOUS_SEC;
+
+/**
+ * Add new ranges, joining each to a stored range it continues or leads into. Batches can
+ * arrive out of order, so a range may join one stored before or after it.
+ */
+function addRanges(stored: PlayedRange[], added: PlayedRange[]): PlayedRange[] {
+  const ranges = stored.map(([start, end]) => [start, end] as PlayedRange);
+  for (const [start, end] of added) {
+    // The most recently stored ranges are the likeliest to join
+    const recent = [...ranges].reverse();
+    const before = recent.find((range) => abuts(start, range[1]));
+    const after = !before && recent.find((range) => abuts(end, range[0]));
+    if (before) {
+      before[1] = Math.max(before[1], end);
+    } else if (after) {
+      after[0] = Math.min(after[0], start);
+    } else if (ranges.length < MAX_STORED_RANGES) {
+      ranges.push([start, end]);
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Record a batch's `seq` as applied. Every seq up to `appliedThrough` has been applied, as
+ * have those in `pending`, which arrived ahead of a missing one.
+ */
+function markSeqApplied(appliedThrough: number, pending: number[], seq: number): { appliedThrough: number; pending: number[] } {
+  const seqs = new Set([...pending, seq]);
+  if (seqs.size > MAX_PENDING_SEQS) {
+    appliedThrough = Math.min(...seqs) - 1;
+  }
+  while (seqs.has(appliedThrough + 1)) {
+    seqs.delete(++appliedThrough);
+  }
+  return { appliedThrough, pending: Array.from(seqs).sort((a, b) => a - b) };
+}
+
+// Firestore can't store nested arrays
+const toStoredRanges = (ranges: PlayedRange[]) => ranges.map(([start, end]) => ({ start, end }));
+const fromStoredRanges = (ranges: { start: number; end: number }[] | undefined): PlayedRange[] =>
+  (ranges || []).map(({ start, end }) => [start, end] as PlayedRange);
+
+/**
+ * Apply a heartbeat to its session, creating the session on its first batch.
+ * Batches whose `seq` has already been applied are ignored, so resent beacons count once;
+ * batches arriving out of order are still applied.
+ * @param batch - A validated batch
+ * @param viewer - The signed-in viewer, if the ID token checked out, and the viewer's hashed IP address
+ * @returns false if the video doesn't exist, isn't public and the viewer isn't its owner, or the
+ * session belongs to another video
+ */
+export async function applyPlaybackBatch(
+  batch: PlaybackBatch,
+  { viewerUid, ipHash }: { viewerUid: string | null; ipHash: string }
+): Promise<boolean> {
+  const sessionRef = adminDb.collection(VIEWS_COLLECTION).doc(batch.sessionId);
+  const videoRef = adminDb.collection('videos').doc(batch.videoId);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const [sessionDoc, videoDoc] = await Promise.all([transaction.get(sessionRef), transaction.get(videoRef)]);
+    const video = videoDoc.data();
+    // Only videos the viewer can see can be played; a private video's ID alone isn't enough
+    if (!video || (video.visibility !== 'public' && video.ownerUid !== viewerUid)) return false;
+
+    const session = sessionDoc.data();
+    if (session && session.videoId !== batch.videoId) return false;
+    const appliedThrough: number = session?.seqsAppliedThrough ?? -1;
+    const pendingSeqs: number[] = session?.pendingSeqs || [];
+    if (batch.seq <= appliedThrough || pendingSeqs.includes(batch.seq)) return true;
+
+    // The processed duration is trusted over the player's
+    const durationSec = Number(video.techMetaDetected?.durationSec || video.techMeta?.durationSec) ||
+      session?.durationSec || batch.durationSec || 0;
+    const clamp = (position: number) => durationSec ? Math.min(position, durationSec) : position;
+    // Overlapping ranges within a batch count once
+    const added = mergeRanges(batch.ranges.map(([start, end]) => [clamp(start), clamp(end)] as PlayedRange));
+    const lastEventAt: Timestamp | undefined = session?.lastEventAt;
+    const elapsedSec = lastEventAt ? Math.max(0, (Date.now() - lastEventAt.toMillis()) / 1000) : 0;
+    const addedWatchTime = Math.min(rangesDuration(added), (elapsedSec + WATCH_TIME_SLACK_SEC) * MAX_PLAYBACK_RATE);
+
+    const playedRanges = addRanges(fromStoredRanges(session?.playedRanges), added);
+    const uniqueSecondsPlayed = rangesDuration(mergeRanges(playedRanges));
+    const events = [...(session?.events || []), ...batch.events]
+      .sort((a, b) => a.at - b.at)
+      .slice(0, MAX_STORED_EVENTS);
+    const seqs = markSeqApplied(appliedThrough, pendingSeqs, batch.seq);
+    const completed = !!session?.completed ||
+      batch.events.some((event) => event.type === 'ended') ||
+      (durationSec > 0 && uniqueSecondsPlayed >= durationSec * COMPLETION_RATIO);
+
+    const update = {
+      seqsAppliedThrough: seqs.appliedThrough,
+      pendingSeqs: seqs.pending,
+      lastEventAt: FieldValue.serverTimestamp(),
+      durationSec,
+      playedRanges: toStoredRanges(playedRanges),
+      // Everything played, rewatches included
+      watchTimeSeconds: (session?.watchTimeSeconds || 0) + addedWatchTime,
+      uniqueSecondsPlayed,
+      pauseCount: (session?.pauseCount || 0) + batch.events.filter((event) => event.type === 'pause').length,
+      seekCount: (session?.seekCount || 0) + batch.events.filter((event) => event.type === 'seek').length,
+      events,
+      completed
+    };
+
+    if (session) {
+      transaction.update(sessionRef, {
+        ...update,
+        // A viewer who signs in mid-session
+        ...(!session.viewerUid && viewerUid && { viewerUid })
+      });
+    } else {
+      transaction.create(sessionRef, {
+        sessionId: batch.sessionId,
+        videoId: batch.videoId,
+        ownerUid: video.ownerUid,
+        viewerUid,
+        viewerId: batch.viewerId,
+        ipHash,
+        source: batch.source,
+        // When the session started; the analytics page orders and filters by it
+        timestamp: Timestamp.now(),
+        ...update
+      });
+    }
+    return true;
+  });
+}
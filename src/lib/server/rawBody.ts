@@ -0,0 +1,24 @@
+import type { NextApiRequest } from 'next';
+
+/**
+ * Read a request's body exactly as sent. Routes using this must turn off Next's
+ * body parser (`export const config = { api: { bodyParser: false } }`).
+ * @param req - The API request
+ * @param maxBytes - Larger bodies are rejected
+ * @returns The body bytes
+ */
+export async function readRawBody(req: NextApiRequest, maxBytes = 1024 * 1024): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk as Buffer;
+    size += buffer.length;
+    if (size > maxBytes) {
+      throw new Error(`Request body is larger than ${maxBytes} bytes`);
+    }
+    chunks.push(buffer);
+  }
+
+  return Buffer.concat(chunks);
+}
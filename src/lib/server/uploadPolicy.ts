@@ -0,0 +1,192 @@
+import crypto from 'crypto';
+import type { DocumentData } from 'firebase-admin/firestore';
+import { GB, PLANS } from '../plans';
+import { getUserPlanId } from './billing';
+import { adminDb } from './firebaseAdmin';
+
+// How long an initiated upload may wait before its video record is created
+const UPLOAD_GRANT_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+// What initiate-upload allowed the user to upload. Signed and handed back to
+// POST /api/videos, so the video's storage fields can't be forged.
+export interface UploadGrant {
+  uid: string;
+  videoId: string;
+  storagePath: string;
+  sizeBytes: number;
+  sha256?: string;
+  proxyPath?: string;
+  proxySizeBytes?: number;
+  originalFileName?: string;
+  originalSizeBytes?: number;
+  expiresAt: number;
+}
+
+// A file the client is about to upload, as sent to initiate-upload and the replacement route
+export interface UploadRequest {
+  filename: string;
+  sizeBytes: number;
+  contentType: string;
+  sha256?: string;
+  // A proxy uploaded alongside the master
+  proxySizeBytes?: number;
+  // Set when the file is a proxy uploaded instead of the original
+  originalFileName?: string;
+  originalSizeBytes?: number;
+}
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+/**
+ * Validate the file description in an upload request body
+ * @returns The request, or a message describing the first invalid field
+ */
+export function parseUploadRequest(body: Record<string, unknown>): { upload: UploadRequest; error?: undefined } | { upload?: undefined; error: string } {
+  const { filename, sizeBytes, contentType, sha256, proxySizeBytes, originalFileName, originalSizeBytes } = body;
+
+  if (typeof filename !== 'string' || !filename.trim() || !isPositiveInteger(sizeBytes)) {
+    return { error: 'filename and sizeBytes are required' };
+  }
+  if (typeof contentType !== 'string' || !contentType.startsWith('video/')) {
+    return { error: 'Only video files can be uploaded' };
+  }
+  if (sha256 !== undefined && (typeof sha256 !== 'string' || !/^[0-9a-f]{64}$/.test(sha256))) {
+    return { error: 'sha256 must be a lowercase hex SHA-256 digest' };
+  }
+  if (proxySizeBytes !== undefined && !isPositiveInteger(proxySizeBytes)) {
+    return { error: 'proxySizeBytes must be a positive integer' };
+  }
+  if (originalFileName !== undefined && (typeof originalFileName !== 'string' || !isPositiveInteger(originalSizeBytes))) {
+    return { error: 'originalFileName requires originalSizeBytes' };
+  }
+
+  return {
+    upload: {
+      filename,
+      sizeBytes,
+      contentType,
+      ...(sha256 ? { sha256 } : {}),
+      ...(proxySizeBytes ? { proxySizeBytes } : {}),
+      ...(originalFileName ? { originalFileName: originalFileName.slice(0, 255), originalSizeBytes: originalSizeBytes as number } : {})
+    }
+  };
+}
+
+/**
+ * Bytes a user's videos take up in Storage: masters, proxies, pending replacements
+ * and archived versions kept for rollback. Matches recalculateStorageUsage in the
+ * Cloud Functions. Summed live rather than read from `usage/{uid}`, which Cloud Functions
+ * update shortly after each write, so back-to-back uploads in a batch are all counted.
+ */
+export async function getStorageUsed(uid: string): Promise<number> {
+  const [videos, archivedVersions] = await Promise.all([
+    adminDb.collection('videos')
+      .where('ownerUid', '==', uid)
+      .select('storage', 'replacement')
+      .get(),
+    adminDb.collectionGroup('versions')
+      .where('ownerUid', '==', uid)
+      .where('status', '==', 'archived')
+      .select('storage')
+      .get(),
+  ]);
+
+  const mediaBytes = (data: DocumentData) =>
+    (Number(data.storage?.sizeBytes) || 0) +
+    (Number(data.storage?.proxySizeBytes) || 0) +
+    (Number(data.replacement?.storage?.sizeBytes) || 0);
+
+  return [...videos.docs, ...archivedVersions.docs].reduce((total, doc) => total + mediaBytes(doc.data()), 0);
+}
+
+/**
+ * Check an upload against the user's plan
+ * @param uid - The uploading user
+ * @param fileBytes - Size of the largest single file in the upload
+ * @param totalBytes - Everything the upload adds to Storage, including any proxy
+ * @returns A message for the user if the upload is not allowed, otherwise null
+ */
+export async function checkUploadQuota(uid: string, fileBytes: number, totalBytes: number): Promise<string | null> {
+  const [planId, used] = await Promise.all([getUserPlanId(uid), getStorageUsed(uid)]);
+  const { maxUploadGb, storageGb } = PLANS[planId].entitlements;
+
+  if (fileBytes > maxUploadGb * GB) {
+    return `Videos on the ${PLANS[planId].name} plan must be smaller than ${maxUploadGb}GB`;
+  }
+  if (used + totalBytes > storageGb * GB) {
+    return `This upload would exceed the ${PLANS[planId].name} plan's ${storageGb}GB of storage`;
+  }
+  return null;
+}
+
+/**
+ * Check that a user can have another unlisted or private video. The Firestore rules
+ * apply the same limit when an existing video's visibility is changed.
+ * @param uid - The video's owner
+ * @returns A message for the user if the plan's limit is reached, otherwise null
+ */
+export async function checkPrivateVideoQuota(uid: string): Promise<string | null> {
+  const [planId, privateVideos] = await Promise.all([
+    getUserPlanId(uid),
+    adminDb.collection('videos')
+      .where('ownerUid', '==', uid)
+      .where('visibility', 'in', ['private', 'unlisted'])
+      .count()
+      .get(),
+  ]);
+  const limit = PLANS[planId].entitlements.privateVideos;
+
+  if (privateVideos.data().count >= limit) {
+    return `The ${PLANS[planId].name} plan allows ${limit} private or unlisted videos. Make this video public or upgrade.`;
+  }
+  return null;
+}
+
+/**
+ * Keep the owner's file name readable in the bucket without letting it change the path
+ */
+export function safeFileName(fileName: string): string {
+  return fileName.replace(/[^\w.-]+/g, '_').replace(/^\.+/, '').slice(-100) || 'video';
+}
+
+function uploadTokenSecret(): string {
+  const secret = process.env.UPLOAD_TOKEN_SECRET;
+  if (!secret) throw new Error('UPLOAD_TOKEN_SECRET is not set');
+  return secret;
+}
+
+function signPayload(payload: string): string {
+  return crypto.createHmac('sha256', uploadTokenSecret()).update(payload).digest('base64url');
+}
+
+/**
+ * Sign an upload grant into the metadata token returned by initiate-upload
+ */
+export function signUploadGrant(grant: Omit<UploadGrant, 'expiresAt'>): { token: string; expiresAt: number } {
+  const expiresAt = Date.now() + UPLOAD_GRANT_TTL_MS;
+  const payload = Buffer.from(JSON.stringify({ ...grant, expiresAt })).toString('base64url');
+  return { token: `${payload}.${signPayload(payload)}`, expiresAt };
+}
+
+/**
+ * Read a metadata token issued by signUploadGrant
+ * @returns The grant, or null if the token is malformed, tampered with or expired
+ */
+export function verifyUploadGrant(token: unknown): UploadGrant | null {
+  if (typeof token !== 'string') return null;
+
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(signPayload(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const grant = JSON.parse(Buffer.from(payload, 'base64url').toString()) as UploadGrant;
+    return grant.expiresAt > Date.now() ? grant : null;
+  } catch {
+    return null;
+  }
+}
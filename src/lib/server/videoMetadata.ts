@@ -0,0 +1,117 @@
+import type { TechMeta } from '../techMeta';
+
+export type Visibility = 'public' | 'private' | 'unlisted';
+
+// The owner-supplied part of a video document, as accepted by POST /api/videos
+export interface VideoMetadata {
+  title: string;
+  description: string;
+  tags: string[];
+  folder?: string;
+  collaborators: { uid: string; role: string; name: string }[];
+  techMeta: TechMeta;
+  visibility: Visibility;
+}
+
+// Limits match the inputs on the upload and edit pages
+const MAX_TITLE_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 1000;
+const MAX_FOLDER_LENGTH = 100;
+const MAX_TAGS = 30;
+const MAX_TAG_LENGTH = 50;
+const MAX_COLLABORATORS = 50;
+const MAX_TEXT_LENGTH = 200;
+
+const VISIBILITIES: Visibility[] = ['public', 'private', 'unlisted'];
+
+const TECH_META_TEXT_FIELDS: (keyof TechMeta)[] = [
+  'camera',
+  'lenses',
+  'location',
+  'resolution',
+  'frameRate',
+  'codec',
+  'colorProfile',
+  'bitDepth',
+  'colorPrimaries',
+  'colorTransfer',
+  'audioChannels'
+];
+
+export type MetadataResult = { metadata: VideoMetadata; error?: undefined } | { metadata?: undefined; error: string };
+
+function isText(value: unknown, maxLength: number): value is string {
+  return typeof value === 'string' && value.length <= maxLength;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate the metadata fields of a create-video request body. Unknown fields
+ * are dropped rather than stored.
+ * @param body - The parsed JSON body
+ * @returns The cleaned metadata, or a message describing the first invalid field
+ */
+export function parseVideoMetadata(body: Record<string, unknown>): MetadataResult {
+  const { title, description = '', tags = [], folder, collaborators = [], techMeta = {}, visibility } = body;
+
+  if (!isText(title, MAX_TITLE_LENGTH) || !title.trim()) {
+    return { error: `title is required and must be at most ${MAX_TITLE_LENGTH} characters` };
+  }
+  if (!isText(description, MAX_DESCRIPTION_LENGTH)) {
+    return { error: `description must be at most ${MAX_DESCRIPTION_LENGTH} characters` };
+  }
+  if (folder !== undefined && !isText(folder, MAX_FOLDER_LENGTH)) {
+    return { error: `folder must be at most ${MAX_FOLDER_LENGTH} characters` };
+  }
+  if (!VISIBILITIES.includes(visibility as Visibility)) {
+    return { error: `visibility must be one of ${VISIBILITIES.join(', ')}` };
+  }
+
+  if (!Array.isArray(tags) || tags.length > MAX_TAGS || !tags.every(tag => isText(tag, MAX_TAG_LENGTH))) {
+    return { error: `tags must be at most ${MAX_TAGS} strings of up to ${MAX_TAG_LENGTH} characters` };
+  }
+
+  if (
+    !Array.isArray(collaborators) ||
+    collaborators.length > MAX_COLLABORATORS ||
+    !collaborators.every(c => isPlainObject(c) && isText(c.name, MAX_TEXT_LENGTH) && isText(c.role, MAX_TEXT_LENGTH))
+  ) {
+    return { error: 'collaborators must be a list of { name, role }' };
+  }
+
+  if (!isPlainObject(techMeta)) {
+    return { error: 'techMeta must be an object' };
+  }
+  const cleanTechMeta: TechMeta = {};
+  for (const field of TECH_META_TEXT_FIELDS) {
+    const value = techMeta[field];
+    if (value === undefined) continue;
+    if (!isText(value, MAX_TEXT_LENGTH)) return { error: `techMeta.${field} must be a string` };
+    if (value.trim()) (cleanTechMeta as Record<string, string>)[field] = value.trim();
+  }
+  if (techMeta.durationSec !== undefined) {
+    if (typeof techMeta.durationSec !== 'number' || !Number.isFinite(techMeta.durationSec) || techMeta.durationSec < 0) {
+      return { error: 'techMeta.durationSec must be a positive number' };
+    }
+    cleanTechMeta.durationSec = techMeta.durationSec;
+  }
+
+  const cleanFolder = typeof folder === 'string' ? folder.trim() : '';
+
+  return {
+    metadata: {
+      title: title.trim(),
+      description: description.trim(),
+      tags: Array.from(new Set(tags.map(tag => tag.trim()).filter(Boolean))),
+      ...(cleanFolder ? { folder: cleanFolder } : {}),
+      collaborators: collaborators
+        .filter(c => c.name.trim() && c.role.trim())
+        .map(c => ({ uid: '', role: c.role.trim(), name: c.name.trim() })),
+      techMeta: cleanTechMeta,
+      visibility: visibility as Visibility
+    }
+  };
+}
@@ -0,0 +1,45 @@
+import type { CSSProperties } from 'react';
+
+// Sprite sheet of evenly spaced frames written by the processing Cloud Function
+export interface Storyboard {
+  url: string;
+  vttUrl: string;
+  tileWidth: number;
+  tileHeight: number;
+  columns: number;
+  rows: number;
+  count: number;
+  intervalSec: number;
+}
+
+/**
+ * Index of the storyboard tile covering a point in the video
+ * @param storyboard - The video's storyboard
+ * @param timeSec - Time in seconds
+ * @returns Tile index, clamped to the sprite
+ */
+export function getStoryboardTileIndex(storyboard: Storyboard, timeSec: number): number {
+  const index = Math.floor(timeSec / storyboard.intervalSec);
+  return Math.min(Math.max(index, 0), storyboard.count - 1);
+}
+
+/**
+ * Background styles that show one tile of the sprite, scaled to fill the element.
+ * Percentages keep this independent of the element's rendered size.
+ * @param storyboard - The video's storyboard
+ * @param index - Tile index
+ * @returns Styles for an element with the tile's aspect ratio
+ */
+export function getStoryboardTileStyle(storyboard: Storyboard, index: number): CSSProperties {
+  const column = index % storyboard.columns;
+  const row = Math.floor(index / storyboard.columns);
+  const x = storyboard.columns > 1 ? (column / (storyboard.columns - 1)) * 100 : 0;
+  const y = storyboard.rows > 1 ? (row / (storyboard.rows - 1)) * 100 : 0;
+
+  return {
+    backgroundImage: `url("${storyboard.url}")`,
+    backgroundSize: `${storyboard.columns * 100}% ${storyboard.rows * 100}%`,
+    backgroundPosition: `${x}% ${y}%`,
+    backgroundRepeat: 'no-repeat'
+  };
+}
@@ -1,6 +1,7 @@
 import { User } from 'firebase/auth'
+import { PlanId } from './plans'
 
-export const createCheckoutSession = async (user: User) => {
+export const createCheckoutSession = async (user: User, planId: PlanId) => {
   const token = await user.getIdToken()
   
   const response = await fetch('/api/stripe/create-checkout', {
@@ -9,6 +10,7 @@ export const createCheckoutSession = async (user: User) => {
       'Authorization': `Bearer ${token}`,
       'Content-Type': 'application/json',
     },
+    body: JSON.stringify({ planId }),
   })
 
   if (!response.ok) {
@@ -22,13 +24,35 @@ export const redirectToCheckout = (checkoutUrl: string) => {
   window.location.href = checkoutUrl
 }
 
-export type SubscriptionStatus = 'inactive' | 'active' | 'canceled' | 'past_due'
+// Billing Portal session for cancelling, switching plans and changing the card
+export const createPortalSession = async (user: User): Promise<{ url: string }> => {
+  const token = await user.getIdToken()
+
+  const response = await fetch('/api/stripe/create-portal', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+  })
+
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(data.message || 'Failed to open billing portal')
+  }
+
+  return data
+}
+
+export type SubscriptionStatus = 'inactive' | 'active' | 'trialing' | 'canceled' | 'past_due' | 'unpaid'
 
 export const getSubscriptionStatusColor = (status: SubscriptionStatus) => {
   switch (status) {
     case 'active':
+    case 'trialing':
       return 'green'
     case 'past_due':
+    case 'unpaid':
       return 'orange'
     case 'canceled':
       return 'red'
@@ -42,8 +66,12 @@ export const getSubscriptionStatusText = (status: SubscriptionStatus) => {
   switch (status) {
     case 'active':
       return 'Active'
+    case 'trialing':
+      return 'Trial'
     case 'past_due':
       return 'Past Due'
+    case 'unpaid':
+      return 'Unpaid'
     case 'canceled':
       return 'Canceled'
     case 'inactive':
@@ -0,0 +1,258 @@
+import { formatTime } from './thumbnails';
+
+// Technical metadata as entered by the owner. Detectable fields act as manual overrides.
+export interface TechMeta {
+  camera?: string;
+  lenses?: string;
+  location?: string;
+  durationSec?: number;
+  resolution?: string;
+  frameRate?: string;
+  codec?: string;
+  colorProfile?: string;
+  bitDepth?: string;
+  colorPrimaries?: string;
+  colorTransfer?: string;
+  audioChannels?: string;
+}
+
+// Values probed from the upload by the processing Cloud Function (read-only for clients)
+export interface TechMetaDetected {
+  durationSec?: number;
+  width?: number;
+  height?: number;
+  resolution?: string;
+  frameRate?: string;
+  fps?: number;
+  codec?: string;
+  bitDepth?: string;
+  colorPrimaries?: string;
+  colorTransfer?: string;
+  colorProfile?: string;
+  audioChannels?: string;
+  probedAt?: any;
+}
+
+export type DetectableField =
+  | 'durationSec'
+  | 'resolution'
+  | 'frameRate'
+  | 'codec'
+  | 'bitDepth'
+  | 'colorPrimaries'
+  | 'colorTransfer'
+  | 'colorProfile'
+  | 'audioChannels';
+
+export type TechMetaSource = 'detected' | 'manual';
+
+interface TechMetaFields {
+  techMeta?: TechMeta;
+  techMetaDetected?: TechMetaDetected;
+}
+
+/**
+ * Resolve a technical field, preferring the owner's value over the detected one
+ * @param video - Video with techMeta and techMetaDetected
+ * @param field - Field to resolve
+ * @returns The effective value and where it came from, or null if unknown
+ */
+export function resolveTechField<K extends DetectableField>(
+  video: TechMetaFields,
+  field: K
+): { value: NonNullable<TechMeta[K]>; source: TechMetaSource } | null {
+  const manual = video.techMeta?.[field];
+  if (manual !== undefined && manual !== null && manual !== '') {
+    return { value: manual as NonNullable<TechMeta[K]>, source: 'manual' };
+  }
+
+  const detected = video.techMetaDetected?.[field];
+  if (detected !== undefined && detected !== null && detected !== '') {
+    return { value: detected as NonNullable<TechMeta[K]>, source: 'detected' };
+  }
+
+  return null;
+}
+
+/**
+ * Effective duration in seconds, if known
+ */
+export function getDurationSec(video: TechMetaFields): number | undefined {
+  return resolveTechField(video, 'durationSec')?.value;
+}
+
+/**
+ * Format a technical value for display
+ * @param field - Field the value belongs to
+ * @param value - Raw value
+ * @returns Display string (durations as m:ss)
+ */
+export function formatTechValue(field: DetectableField, value: string | number): string {
+  if (field === 'durationSec') return formatTime(Number(value));
+  return String(value);
+}
+
+// Subset of `ffprobe -print_format json -show_format -show_streams` output
+export interface ProbeStream {
+  codec_type?: string;
+  codec_name?: string;
+  profile?: string | number;
+  width?: number;
+  height?: number;
+  avg_frame_rate?: string;
+  r_frame_rate?: string;
+  pix_fmt?: string;
+  bits_per_raw_sample?: string | number;
+  color_primaries?: string;
+  color_transfer?: string;
+  channels?: number;
+  duration?: string | number;
+}
+
+export interface ProbeData {
+  streams: ProbeStream[];
+  format: { duration?: string | number };
+}
+
+// The lookups below mirror the processing Cloud Function so values probed in
+// the browser match what the server detects
+
+const NAMED_RESOLUTIONS: { width: number; height: number; label: string }[] = [
+  { width: 7680, height: 4320, label: '8K (7680×4320)' },
+  { width: 6144, height: 3456, label: '6K (6144×3456)' },
+  { width: 3840, height: 2160, label: '4K (3840×2160)' },
+  { width: 2048, height: 1080, label: '2K (2048×1080)' },
+  { width: 1920, height: 1080, label: 'HD (1920×1080)' }
+];
+
+const COLOR_PRIMARIES: Record<string, string> = {
+  bt709: 'BT.709',
+  bt2020: 'BT.2020',
+  smpte432: 'Display P3',
+  smpte431: 'DCI-P3',
+  bt470bg: 'BT.601 (PAL)',
+  smpte170m: 'BT.601 (NTSC)'
+};
+
+const COLOR_TRANSFERS: Record<string, string> = {
+  bt709: 'BT.709',
+  smpte2084: 'PQ (ST 2084)',
+  'arib-std-b67': 'HLG',
+  'iec61966-2-1': 'sRGB',
+  linear: 'Linear',
+  smpte170m: 'BT.601'
+};
+
+const CHANNEL_LAYOUTS: Record<number, string> = {
+  1: '1 (Mono)',
+  2: '2 (Stereo)',
+  6: '6 (5.1)',
+  8: '8 (7.1)'
+};
+
+function parseRational(value?: string): number | undefined {
+  if (!value) return undefined;
+  const [numerator, denominator] = value.split('/').map(Number);
+  if (!numerator || !denominator) return undefined;
+  return numerator / denominator;
+}
+
+function formatCodec(stream: ProbeStream): string | undefined {
+  const profile = String(stream.profile ?? '');
+
+  switch (stream.codec_name) {
+    case 'h264':
+      return 'H.264';
+    case 'hevc':
+      return 'H.265/HEVC';
+    case 'prores':
+      return profile.startsWith('4444') ? `ProRes ${profile}` : 'ProRes 422';
+    case 'dnxhd':
+      return profile.toUpperCase().startsWith('DNXHR') ? 'DNxHR' : 'DNxHD';
+    case 'av1':
+      return 'AV1';
+    case 'vp9':
+      return 'VP9';
+    default:
+      return stream.codec_name ? stream.codec_name.toUpperCase() : undefined;
+  }
+}
+
+function detectBitDepth(stream: ProbeStream): string | undefined {
+  const rawBits = Number(stream.bits_per_raw_sample);
+  if (rawBits) return `${rawBits}-bit`;
+
+  const match = stream.pix_fmt?.match(/p(\d{2})(le|be)$/);
+  if (match) return `${Number(match[1])}-bit`;
+  return stream.pix_fmt ? '8-bit' : undefined;
+}
+
+/**
+ * Convert ffprobe JSON output into detected technical metadata
+ * @param data - Parsed ffprobe output
+ * @returns Detected values, omitting anything the container did not report
+ */
+export function techMetaFromProbe(data: ProbeData): TechMetaDetected {
+  const videoStream = data.streams.find(s => s.codec_type === 'video');
+  const audioStream = data.streams.find(s => s.codec_type === 'audio');
+  const detected: TechMetaDetected = {};
+
+  const duration = Number(data.format?.duration) || Number(videoStream?.duration);
+  if (duration) detected.durationSec = Math.round(duration * 100) / 100;
+
+  if (videoStream) {
+    const { width, height } = videoStream;
+    if (width && height) {
+      detected.width = width;
+      detected.height = height;
+      detected.resolution = NAMED_RESOLUTIONS.find(r => r.width === width && r.height === height)?.label
+        || `${width}×${height}`;
+    }
+
+    const fps = parseRational(videoStream.avg_frame_rate) || parseRational(videoStream.r_frame_rate);
+    if (fps) {
+      const rounded = Math.round(fps * 100) / 100;
+      detected.fps = Math.round(fps * 1000) / 1000;
+      detected.frameRate = `${Number.isInteger(rounded) ? rounded.toFixed(0) : rounded.toFixed(2)} fps`;
+    }
+
+    const codec = formatCodec(videoStream);
+    if (codec) detected.codec = codec;
+
+    const bitDepth = detectBitDepth(videoStream);
+    if (bitDepth) detected.bitDepth = bitDepth;
+
+    const primaries = videoStream.color_primaries;
+    const transfer = videoStream.color_transfer;
+    if (primaries && COLOR_PRIMARIES[primaries]) detected.colorPrimaries = COLOR_PRIMARIES[primaries];
+    if (transfer && COLOR_TRANSFERS[transfer]) detected.colorTransfer = COLOR_TRANSFERS[transfer];
+
+    if (primaries === 'bt2020') detected.colorProfile = 'Rec. 2020';
+    else if (primaries === 'bt709' || transfer === 'bt709') detected.colorProfile = 'Rec. 709';
+  }
+
+  if (audioStream?.channels) {
+    detected.audioChannels = CHANNEL_LAYOUTS[audioStream.channels] || String(audioStream.channels);
+  }
+
+  return detected;
+}
+
+/**
+ * Copy the detectable fields of probed metadata into owner-entered techMeta,
+ * keeping only values the owner has not already set
+ * @param techMeta - Existing owner-entered values
+ * @param detected - Values probed from the file
+ */
+export function prefillTechMeta(techMeta: TechMeta, detected: TechMetaDetected): TechMeta {
+  const fields: DetectableField[] = ['durationSec', 'resolution', 'frameRate', 'codec', 'bitDepth', 'colorPrimaries', 'colorTransfer', 'colorProfile', 'audioChannels'];
+  const prefilled: TechMeta = { ...techMeta };
+
+  for (const field of fields) {
+    const value = detected[field];
+    if (value !== undefined && (prefilled[field] === undefined || prefilled[field] === '')) {
+      (prefilled as Record<string, unknown>)[field] = value;
+    }
+  }
+  return prefilled;
+}
@@ -1,10 +1,8 @@
-import { httpsCallable } from 'firebase/functions';
-import { functions } from './firebase';
+import { MediaJob, createIdempotencyKey, enqueueMediaJob, waitForMediaJob } from './mediaJobs';
 
 interface ThumbnailRequest {
   videoId: string;
   timestamp: number;
-  userId: string;
   quality?: 'high' | 'medium' | 'low';
 }
 
@@ -16,37 +14,135 @@ interface ThumbnailResponse {
 }
 
 /**
- * Generate a video thumbnail using the Firebase Cloud Function
+ * Format a Cloud Function or Firestore error for display
+ */
+function formatCallError(error: unknown): string {
+  if (error && typeof error === 'object' && 'code' in error && 'message' in error) {
+    return `${error.code}: ${error.message}`;
+  }
+  return error instanceof Error ? error.message : 'Unknown error occurred';
+}
+
+/**
+ * Generate a video thumbnail by queueing a thumbnail job and waiting for it
  * @param request - The thumbnail generation request parameters
+ * @param onStatusChange - Optional callback for queued/running/retrying updates
  * @returns Promise resolving to thumbnail response
  */
-export async function generateVideoThumbnail(request: ThumbnailRequest): Promise<ThumbnailResponse> {
+export async function generateVideoThumbnail(
+  request: ThumbnailRequest,
+  onStatusChange?: (job: MediaJob) => void
+): Promise<ThumbnailResponse> {
+  const startTime = Date.now();
+
   try {
-    const generateThumbnail = httpsCallable<ThumbnailRequest, ThumbnailResponse>(
-      functions,
-      'generateVideoThumbnail'
-    );
-    
-    const result = await generateThumbnail(request);
-    return result.data;
+    const { jobId } = await enqueueMediaJob({
+      type: 'thumbnail',
+      videoId: request.videoId,
+      idempotencyKey: createIdempotencyKey(),
+      params: { timestamp: request.timestamp, quality: request.quality || 'high' }
+    });
+
+    const job = await waitForMediaJob(jobId, onStatusChange);
+    if (job.status !== 'succeeded') {
+      return { success: false, error: job.lastError || 'Thumbnail generation failed', processingTime: Date.now() - startTime };
+    }
+
+    return {
+      success: true,
+      thumbnailUrl: job.result?.thumbnailUrl as string | undefined,
+      processingTime: Date.now() - startTime
+    };
   } catch (error) {
-    console.error('Error calling generateVideoThumbnail:', error);
-    
-    // Handle Firebase Function errors
-    if (error && typeof error === 'object' && 'code' in error && 'message' in error) {
-      return {
-        success: false,
-        error: `${error.code}: ${error.message}`
-      };
+    console.error('Error generating thumbnail:', error);
+    return {
+      success: false,
+      error: formatCallError(error)
+    };
+  }
+}
+
+// Poster suitability scores computed by the Cloud Function, each from 0 to 1
+export interface FrameScores {
+  sharpness: number;
+  exposure: number;
+  colorfulness: number;
+  overall: number;
+}
+
+export interface ThumbnailCandidate {
+  id: string;
+  timestamp: number;
+  path: string;
+  url: string;
+  scores?: FrameScores;
+}
+
+interface ThumbnailCandidatesRequest {
+  videoId: string;
+  count?: number;
+  mode?: 'scene' | 'percent';
+}
+
+interface ThumbnailCandidatesResponse {
+  success: boolean;
+  candidates?: ThumbnailCandidate[];
+  error?: string;
+  processingTime?: number;
+}
+
+/**
+ * Extract several real frames as poster candidates by queueing a candidates job
+ * @param request - The video, how many frames and whether to follow scene changes
+ * @param onStatusChange - Optional callback for queued/running/retrying updates
+ * @returns Promise resolving to the uploaded candidates
+ */
+export async function generateThumbnailCandidates(
+  request: ThumbnailCandidatesRequest,
+  onStatusChange?: (job: MediaJob) => void
+): Promise<ThumbnailCandidatesResponse> {
+  const startTime = Date.now();
+
+  try {
+    const { jobId } = await enqueueMediaJob({
+      type: 'candidates',
+      videoId: request.videoId,
+      idempotencyKey: createIdempotencyKey(),
+      params: request.count === undefined ? { mode: request.mode || 'scene' } : { mode: request.mode || 'scene', count: request.count }
+    });
+
+    const job = await waitForMediaJob(jobId, onStatusChange);
+    if (job.status !== 'succeeded') {
+      return { success: false, error: job.lastError || 'Frame extraction failed', processingTime: Date.now() - startTime };
     }
-    
+
+    return {
+      success: true,
+      candidates: (job.result?.candidates as ThumbnailCandidate[] | undefined) || [],
+      processingTime: Date.now() - startTime
+    };
+  } catch (error) {
+    console.error('Error generating thumbnail candidates:', error);
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred'
+      error: formatCallError(error)
     };
   }
 }
 
+/**
+ * Find the highest scoring candidate, ignoring frames scored as unusable
+ * @param candidates - Candidates returned by generateThumbnailCandidates
+ * @returns The recommended candidate, or undefined if none are scored
+ */
+export function getBestCandidate(candidates: ThumbnailCandidate[]): ThumbnailCandidate | undefined {
+  return candidates.reduce<ThumbnailCandidate | undefined>((best, candidate) => {
+    const score = candidate.scores?.overall || 0;
+    if (score <= 0) return best;
+    return !best || score > (best.scores?.overall || 0) ? candidate : best;
+  }, undefined);
+}
+
 /**
  * Format timestamp for display
  * @param seconds - Time in seconds
@@ -0,0 +1,255 @@
+import { ref, uploadBytesResumable, listAll, deleteObject, UploadTask } from 'firebase/storage';
+import { httpsCallable } from 'firebase/functions';
+import { storage, functions } from './firebase';
+
+// Each part is a separate object, so a reload only loses the part in flight
+export const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024; // 8MB
+
+// Matches the cleanupAbandonedUploads Cloud Function, which deletes older parts
+export const ABANDONED_UPLOAD_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+const DB_NAME = 'folio-uploads';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const FILES_STORE = 'files';
+
+// Sessions beyond this wait as `queued` until a running upload finishes
+export const MAX_CONCURRENT_UPLOADS = 3;
+
+// queued -> uploading -> finalizing -> complete
+// paused, error and needs-file (reloaded without the file) resume to uploading
+export type UploadStatus = 'queued' | 'uploading' | 'paused' | 'needs-file' | 'error' | 'finalizing' | 'complete';
+
+// `proxy` uploads a lightweight copy to the video's `storage.proxyPath` alongside the master.
+// `replacement` uploads new media for an existing video to `replacement.storage.path`.
+export type UploadTarget = 'master' | 'proxy' | 'replacement';
+
+export interface UploadSession {
+  id: string;
+  ownerUid: string;
+  videoId: string;
+  title: string;
+  storagePath: string;
+  target: UploadTarget;
+  fileName: string;
+  fileSize: number;
+  contentType: string;
+  lastModified: number;
+  chunkSize: number;
+  partCount: number;
+  completedParts: number;
+  status: UploadStatus;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and create on first use) the IndexedDB database holding upload sessions
+ * and the files being uploaded
+ */
+function openUploadDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(SESSIONS_STORE)) {
+          database.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        }
+        if (!database.objectStoreNames.contains(FILES_STORE)) {
+          database.createObjectStore(FILES_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Run a single request against an object store
+ */
+async function runStoreRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const database = await openUploadDb();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Save or update an upload session
+ */
+export function saveUploadSession(session: UploadSession): Promise<void> {
+  return runStoreRequest(SESSIONS_STORE, 'readwrite', (store) => store.put(session));
+}
+
+/**
+ * Load the upload sessions started by a user in this browser
+ */
+export async function getUploadSessions(ownerUid: string): Promise<UploadSession[]> {
+  const sessions = await runStoreRequest<UploadSession[]>(SESSIONS_STORE, 'readonly', (store) => store.getAll());
+  return sessions.filter(session => session.ownerUid === ownerUid);
+}
+
+/**
+ * Remove an upload session and its stored file
+ */
+export async function deleteUploadSession(id: string): Promise<void> {
+  await runStoreRequest(SESSIONS_STORE, 'readwrite', (store) => store.delete(id));
+  await runStoreRequest(FILES_STORE, 'readwrite', (store) => store.delete(id));
+}
+
+/**
+ * Keep a copy of the file so the upload can resume after a reload. Browsers may
+ * refuse large files (quota); the user is then asked to select the file again.
+ * @returns Whether the file was stored
+ */
+export async function saveUploadFile(id: string, file: Blob): Promise<boolean> {
+  try {
+    await runStoreRequest(FILES_STORE, 'readwrite', (store) => store.put(file, id));
+    return true;
+  } catch (error) {
+    console.warn('Could not keep upload file for resuming:', error);
+    return false;
+  }
+}
+
+/**
+ * Load the stored copy of a session's file, if there is one
+ */
+export async function getUploadFile(id: string): Promise<Blob | undefined> {
+  try {
+    return await runStoreRequest<Blob | undefined>(FILES_STORE, 'readonly', (store) => store.get(id));
+  } catch (error) {
+    console.warn('Could not read stored upload file:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Whether a file the user selected is the one a session was uploading
+ */
+export function matchesUploadSession(session: UploadSession, file: File): boolean {
+  return file.name === session.fileName &&
+    file.size === session.fileSize &&
+    file.lastModified === session.lastModified;
+}
+
+function partsFolder(session: UploadSession): string {
+  return `uploadParts/${session.ownerUid}/${session.id}`;
+}
+
+/**
+ * Start uploading one part of a session's file
+ * @param session - The upload session
+ * @param file - The full file; the part is sliced from it
+ * @param index - Zero-based part index
+ * @returns The running upload task (await it for completion)
+ */
+export function uploadPart(session: UploadSession, file: Blob, index: number): UploadTask {
+  const start = index * session.chunkSize;
+  const chunk = file.slice(start, Math.min(start + session.chunkSize, session.fileSize));
+  const partName = index.toString().padStart(5, '0');
+
+  // Parts are stored as opaque bytes; the real content type is applied when they are composed
+  return uploadBytesResumable(ref(storage, `${partsFolder(session)}/${partName}`), chunk, {
+    contentType: 'application/octet-stream',
+    customMetadata: {
+      videoId: session.videoId,
+      contentType: session.contentType
+    }
+  });
+}
+
+/**
+ * Delete every part uploaded for a session
+ */
+export async function deleteUploadParts(session: UploadSession): Promise<void> {
+  const { items } = await listAll(ref(storage, partsFolder(session)));
+  await Promise.all(items.map(item => deleteObject(item)));
+}
+
+interface CompleteUploadRequest {
+  videoId: string;
+  sessionId: string;
+  partCount: number;
+  target: UploadTarget;
+}
+
+interface CompleteUploadResponse {
+  success: boolean;
+  path: string;
+}
+
+/**
+ * Ask the Cloud Function to compose the uploaded parts into the video's upload path
+ * @param session - A session whose parts have all been uploaded
+ */
+export async function completeChunkedUpload(session: UploadSession): Promise<CompleteUploadResponse> {
+  const complete = httpsCallable<CompleteUploadRequest, CompleteUploadResponse>(
+    functions,
+    'completeChunkedUpload'
+  );
+
+  const result = await complete({
+    videoId: session.videoId,
+    sessionId: session.id,
+    partCount: session.partCount,
+    // Sessions saved before proxies existed have no target
+    target: session.target || 'master'
+  });
+  return result.data;
+}
+
+/**
+ * Bytes uploaded so far, including progress within the current part
+ */
+export function getUploadedBytes(session: UploadSession, currentPartBytes = 0): number {
+  if (session.status === 'complete' || session.status === 'finalizing') return session.fileSize;
+  return Math.min(session.fileSize, session.completedParts * session.chunkSize + currentPartBytes);
+}
+
+// Browsers leave `File.type` empty for some containers, such as Matroska.
+// Matches the completeChunkedUpload Cloud Function, which falls back the same way.
+const VIDEO_TYPES_BY_EXTENSION: Record<string, string> = {
+  mp4: 'video/mp4',
+  m4v: 'video/x-m4v',
+  mov: 'video/quicktime',
+  mkv: 'video/x-matroska',
+  webm: 'video/webm',
+  avi: 'video/x-msvideo'
+};
+
+/**
+ * Content type of a video file, from its extension when the browser didn't report one
+ * @returns The type, or an empty string if the file isn't recognisably a video
+ */
+export function videoContentType(file: File): string {
+  if (file.type.startsWith('video/')) return file.type;
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  return VIDEO_TYPES_BY_EXTENSION[extension] || '';
+}
+
+/**
+ * Format a byte count for display (e.g. "1.2 GB")
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.round(bytes / 1024)} KB`;
+}
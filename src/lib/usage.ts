@@ -0,0 +1,46 @@
+import { doc, onSnapshot } from 'firebase/firestore';
+import { db } from './firebase';
+
+// A user's storage and bandwidth usage, kept up to date by Cloud Functions
+export interface Usage {
+  storageBytes: number;
+  videoCount: number;
+  // Estimated playback bandwidth this month
+  egressBytes: number;
+}
+
+/**
+ * Calendar month that egress is counted against, e.g. "2025-03" (UTC)
+ */
+export function usagePeriod(date = new Date()): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Listen to a user's usage. Egress is read from this month's `usage/{uid}/egress/{period}`
+ * document, so it starts again from zero each month.
+ * @returns Unsubscribe function
+ */
+export function subscribeToUsage(uid: string, callback: (usage: Usage) => void): () => void {
+  let totals: Omit<Usage, 'egressBytes'> = { storageBytes: 0, videoCount: 0 };
+  let egressBytes = 0;
+  const publish = () => callback({ ...totals, egressBytes });
+
+  const unsubscribeUsage = onSnapshot(doc(db, 'usage', uid), (snapshot) => {
+    const data = snapshot.data();
+    totals = {
+      storageBytes: data?.storageBytes || 0,
+      videoCount: data?.videoCount || 0
+    };
+    publish();
+  });
+  const unsubscribeEgress = onSnapshot(doc(db, 'usage', uid, 'egress', usagePeriod()), (snapshot) => {
+    egressBytes = snapshot.data()?.egressBytes || 0;
+    publish();
+  });
+
+  return () => {
+    unsubscribeUsage();
+    unsubscribeEgress();
+  };
+}
@@ -0,0 +1,146 @@
+import { User } from 'firebase/auth';
+import { TechMeta } from './techMeta';
+import { RetentionBucket } from './retention';
+
+export interface InitiateUploadRequest {
+  filename: string;
+  sizeBytes: number;
+  contentType: string;
+  sha256?: string;
+  // A proxy uploaded alongside the master
+  proxySizeBytes?: number;
+  // The original, when the file is a proxy uploaded instead of it
+  originalFileName?: string;
+  originalSizeBytes?: number;
+}
+
+export interface InitiateUploadResponse {
+  videoId: string;
+  uploadUrl: string;
+  storagePath: string;
+  proxyPath?: string;
+  metadataToken: string;
+  expiresAt: number;
+}
+
+export interface CreateVideoRequest {
+  metadataToken: string;
+  title: string;
+  description: string;
+  tags: string[];
+  folder?: string;
+  collaborators: { name: string; role: string }[];
+  techMeta: TechMeta;
+  visibility: 'public' | 'private' | 'unlisted';
+}
+
+// Audience retention of a video, computed by the API from its recent playback sessions
+export interface VideoRetention {
+  buckets: RetentionBucket[];
+  durationSec: number;
+  // Sessions the chart was drawn from; at most sampleSize, the most recent ones
+  sessions: number;
+  sampleSize: number;
+}
+
+// A request the API refused. Messages of 4xx errors (such as quota errors) are meant for the user.
+export class VideoApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'VideoApiError';
+    this.status = status;
+  }
+}
+
+async function requestJson<T>(user: User, url: string, init: RequestInit = {}): Promise<T> {
+  const token = await user.getIdToken();
+
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      ...init.headers,
+      'Authorization': `Bearer ${token}`
+    }
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new VideoApiError(data.message || `Request failed with status ${response.status}`, response.status);
+  }
+  return data as T;
+}
+
+function postJson<T>(user: User, url: string, body: unknown): Promise<T> {
+  return requestJson(user, url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+}
+
+/**
+ * Reserve a video ID and upload path, checked against the user's plan limits
+ * @param user - The signed-in user
+ * @param request - The file about to be uploaded
+ * @returns Upload targets and the token to pass to createVideoRecord
+ */
+export function initiateVideoUpload(user: User, request: InitiateUploadRequest): Promise<InitiateUploadResponse> {
+  return postJson(user, '/api/videos/initiate-upload', request);
+}
+
+/**
+ * Create the video document for an initiated upload. Storage fields come from
+ * the token, so only the owner's metadata is sent.
+ * @param user - The signed-in user
+ * @param request - The metadata token and the video's details
+ * @returns The new video's ID
+ */
+export function createVideoRecord(user: User, request: CreateVideoRequest): Promise<{ id: string; status: string }> {
+  return postJson(user, '/api/videos', request);
+}
+
+/**
+ * Record new media for an existing video as its pending replacement
+ * @param user - The video's owner
+ * @param videoId - The video to replace the media of
+ * @param request - The file about to be uploaded (`proxySizeBytes` is not supported)
+ * @returns The version the media will become and its upload path
+ */
+export function startMediaReplacement(
+  user: User,
+  videoId: string,
+  request: Omit<InitiateUploadRequest, 'proxySizeBytes'>
+): Promise<{ versionId: string; storagePath: string }> {
+  return postJson(user, `/api/videos/${encodeURIComponent(videoId)}/replacement`, request);
+}
+
+/**
+ * Record that a video's link or embed code was shared
+ * @param user - The signed-in user sharing it
+ * @param videoId - The video shared
+ * @param platform - What was copied
+ */
+export async function recordVideoShare(user: User, videoId: string, platform: 'link' | 'embed'): Promise<void> {
+  await postJson(user, '/api/analytics/shares', { videoId, platform });
+}
+
+/**
+ * Audience retention of one of the user's videos. Playback sessions are server-only,
+ * so the chart is computed by the API.
+ * @param user - The video's owner
+ * @param videoId - The video
+ * @param from - First UTC day of sessions to include, e.g. "2025-03-14"
+ */
+export function fetchVideoRetention(user: User, videoId: string, from: string): Promise<VideoRetention> {
+  const params = new URLSearchParams({ videoId, from });
+  return requestJson(user, `/api/analytics/retention?${params}`);
+}
+
+/**
+ * Whether an API error's message can be shown to the user as-is
+ */
+export function isUserFacingError(error: unknown): error is VideoApiError {
+  return error instanceof VideoApiError && error.status < 500;
+}
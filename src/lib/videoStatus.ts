@@ -0,0 +1,55 @@
+export type VideoStatus = 'uploaded' | 'processing' | 'ready' | 'failed'
+
+// Processing lifecycle fields written by the transcoding Cloud Function
+export interface VideoProcessing {
+  uploadedAt?: any
+  startedAt?: any
+  readyAt?: any
+  failedAt?: any
+  failureReason?: string
+}
+
+interface VideoStatusFields {
+  status?: VideoStatus
+  playback?: { mp4Url?: string }
+}
+
+/**
+ * Resolve the effective processing status of a video document.
+ * Documents without a status are either still uploading, or legacy uploads
+ * that predate the pipeline and already have a playable URL.
+ */
+export const getVideoStatus = (video: VideoStatusFields): VideoStatus => {
+  if (video.status) return video.status
+  return video.playback?.mp4Url ? 'ready' : 'uploaded'
+}
+
+export const isVideoPlayable = (video: VideoStatusFields) => getVideoStatus(video) === 'ready'
+
+export const getVideoStatusText = (status: VideoStatus) => {
+  switch (status) {
+    case 'uploaded':
+      return 'Uploaded'
+    case 'processing':
+      return 'Processing'
+    case 'failed':
+      return 'Failed'
+    case 'ready':
+    default:
+      return 'Ready'
+  }
+}
+
+export const getVideoStatusMessage = (status: VideoStatus) => {
+  switch (status) {
+    case 'uploaded':
+      return 'Waiting for processing to start...'
+    case 'processing':
+      return 'Video processing...'
+    case 'failed':
+      return 'Video processing failed'
+    case 'ready':
+    default:
+      return ''
+  }
+}
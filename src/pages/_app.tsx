@@ -3,6 +3,8 @@ import '../styles/globals.css'
 import { useEffect } from 'react'
 import { useRouter } from 'next/router'
 import { AuthProvider } from '../contexts/AuthContext'
+import { PlanProvider } from '../contexts/PlanContext'
+import { UploadProvider } from '../contexts/UploadContext'
 import { Layout } from '../components/Layout'
 
 export default function App({ Component, pageProps }: AppProps) {
@@ -20,13 +22,17 @@ export default function App({ Component, pageProps }: AppProps) {
 
   return (
     <AuthProvider>
-      {useLayout ? (
-        <Layout>
-          <Component {...pageProps} />
-        </Layout>
-      ) : (
-        <Component {...pageProps} />
-      )}
+      <PlanProvider>
+        <UploadProvider>
+          {useLayout ? (
+            <Layout>
+              <Component {...pageProps} />
+            </Layout>
+          ) : (
+            <Component {...pageProps} />
+          )}
+        </UploadProvider>
+      </PlanProvider>
     </AuthProvider>
   )
 }
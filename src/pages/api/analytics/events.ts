@@ -0,0 +1,72 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { adminAuth } from '../../../lib/server/firebaseAdmin'
+import { consumeRateLimits, getClientIp, hashIdentifier, isBotUserAgent } from '../../../lib/server/analyticsGuard'
+import { applyPlaybackBatch, parsePlaybackBatch } from '../../../lib/server/playbackSessions'
+
+// Heartbeats are small; anything bigger isn't from the player
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '64kb',
+    },
+  },
+}
+
+// Per minute. The player sends a heartbeat at most every 10 seconds, plus one when playback
+// ends or the page is hidden; several viewers can share an IP address behind the same network.
+const RATE_LIMIT_WINDOW_MS = 60 * 1000
+const SESSION_LIMIT = 30
+const IP_LIMIT = 300
+
+// Receives playback heartbeats from trackPlayback (src/lib/playbackAnalytics.ts),
+// including the final batch sent with navigator.sendBeacon. This route is the only
+// writer of videoViews.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' })
+  }
+
+  // Accepted but not recorded, so crawlers get nothing to retry
+  if (isBotUserAgent(req.headers['user-agent'])) {
+    return res.status(202).json({ accepted: false })
+  }
+
+  const { batch, error } = parsePlaybackBatch(req.body)
+  if (error !== undefined) {
+    return res.status(400).json({ message: error })
+  }
+
+  try {
+    const ipHash = hashIdentifier('ip', getClientIp(req))
+    const allowed = await consumeRateLimits([
+      { key: `session_${hashIdentifier('session', batch.sessionId)}`, limit: SESSION_LIMIT },
+      { key: `ip_${ipHash}`, limit: IP_LIMIT }
+    ], RATE_LIMIT_WINDOW_MS)
+    if (!allowed) {
+      res.setHeader('Retry-After', String(RATE_LIMIT_WINDOW_MS / 1000))
+      return res.status(429).json({ message: 'Too many requests' })
+    }
+
+    // Sessions of signed-in viewers are attributed to them; a bad token just means anonymous
+    let viewerUid: string | null = null
+    if (batch.idToken) {
+      try {
+        viewerUid = (await adminAuth.verifyIdToken(batch.idToken)).uid
+      } catch {
+        viewerUid = null
+      }
+    }
+
+    const applied = await applyPlaybackBatch(batch, { viewerUid, ipHash })
+    if (!applied) {
+      return res.status(404).json({ message: 'Video not found' })
+    }
+    res.status(202).json({ accepted: true })
+  } catch (error) {
+    console.error('Error recording playback events:', error)
+    res.status(500).json({ message: 'Internal server error' })
+  }
+}
@@ -0,0 +1,71 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { Timestamp } from 'firebase-admin/firestore'
+import { adminDb, getRequestUser } from '../../../lib/server/firebaseAdmin'
+import { getUserPlanId } from '../../../lib/server/billing'
+import { PLANS } from '../../../lib/plans'
+import { PlayedRange } from '../../../lib/playbackAnalytics'
+import { computeRetention } from '../../../lib/retention'
+
+// The chart is drawn from this many of the most recent sessions in the range
+const SAMPLE_SIZE = 500
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Audience retention of a video for its owner. Sessions hold viewer identifiers and
+// hashed IP addresses, so they are only read here and never by the client.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: 'Method not allowed' })
+  }
+
+  const user = await getRequestUser(req)
+  if (!user) {
+    return res.status(401).json({ message: 'Unauthorized' })
+  }
+
+  const { videoId, from } = req.query
+  if (typeof videoId !== 'string' || !videoId || videoId.includes('/')) {
+    return res.status(400).json({ message: 'videoId is invalid' })
+  }
+  if (typeof from !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(from)) {
+    return res.status(400).json({ message: 'from must be a date like 2025-03-14' })
+  }
+
+  try {
+    const video = (await adminDb.collection('videos').doc(videoId).get()).data()
+    if (!video || video.ownerUid !== user.uid) {
+      return res.status(404).json({ message: 'Video not found' })
+    }
+
+    // No further back than the plan keeps analytics
+    const planId = await getUserPlanId(user.uid)
+    const earliest = Date.now() - PLANS[planId].entitlements.analyticsRetentionDays * DAY_MS
+    const since = Math.max(Date.parse(from), earliest)
+
+    const snapshot = await adminDb.collection('videoViews')
+      .where('videoId', '==', videoId)
+      .where('timestamp', '>=', Timestamp.fromMillis(since))
+      .orderBy('timestamp', 'desc')
+      .select('playedRanges', 'durationSec')
+      .limit(SAMPLE_SIZE)
+      .get()
+
+    const sessions = snapshot.docs.map((doc) => doc.data())
+    // Older views have no played ranges and are left out of retention
+    const durationSec = Number(video.techMetaDetected?.durationSec || video.techMeta?.durationSec) ||
+      Math.max(0, ...sessions.map((session) => Number(session.durationSec) || 0))
+    const buckets = computeRetention(
+      sessions.map((session) => ((session.playedRanges || []) as { start: number; end: number }[])
+        .map(({ start, end }) => [start, end] as PlayedRange)),
+      durationSec
+    )
+
+    res.status(200).json({ buckets, durationSec, sessions: snapshot.size, sampleSize: SAMPLE_SIZE })
+  } catch (error) {
+    console.error('Error computing retention:', error)
+    res.status(500).json({ message: 'Internal server error' })
+  }
+}
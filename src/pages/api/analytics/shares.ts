@@ -0,0 +1,62 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { FieldValue } from 'firebase-admin/firestore'
+import { adminDb, getRequestUser } from '../../../lib/server/firebaseAdmin'
+import { consumeRateLimits, hashIdentifier } from '../../../lib/server/analyticsGuard'
+
+const SHARE_PLATFORMS = ['link', 'embed']
+
+// Copying a link or embed code is a click each; more than this per minute isn't sharing
+const RATE_LIMIT_WINDOW_MS = 60 * 1000
+const USER_LIMIT = 30
+
+// Records a video being shared from the share dialog. This route is the only writer of videoShares.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' })
+  }
+
+  const user = await getRequestUser(req)
+  if (!user) {
+    return res.status(401).json({ message: 'Unauthorized' })
+  }
+
+  const { videoId, platform } = req.body || {}
+  if (typeof videoId !== 'string' || !videoId || videoId.includes('/')) {
+    return res.status(400).json({ message: 'videoId is invalid' })
+  }
+  if (!SHARE_PLATFORMS.includes(platform)) {
+    return res.status(400).json({ message: 'platform must be link or embed' })
+  }
+
+  try {
+    const allowed = await consumeRateLimits([
+      { key: `user_${hashIdentifier('user', user.uid)}`, limit: USER_LIMIT }
+    ], RATE_LIMIT_WINDOW_MS)
+    if (!allowed) {
+      res.setHeader('Retry-After', String(RATE_LIMIT_WINDOW_MS / 1000))
+      return res.status(429).json({ message: 'Too many requests' })
+    }
+
+    const video = (await adminDb.collection('videos').doc(videoId).get()).data()
+    // Only videos the user can see can be shared
+    if (!video || (video.visibility !== 'public' && video.ownerUid !== user.uid)) {
+      return res.status(404).json({ message: 'Video not found' })
+    }
+
+    await adminDb.collection('videoShares').add({
+      videoId,
+      ownerUid: video.ownerUid,
+      sharedBy: user.uid,
+      platform,
+      method: 'copy',
+      timestamp: FieldValue.serverTimestamp()
+    })
+    res.status(202).json({ accepted: true })
+  } catch (error) {
+    console.error('Error recording share:', error)
+    res.status(500).json({ message: 'Internal server error' })
+  }
+}
@@ -0,0 +1,60 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { FieldValue } from 'firebase-admin/firestore'
+import { adminDb, getRequestUser } from '../../../lib/server/firebaseAdmin'
+import { getUserPlanId } from '../../../lib/server/billing'
+import { hasEntitlement, planWithEntitlement } from '../../../lib/plans'
+import { isValidCustomDomain, normalizeCustomDomain } from '../../../lib/customDomain'
+
+// Sets or clears `profiles/{uid}.customDomain`. Clients can't write the field
+// directly, so the plan check here can't be skipped.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' })
+  }
+
+  const user = await getRequestUser(req)
+  if (!user) {
+    return res.status(401).json({ message: 'Unauthorized' })
+  }
+
+  if (typeof req.body?.domain !== 'string') {
+    return res.status(400).json({ message: 'Domain is required' })
+  }
+
+  const domain = normalizeCustomDomain(req.body.domain)
+  const profileRef = adminDb.collection('profiles').doc(user.uid)
+
+  try {
+    // Removing a domain is always allowed, so it can be cleared after a downgrade
+    if (!domain) {
+      await profileRef.set({ customDomain: FieldValue.delete(), updatedAt: FieldValue.serverTimestamp() }, { merge: true })
+      return res.status(200).json({ customDomain: '' })
+    }
+
+    if (!isValidCustomDomain(domain)) {
+      return res.status(400).json({ message: 'Enter a domain like portfolio.example.com' })
+    }
+
+    const planId = await getUserPlanId(user.uid)
+    if (!hasEntitlement(planId, 'customDomain')) {
+      return res.status(403).json({ message: `Custom domains need the ${planWithEntitlement('customDomain').name} plan` })
+    }
+
+    const taken = await adminDb.collection('profiles')
+      .where('customDomain', '==', domain)
+      .limit(1)
+      .get()
+    if (!taken.empty && taken.docs[0].id !== user.uid) {
+      return res.status(409).json({ message: 'That domain is already used by another portfolio' })
+    }
+
+    await profileRef.set({ customDomain: domain, updatedAt: FieldValue.serverTimestamp() }, { merge: true })
+    res.status(200).json({ customDomain: domain })
+  } catch (error) {
+    console.error('Error saving custom domain:', error)
+    res.status(500).json({ message: 'Internal server error' })
+  }
+}
@@ -1,22 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next'
-import Stripe from 'stripe'
-import { getAuth } from 'firebase-admin/auth'
-import { initializeApp, getApps, cert } from 'firebase-admin/app'
-
-// Initialize Firebase Admin if not already initialized
-if (!getApps().length) {
-  initializeApp({
-    credential: cert({
-      projectId: process.env.FIREBASE_PROJECT_ID,
-      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
-      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
-    }),
-  })
-}
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  apiVersion: '2024-06-20',
-})
+import { getRequestUser } from '../../../lib/server/firebaseAdmin'
+import { stripe, stripePriceIdForPlan } from '../../../lib/server/billing'
+import { isPlanId } from '../../../lib/plans'
 
 export default async function handler(
   req: NextApiRequest,
@@ -27,14 +12,11 @@ export default async function handler(
   }
 
   try {
-    // Get the user's auth token from the request
-    const authHeader = req.headers.authorization
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    const decodedToken = await getRequestUser(req)
+    if (!decodedToken) {
       return res.status(401).json({ message: 'Unauthorized' })
     }
 
-    const idToken = authHeader.split('Bearer ')[1]
-    const decodedToken = await getAuth().verifyIdToken(idToken)
     const userId = decodedToken.uid
     const userEmail = decodedToken.email
 
@@ -42,6 +24,12 @@ export default async function handler(
       return res.status(400).json({ message: 'User email required' })
     }
 
+    const planId = req.body?.planId
+    const priceId = isPlanId(planId) ? stripePriceIdForPlan(planId) : undefined
+    if (!isPlanId(planId) || !priceId) {
+      return res.status(400).json({ message: 'Choose a paid plan to check out' })
+    }
+
     // Create Stripe checkout session
     const session = await stripe.checkout.sessions.create({
       payment_method_types: ['card'],
@@ -49,7 +37,7 @@ export default async function handler(
       customer_email: userEmail,
       line_items: [
         {
-          price: process.env.STRIPE_PRICE_ID!, // You'll need to provide this
+          price: priceId,
           quantity: 1,
         },
       ],
@@ -57,6 +45,14 @@ export default async function handler(
       cancel_url: `${req.headers.origin}/?canceled=true`,
       metadata: {
         userId: userId,
+        planId,
+      },
+      // Copied onto the subscription so later subscription events know the plan too
+      subscription_data: {
+        metadata: {
+          userId: userId,
+          planId,
+        },
       },
     })
 
@@ -0,0 +1,37 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { adminDb, getRequestUser } from '../../../lib/server/firebaseAdmin'
+import { stripe } from '../../../lib/server/billing'
+
+// Opens the Stripe Billing Portal, where subscribers cancel, switch plans and update their card.
+// Changes made there reach Firestore through the webhook.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' })
+  }
+
+  try {
+    const user = await getRequestUser(req)
+    if (!user) {
+      return res.status(401).json({ message: 'Unauthorized' })
+    }
+
+    const userDoc = await adminDb.collection('users').doc(user.uid).get()
+    const customerId = userDoc.data()?.customerId
+    if (!customerId) {
+      return res.status(400).json({ message: 'No billing account yet. Choose a plan to subscribe.' })
+    }
+
+    const session = await stripe.billingPortal.sessions.create({
+      customer: customerId,
+      return_url: `${req.headers.origin}/settings/billing`,
+    })
+
+    res.status(200).json({ url: session.url })
+  } catch (error) {
+    console.error('Error creating billing portal session:', error)
+    res.status(500).json({ message: 'Internal server error' })
+  }
+}
@@ -1,34 +1,221 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import Stripe from 'stripe'
-import { getFirestore } from 'firebase-admin/firestore'
-import { initializeApp, getApps, cert } from 'firebase-admin/app'
-
-// Initialize Firebase Admin if not already initialized
-let app
-if (!getApps().length) {
-  app = initializeApp({
-    credential: cert({
-      projectId: process.env.FIREBASE_PROJECT_ID,
-      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
-      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
-    }),
+import { Timestamp } from 'firebase-admin/firestore'
+import { adminDb } from '../../../lib/server/firebaseAdmin'
+import { readRawBody } from '../../../lib/server/rawBody'
+import { PAYMENT_GRACE_PERIOD_DAYS } from '../../../lib/plans'
+import {
+  getCustomerPaymentMethod,
+  invoiceRecord,
+  stripe,
+  subscriptionBillingFields,
+  syncPlanClaims,
+} from '../../../lib/server/billing'
+
+// Signatures are computed over the exact bytes Stripe sent, so the body must not be parsed
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+}
+
+// Processed event IDs, so redelivered events are only applied once: `stripeEvents/{eventId}`
+const EVENTS_COLLECTION = 'stripeEvents'
+
+// An event still marked as processing after this long is assumed to have crashed and is retried
+const PROCESSING_LEASE_MS = 5 * 60 * 1000
+
+// Stripe stops redelivering after 3 days; records are kept a while longer (`expiresAt` is a TTL field)
+const EVENT_RETENTION_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Subscription statuses that clear a payment failure
+const SETTLED_STATUSES = ['active', 'trialing']
+
+type UserDoc = FirebaseFirestore.DocumentSnapshot
+
+/**
+ * Claim an event for processing
+ * @returns false if it was already processed or another delivery is processing it
+ */
+async function claimEvent(event: Stripe.Event): Promise<boolean> {
+  const eventRef = adminDb.collection(EVENTS_COLLECTION).doc(event.id)
+
+  return adminDb.runTransaction(async (transaction) => {
+    const existing = (await transaction.get(eventRef)).data()
+    if (existing?.status === 'processed') return false
+    if (existing?.status === 'processing' && existing.startedAt.toMillis() > Date.now() - PROCESSING_LEASE_MS) {
+      return false
+    }
+
+    transaction.set(eventRef, {
+      type: event.type,
+      status: 'processing',
+      attempts: (existing?.attempts || 0) + 1,
+      startedAt: Timestamp.now(),
+      eventCreatedAt: Timestamp.fromMillis(event.created * 1000),
+      expiresAt: Timestamp.fromMillis(Date.now() + EVENT_RETENTION_DAYS * DAY_MS),
+    })
+    return true
   })
-} else {
-  app = getApps()[0]
 }
 
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  apiVersion: '2024-06-20',
-})
+async function finishEvent(event: Stripe.Event, error?: unknown) {
+  await adminDb.collection(EVENTS_COLLECTION).doc(event.id).update(error
+    ? { status: 'failed', error: String(error), failedAt: Timestamp.now() }
+    : { status: 'processed', processedAt: Timestamp.now() })
+}
 
-const db = getFirestore(app, 'folio-nicco')
+// The user document of a Stripe customer, or null if none matches
+async function findUserByCustomer(customerId: string): Promise<UserDoc | null> {
+  const usersQuery = await adminDb.collection('users')
+    .where('customerId', '==', customerId)
+    .limit(1)
+    .get()
 
-export const config = {
-  api: {
-    bodyParser: {
-      sizeLimit: '1mb',
-    },
-  },
+  return usersQuery.empty ? null : usersQuery.docs[0]
+}
+
+// Subscription events can arrive before checkout.session.completed has stored the
+// customer ID, so the user ID copied into the subscription's metadata is tried first
+async function findUserForSubscription(subscription: Stripe.Subscription): Promise<UserDoc | null> {
+  const userId = subscription.metadata?.userId
+  if (userId) {
+    const userDoc = await adminDb.collection('users').doc(userId).get()
+    if (userDoc.exists) return userDoc
+  }
+  return findUserByCustomer(subscription.customer as string)
+}
+
+/**
+ * Mirror a subscription onto its user. The subscription is fetched again rather
+ * than taken from the event, so events applied out of order still leave the latest state.
+ */
+async function syncSubscription(subscriptionId: string, extra: Record<string, unknown> = {}) {
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId)
+
+  const userDoc = await findUserForSubscription(subscription)
+  if (!userDoc) {
+    console.error(`No user found for subscription ${subscription.id}`)
+    return
+  }
+
+  const settled = SETTLED_STATUSES.includes(subscription.status)
+  const ended = ['canceled', 'incomplete_expired'].includes(subscription.status)
+
+  await userDoc.ref.update({
+    customerId: subscription.customer as string,
+    ...await subscriptionBillingFields(subscription),
+    ...(ended && { planId: 'free', cancelAtPeriodEnd: false }),
+    ...((settled || ended) && { paymentFailedAt: null, graceUntil: null }),
+    ...extra,
+    updatedAt: new Date(),
+  })
+  await syncPlanClaims(userDoc.id)
+
+  console.log(`User ${userDoc.id} subscription ${subscription.id} synced as ${subscription.status}`)
+}
+
+async function handleCheckoutCompleted(session: Stripe.Checkout.Session) {
+  if (session.mode !== 'subscription' || !session.subscription) {
+    console.log(`Ignoring ${session.mode} checkout session ${session.id}`)
+    return
+  }
+
+  const userId = session.metadata?.userId
+  if (!userId) {
+    throw new Error(`No userId in metadata of checkout session ${session.id}`)
+  }
+
+  // Link the customer first so later events for it find the user
+  await adminDb.collection('users').doc(userId).update({
+    customerId: session.customer,
+    updatedAt: new Date(),
+  })
+
+  // The plan comes from the subscription's price or the metadata checkout copied onto it
+  await syncSubscription(session.subscription as string)
+}
+
+// Record the invoice for the billing page and start or end a payment grace period
+async function handleInvoice(event: Stripe.Event, invoice: Stripe.Invoice) {
+  const customerId = invoice.customer as string
+
+  const userDoc = await findUserByCustomer(customerId)
+  if (!userDoc) {
+    console.log(`Ignoring invoice ${invoice.id} of customer ${customerId} without a user`)
+    return
+  }
+
+  await userDoc.ref.collection('invoices').doc(invoice.id).set(invoiceRecord(invoice), { merge: true })
+
+  if (event.type === 'invoice.payment_failed' && invoice.subscription) {
+    // The grace period runs from the first failure; Stripe's retries don't extend it
+    const user = userDoc.data()
+    if (!user?.graceUntil) {
+      await userDoc.ref.update({
+        paymentFailedAt: new Date(),
+        graceUntil: new Date(Date.now() + PAYMENT_GRACE_PERIOD_DAYS * DAY_MS),
+        updatedAt: new Date(),
+      })
+      await syncPlanClaims(userDoc.id)
+      console.log(`Payment failed for user ${userDoc.id}; grace period of ${PAYMENT_GRACE_PERIOD_DAYS} days started`)
+    }
+  }
+
+  if (event.type === 'invoice.paid' && invoice.subscription) {
+    // Also picks up the new period end after a renewal
+    await syncSubscription(invoice.subscription as string, { paymentFailedAt: null, graceUntil: null })
+  }
+
+  console.log(`Invoice ${invoice.id} recorded as ${invoice.status}`)
+}
+
+async function handleEvent(event: Stripe.Event) {
+  switch (event.type) {
+    case 'checkout.session.completed':
+      await handleCheckoutCompleted(event.data.object)
+      break
+
+    // The whole subscription lifecycle: trials starting and ending, plan switches,
+    // cancellations, renewals and payment failures moving the status to past_due or unpaid
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted':
+    case 'customer.subscription.trial_will_end':
+    case 'customer.subscription.paused':
+    case 'customer.subscription.resumed':
+      await syncSubscription(event.data.object.id)
+      break
+
+    // The default card changed, e.g. in the billing portal
+    case 'customer.updated': {
+      const customer = event.data.object
+      const userDoc = await findUserByCustomer(customer.id)
+      if (!userDoc) {
+        console.log(`Ignoring update of customer ${customer.id} without a user`)
+        break
+      }
+
+      await userDoc.ref.update({
+        paymentMethod: await getCustomerPaymentMethod(customer.id),
+        updatedAt: new Date(),
+      })
+      break
+    }
+
+    case 'invoice.finalized':
+    case 'invoice.paid':
+    case 'invoice.payment_failed':
+    case 'invoice.voided':
+    case 'invoice.marked_uncollectible':
+      await handleInvoice(event, event.data.object)
+      break
+
+    default:
+      console.log(`Unhandled event type: ${event.type}`)
+  }
 }
 
 export default async function handler(
@@ -45,7 +232,7 @@ export default async function handler(
   let event: Stripe.Event
 
   try {
-    const body = JSON.stringify(req.body)
+    const body = await readRawBody(req)
     event = stripe.webhooks.constructEvent(body, sig!, webhookSecret)
   } catch (err) {
     console.error('Webhook signature verification failed:', err)
@@ -53,85 +240,25 @@ export default async function handler(
   }
 
   try {
-    switch (event.type) {
-      case 'checkout.session.completed': {
-        const session = event.data.object as Stripe.Checkout.Session
-        const userId = session.metadata?.userId
-
-        if (!userId) {
-          console.error('No userId in session metadata')
-          return res.status(400).json({ message: 'No userId in session metadata' })
-        }
-
-        // Update user's subscription status in Firestore
-        await db.collection('users').doc(userId).update({
-          subscriptionStatus: 'active',
-          subscriptionId: session.subscription,
-          customerId: session.customer,
-          updatedAt: new Date(),
-        })
-
-        console.log(`User ${userId} subscription activated`)
-        break
-      }
-
-      case 'customer.subscription.updated': {
-        const subscription = event.data.object as Stripe.Subscription
-        const customerId = subscription.customer as string
-
-        // Find user by customer ID
-        const usersQuery = await db.collection('users')
-          .where('customerId', '==', customerId)
-          .limit(1)
-          .get()
-
-        if (usersQuery.empty) {
-          console.error(`No user found for customer ${customerId}`)
-          return res.status(404).json({ message: 'User not found' })
-        }
-
-        const userDoc = usersQuery.docs[0]
-        await userDoc.ref.update({
-          subscriptionStatus: subscription.status,
-          updatedAt: new Date(),
-        })
-
-        console.log(`User subscription status updated to ${subscription.status}`)
-        break
-      }
-
-      case 'customer.subscription.deleted': {
-        const subscription = event.data.object as Stripe.Subscription
-        const customerId = subscription.customer as string
-
-        // Find user by customer ID
-        const usersQuery = await db.collection('users')
-          .where('customerId', '==', customerId)
-          .limit(1)
-          .get()
-
-        if (usersQuery.empty) {
-          console.error(`No user found for customer ${customerId}`)
-          return res.status(404).json({ message: 'User not found' })
-        }
-
-        const userDoc = usersQuery.docs[0]
-        await userDoc.ref.update({
-          subscriptionStatus: 'canceled',
-          updatedAt: new Date(),
-        })
-
-        console.log(`User subscription canceled`)
-        break
-      }
-
-      default:
-        console.log(`Unhandled event type: ${event.type}`)
+    if (!await claimEvent(event)) {
+      console.log(`Skipping event ${event.id}: already processed or in progress`)
+      return res.status(200).json({ received: true, duplicate: true })
     }
+  } catch (error) {
+    console.error('Error recording webhook event:', error)
+    return res.status(500).json({ message: 'Internal server error' })
+  }
 
+  try {
+    await handleEvent(event)
+    await finishEvent(event)
     res.status(200).json({ received: true })
   } catch (error) {
     console.error('Error handling webhook:', error)
+    // Stripe redelivers on errors; the failed record lets the retry claim the event again
+    await finishEvent(event, error).catch((recordError) => {
+      console.error('Error recording failed webhook event:', recordError)
+    })
     res.status(500).json({ message: 'Internal server error' })
   }
 }
@@ -5,10 +5,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  // This API endpoint is deprecated in favor of the Firebase Cloud Function
-  // Direct calls to generateVideoThumbnail should be made from the frontend
+  // This API endpoint is deprecated in favor of the media job queue
   res.status(410).json({ 
-    error: 'This endpoint is deprecated. Use the Firebase Cloud Function generateVideoThumbnail instead.',
-    migration: 'Call the Cloud Function directly from your frontend using httpsCallable'
+    error: 'This endpoint is deprecated. Queue a thumbnail job with the enqueueMediaJob Cloud Function instead.',
+    migration: "Call enqueueMediaJob with type 'thumbnail' using httpsCallable, then watch mediaJobs/{jobId} for the result (see enqueueMediaJob in src/lib/mediaJobs.ts)"
   });
 }
@@ -0,0 +1,55 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { adminDb } from '../../../../lib/server/firebaseAdmin'
+import { getUserPlanId } from '../../../../lib/server/billing'
+import { hasEntitlement } from '../../../../lib/plans'
+
+// Serves the embed player. Public videos can always be embedded; unlisted and
+// private ones only while their owner's plan includes private embeds.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: 'Method not allowed' })
+  }
+
+  const videoId = req.query.id
+  if (typeof videoId !== 'string') {
+    return res.status(400).json({ message: 'Missing video ID' })
+  }
+
+  try {
+    const videoDoc = await adminDb.collection('videos').doc(videoId).get()
+    const video = videoDoc.data()
+
+    if (!video) {
+      return res.status(404).json({ message: 'Video not found' })
+    }
+
+    if (video.visibility !== 'public') {
+      const planId = await getUserPlanId(video.ownerUid)
+      if (!hasEntitlement(planId, 'privateEmbeds')) {
+        // Indistinguishable from a missing video, so embeds don't reveal private videos exist
+        return res.status(404).json({ message: 'Video not found' })
+      }
+    }
+
+    // Only what the player needs; owner-only fields stay private
+    res.setHeader('Cache-Control', 'private, no-store')
+    res.status(200).json({
+      id: videoDoc.id,
+      ownerUid: video.ownerUid,
+      title: video.title || '',
+      description: video.description || '',
+      storage: { downloadURL: video.storage?.downloadURL },
+      playback: video.playback || {},
+      posters: video.posters,
+      status: video.status,
+      processing: video.processing,
+      visibility: video.visibility
+    })
+  } catch (error) {
+    console.error('Error loading embed:', error)
+    res.status(500).json({ message: 'Internal server error' })
+  }
+}
@@ -0,0 +1,73 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { FieldValue } from 'firebase-admin/firestore'
+import { adminDb, getRequestUser } from '../../../../lib/server/firebaseAdmin'
+import { checkUploadQuota, parseUploadRequest, safeFileName } from '../../../../lib/server/uploadPolicy'
+
+// Starts replacing a video's media. The new master is recorded as `replacement`
+// and swapped in by Cloud Functions once processed; the owner can still discard it from the client.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' })
+  }
+
+  const user = await getRequestUser(req)
+  if (!user) {
+    return res.status(401).json({ message: 'Unauthorized' })
+  }
+
+  const videoId = req.query.id
+  if (typeof videoId !== 'string') {
+    return res.status(400).json({ message: 'Missing video ID' })
+  }
+
+  const { upload, error } = parseUploadRequest(req.body || {})
+  if (error !== undefined) {
+    return res.status(400).json({ message: error })
+  }
+
+  try {
+    const videoRef = adminDb.collection('videos').doc(videoId)
+    const videoDoc = await videoRef.get()
+
+    if (!videoDoc.exists) {
+      return res.status(404).json({ message: 'Video not found' })
+    }
+    if (videoDoc.data()?.ownerUid !== user.uid) {
+      return res.status(403).json({ message: 'You do not have permission to edit this video' })
+    }
+
+    const quotaError = await checkUploadQuota(user.uid, upload.sizeBytes, upload.sizeBytes)
+    if (quotaError) {
+      return res.status(403).json({ message: quotaError })
+    }
+
+    const versionId = videoRef.collection('versions').doc().id
+    const storagePath = `uploads/${user.uid}/${videoId}/versions/${versionId}/${safeFileName(upload.filename)}`
+
+    await videoRef.update({
+      replacement: {
+        versionId,
+        storage: {
+          fileName: upload.filename.slice(0, 255),
+          path: storagePath,
+          sizeBytes: upload.sizeBytes,
+          ...(upload.sha256 ? { sha256: upload.sha256 } : {}),
+          ...(upload.originalFileName
+            ? { isProxy: true, originalFileName: upload.originalFileName, originalSizeBytes: upload.originalSizeBytes }
+            : {}),
+        },
+        status: 'uploading',
+        startedAt: FieldValue.serverTimestamp(),
+      },
+      updatedAt: FieldValue.serverTimestamp(),
+    })
+
+    res.status(200).json({ versionId, storagePath })
+  } catch (error) {
+    console.error('Error starting media replacement:', error)
+    res.status(500).json({ message: 'Internal server error' })
+  }
+}
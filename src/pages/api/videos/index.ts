@@ -0,0 +1,99 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { FieldValue } from 'firebase-admin/firestore'
+import { adminDb, getRequestUser } from '../../../lib/server/firebaseAdmin'
+import { UploadGrant, checkPrivateVideoQuota, checkUploadQuota, verifyUploadGrant } from '../../../lib/server/uploadPolicy'
+import { parseVideoMetadata } from '../../../lib/server/videoMetadata'
+
+// Firestore's ALREADY_EXISTS error code
+const ALREADY_EXISTS = 6
+
+/**
+ * The storage fields of the video, taken only from the signed grant
+ */
+function storageFromGrant(grant: UploadGrant): Record<string, string | number | boolean> {
+  const storage: Record<string, string | number | boolean> = {
+    path: grant.storagePath,
+    sizeBytes: grant.sizeBytes,
+  }
+  if (grant.sha256) storage.sha256 = grant.sha256
+  if (grant.proxyPath && grant.proxySizeBytes) {
+    storage.proxyPath = grant.proxyPath
+    storage.proxySizeBytes = grant.proxySizeBytes
+  }
+  if (grant.originalFileName && grant.originalSizeBytes) {
+    storage.isProxy = true
+    storage.originalFileName = grant.originalFileName
+    storage.originalSizeBytes = grant.originalSizeBytes
+  }
+  return storage
+}
+
+// Creates the video record for an upload started with initiate-upload. The record
+// is created before the media is uploaded so processing can find it when the upload finalizes.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' })
+  }
+
+  const user = await getRequestUser(req)
+  if (!user) {
+    return res.status(401).json({ message: 'Unauthorized' })
+  }
+
+  const body = req.body || {}
+  const grant = verifyUploadGrant(body.metadataToken)
+  if (!grant || grant.uid !== user.uid) {
+    return res.status(400).json({ message: 'metadataToken is invalid or has expired. Please start the upload again.' })
+  }
+  if (body.storagePath !== undefined && body.storagePath !== grant.storagePath) {
+    return res.status(400).json({ message: 'storagePath does not match the initiated upload' })
+  }
+
+  const { metadata, error } = parseVideoMetadata(body)
+  if (error !== undefined) {
+    return res.status(400).json({ message: error })
+  }
+
+  try {
+    // Checked again in case other uploads were created since this one was initiated
+    const quotaError = await checkUploadQuota(
+      user.uid,
+      Math.max(grant.sizeBytes, grant.proxySizeBytes || 0),
+      grant.sizeBytes + (grant.proxySizeBytes || 0)
+    )
+    if (quotaError) {
+      return res.status(403).json({ message: quotaError })
+    }
+
+    if (metadata.visibility !== 'public') {
+      const privateError = await checkPrivateVideoQuota(user.uid)
+      if (privateError) {
+        return res.status(403).json({ message: privateError })
+      }
+    }
+
+    await adminDb.collection('videos').doc(grant.videoId).create({
+      ownerUid: user.uid,
+      ...metadata,
+      storage: storageFromGrant(grant),
+      playback: {
+        provider: 'native',
+        id: grant.videoId,
+      },
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    })
+
+    // No status until the upload finalizes and processing picks it up
+    res.status(201).json({ id: grant.videoId, status: 'awaiting-upload' })
+  } catch (error) {
+    if ((error as { code?: number }).code === ALREADY_EXISTS) {
+      return res.status(409).json({ message: 'A video was already created for this upload' })
+    }
+    console.error('Error creating video:', error)
+    res.status(500).json({ message: 'Internal server error' })
+  }
+}
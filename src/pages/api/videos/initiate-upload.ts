@@ -0,0 +1,76 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { adminBucket, adminDb, getRequestUser } from '../../../lib/server/firebaseAdmin'
+import { UploadGrant, checkUploadQuota, parseUploadRequest, safeFileName, signUploadGrant } from '../../../lib/server/uploadPolicy'
+
+// Single-request uploads to `uploadUrl` must start within this window
+const UPLOAD_URL_TTL_MS = 60 * 60 * 1000 // 1 hour
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' })
+  }
+
+  const user = await getRequestUser(req)
+  if (!user) {
+    return res.status(401).json({ message: 'Unauthorized' })
+  }
+
+  const { upload, error } = parseUploadRequest(req.body || {})
+  if (error !== undefined) {
+    return res.status(400).json({ message: error })
+  }
+  const { sizeBytes, proxySizeBytes, sha256, originalFileName, originalSizeBytes } = upload
+
+  try {
+    const quotaError = await checkUploadQuota(
+      user.uid,
+      Math.max(sizeBytes, proxySizeBytes || 0),
+      sizeBytes + (proxySizeBytes || 0)
+    )
+    if (quotaError) {
+      return res.status(403).json({ message: quotaError })
+    }
+
+    // The video ID is reserved now so the preview poster and upload parts can use it
+    const videoId = adminDb.collection('videos').doc().id
+    const folder = `uploads/${user.uid}/${videoId}`
+
+    const grant: Omit<UploadGrant, 'expiresAt'> = {
+      uid: user.uid,
+      videoId,
+      storagePath: `${folder}/${safeFileName(upload.filename)}`,
+      sizeBytes,
+      ...(sha256 ? { sha256 } : {}),
+      ...(proxySizeBytes ? { proxyPath: `${folder}/proxy.mp4`, proxySizeBytes } : {}),
+      ...(originalFileName ? { originalFileName, originalSizeBytes } : {}),
+    }
+
+    // For clients that upload in a single request; the browser uploads resumable parts instead
+    const [uploadUrl] = await adminBucket.file(grant.storagePath).getSignedUrl({
+      version: 'v4',
+      action: 'write',
+      expires: Date.now() + UPLOAD_URL_TTL_MS,
+      contentType: upload.contentType,
+      extensionHeaders: {
+        'x-goog-content-length-range': `0,${sizeBytes}`,
+      },
+    })
+
+    const { token, expiresAt } = signUploadGrant(grant)
+
+    res.status(200).json({
+      videoId,
+      uploadUrl,
+      storagePath: grant.storagePath,
+      ...(grant.proxyPath ? { proxyPath: grant.proxyPath } : {}),
+      metadataToken: token,
+      expiresAt,
+    })
+  } catch (error) {
+    console.error('Error initiating upload:', error)
+    res.status(500).json({ message: 'Internal server error' })
+  }
+}
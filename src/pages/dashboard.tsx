@@ -4,7 +4,19 @@ import Head from 'next/head';
 import Link from 'next/link';
 import { collection, query, where, getDocs, orderBy, doc, deleteDoc, addDoc, updateDoc, serverTimestamp } from 'firebase/firestore';
 import { useAuth } from '../contexts/AuthContext';
+import { usePlan } from '../contexts/PlanContext';
+import { planWithEntitlement } from '../lib/plans';
 import { db } from '../lib/firebase';
+import { VideoStatus, VideoProcessing, getVideoStatus, getVideoStatusText } from '../lib/videoStatus';
+import { getDurationSec } from '../lib/techMeta';
+import { formatTime } from '../lib/thumbnails';
+import { PosterSet } from '../lib/posters';
+import { PosterImage } from '../components/PosterImage';
+import { Storyboard } from '../lib/storyboard';
+import { StoryboardHoverPreview } from '../components/StoryboardHoverPreview';
+import { UsageMeters } from '../components/UsageMeters';
+import { recordVideoShare } from '../lib/videoApi';
+import { fetchOwnerDailyStats, lastDays, sumDailyStats } from '../lib/analyticsRollups';
 
 // Video type from Data Model
 interface Video {
@@ -15,7 +27,12 @@ interface Video {
   tags: string[];
   collaborators: { uid: string; role: string }[];
   techMeta: { camera?: string; lenses?: string; location?: string; durationSec?: number };
+  techMetaDetected?: { durationSec?: number };
   playback: { provider: string; id: string; posterUrl?: string; mp4Url?: string };
+  posters?: PosterSet;
+  storyboard?: Storyboard;
+  status?: VideoStatus;
+  processing?: VideoProcessing;
   visibility: 'public' | 'private' | 'unlisted';
   folderId?: string; // Optional folder assignment
   createdAt: any;
@@ -34,6 +51,7 @@ interface Folder {
 export default function DashboardPage() {
   const router = useRouter();
   const { user, profile, loading: authLoading } = useAuth();
+  const { hasEntitlement } = usePlan();
   const [videos, setVideos] = useState<Video[]>([]);
   const [folders, setFolders] = useState<Folder[]>([]);
   const [loading, setLoading] = useState(true);
@@ -45,6 +63,7 @@ export default function DashboardPage() {
   const [draggedVideo, setDraggedVideo] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedTag, setSelectedTag] = useState<string>('');
+  const [recentViews, setRecentViews] = useState<number | null>(null);
 
   // Redirect if not authenticated
   useEffect(() => {
@@ -61,6 +80,17 @@ export default function DashboardPage() {
     }
   }, [user, profile, authLoading, router]);
 
+  // Views across all videos over the last 30 days, from the daily rollups
+  useEffect(() => {
+    if (!user) return;
+
+    fetchOwnerDailyStats(user.uid, lastDays(30))
+      .then((days) => setRecentViews(sumDailyStats(days).views))
+      .catch((error) => {
+        console.error('Error fetching view stats:', error);
+      });
+  }, [user]);
+
   // Fetch user's videos
   useEffect(() => {
     if (!user) return;
@@ -182,8 +212,7 @@ export default function DashboardPage() {
     totalVideos: videos.length,
     publicVideos: videos.filter(v => v.visibility === 'public').length,
     privateVideos: videos.filter(v => v.visibility === 'private').length,
-    unlistedVideos: videos.filter(v => v.visibility === 'unlisted').length,
-    totalViews: videos.reduce((sum, v) => sum + (v.techMeta?.durationSec || 0), 0) // Placeholder for actual view counts
+    unlistedVideos: videos.filter(v => v.visibility === 'unlisted').length
   };
 
   const handleEditVideo = (videoId: string) => {
@@ -201,6 +230,7 @@ export default function DashboardPage() {
   const handleDeleteVideo = async (videoId: string, videoTitle: string) => {
     if (window.confirm(`Are you sure you want to delete "${videoTitle}"? This action cannot be undone.`)) {
       try {
+        // Its files are removed and storage usage recounted by Cloud Functions
         await deleteDoc(doc(db, 'videos', videoId));
         // Refresh the videos list
         setVideos(videos.filter(v => v.id !== videoId));
@@ -215,21 +245,16 @@ export default function DashboardPage() {
     try {
       await navigator.clipboard.writeText(text);
       
-      // Track the share event
-      const shareData = {
-        videoId,
-        sharedBy: user?.uid || 'anonymous',
-        timestamp: serverTimestamp(),
-        platform: type,
-        method: 'copy'
-      };
-      
-      await addDoc(collection(db, 'videoShares'), shareData);
-      console.log('Share tracked:', type, 'for video:', videoId);
+      // Track the share event; the copy worked even if tracking doesn't
+      if (user) {
+        recordVideoShare(user, videoId, type).catch((error) => {
+          console.error('Error tracking share:', error);
+        });
+      }
       
       alert(`${type === 'link' ? 'Link' : 'Embed code'} copied to clipboard!`);
     } catch (error) {
-      console.error('Error copying to clipboard or tracking share:', error);
+      console.error('Error copying to clipboard:', error);
       alert('Failed to copy. Please try again.');
     }
   };
@@ -330,6 +355,20 @@ export default function DashboardPage() {
               <span className="stat-number">{folders.length}</span>
               <span className="stat-label">Folders</span>
             </div>
+            {recentViews !== null && (
+              <div className="sidebar-stat">
+                <span className="stat-number">{recentViews.toLocaleString()}</span>
+                <span className="stat-label">Views (30 days)</span>
+              </div>
+            )}
+          </div>
+
+          {/* Plan Usage */}
+          <div style={{ marginBottom: 'var(--space-6)' }}>
+            <UsageMeters uid={user.uid} />
+            <Link href="/settings/billing" className="usage-meters__link">
+              Manage plan and billing
+            </Link>
           </div>
 
           {/* Folders List */}
@@ -541,19 +580,28 @@ export default function DashboardPage() {
                   {filteredVideos.map((video) => (
                     <div 
                       key={video.id} 
-                      className="dashboard-video-card"
+                      className={`dashboard-video-card${video.storyboard ? ' dashboard-video-card--scrubbable' : ''}`}
                       draggable
                       onDragStart={() => handleDragStart(video.id)}
                     >
                       <Link href={`/video/${video.id}`} style={{ textDecoration: 'none', color: 'inherit' }}>
                         <div className="video-thumbnail" style={{ cursor: 'pointer' }}>
                           {video.playback?.posterUrl ? (
-                            <img src={video.playback.posterUrl} alt={video.title} />
+                            <PosterImage posterUrl={video.playback.posterUrl} posters={video.posters} alt={video.title} />
                           ) : (
                             <div className="thumbnail-placeholder">
-                              <div className="play-icon">🎬</div>
+                              <div className="play-icon">{getVideoStatus(video) === 'ready' ? '🎬' : '⏳'}</div>
                             </div>
                           )}
+                          {video.storyboard && <StoryboardHoverPreview storyboard={video.storyboard} />}
+                          {getVideoStatus(video) !== 'ready' && (
+                            <span
+                              className={`video-status-badge video-status-badge--${getVideoStatus(video)}`}
+                              title={video.processing?.failureReason}
+                            >
+                              {getVideoStatusText(getVideoStatus(video))}
+                            </span>
+                          )}
                         </div>
                       </Link>
                       <div className="video-overlay">
@@ -600,9 +648,9 @@ export default function DashboardPage() {
                           {video.techMeta?.camera && (
                             <span className="meta-item">{video.techMeta.camera}</span>
                           )}
-                          {video.techMeta?.durationSec && (
+                          {getDurationSec(video) && (
                             <span className="meta-item">
-                              {Math.floor(video.techMeta.durationSec / 60)}:{(video.techMeta.durationSec % 60).toString().padStart(2, '0')}
+                              {formatTime(getDurationSec(video)!)}
                             </span>
                           )}
                         </div>
@@ -665,7 +713,7 @@ export default function DashboardPage() {
               </div>
             </div>
 
-            {shareModalVideo.visibility === 'public' && (
+            {shareModalVideo.visibility === 'public' || hasEntitlement('privateEmbeds') ? (
               <div style={{ marginBottom: 'var(--space-4)' }}>
                 <label style={{ display: 'block', marginBottom: 'var(--space-2)', fontWeight: 500 }}>
                   Embed Code
@@ -685,6 +733,11 @@ export default function DashboardPage() {
                   Copy Embed Code
                 </button>
               </div>
+            ) : (
+              <div className="plan-upsell" style={{ marginBottom: 'var(--space-4)' }}>
+                Embedding {shareModalVideo.visibility} videos needs the {planWithEntitlement('privateEmbeds').name} plan.{' '}
+                <Link href="/#pricing">See plans</Link>
+              </div>
             )}
 
             <div style={{ display: 'flex', gap: 'var(--space-3)', justifyContent: 'flex-end' }}>
@@ -4,6 +4,12 @@ import Link from 'next/link';
 import { collection, query, where, getDocs, orderBy, limit, or } from 'firebase/firestore';
 import { db } from '../lib/firebase';
 import { UserProfile } from '../lib/auth';
+import { getDurationSec } from '../lib/techMeta';
+import { formatTime } from '../lib/thumbnails';
+import { PosterSet } from '../lib/posters';
+import { PosterImage } from '../components/PosterImage';
+import { Storyboard } from '../lib/storyboard';
+import { StoryboardHoverPreview } from '../components/StoryboardHoverPreview';
 
 const FILM_ROLES = [
   'Cinematographer',
@@ -48,7 +54,10 @@ interface Video {
   description: string;
   tags: string[];
   techMeta: { camera?: string; lenses?: string; location?: string; durationSec?: number };
+  techMetaDetected?: { durationSec?: number };
   playback: { posterUrl?: string };
+  posters?: PosterSet;
+  storyboard?: Storyboard;
   visibility: string;
   createdAt: any;
 }
@@ -562,16 +571,17 @@ export default function DiscoverPage() {
                     <div className="video-card" style={{ cursor: 'pointer' }}>
                       <div className="video-thumbnail">
                         {video.playback?.posterUrl ? (
-                          <img src={video.playback.posterUrl} alt={video.title} style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+                          <PosterImage posterUrl={video.playback.posterUrl} posters={video.posters} alt={video.title} style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
                         ) : (
                           <div className="play-icon">🎬</div>
                         )}
+                        {video.storyboard && <StoryboardHoverPreview storyboard={video.storyboard} />}
                       </div>
                       <div className="video-info">
                         <h4>{video.title}</h4>
                         <p>
                           {video.techMeta?.camera && `${video.techMeta.camera} • `}
-                          {video.techMeta?.durationSec && `${Math.floor(video.techMeta.durationSec / 60)}:${(video.techMeta.durationSec % 60).toString().padStart(2, '0')}`}
+                          {getDurationSec(video) && formatTime(getDurationSec(video)!)}
                         </p>
                         <div className="video-tags">
                           {video.tags.slice(0, 3).map((tag) => (
@@ -4,7 +4,10 @@ import Head from 'next/head';
 import Link from 'next/link';
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
 import { useAuth } from '../contexts/AuthContext';
+import { usePlan } from '../contexts/PlanContext';
 import { updateUserProfile } from '../lib/auth';
+import { isValidCustomDomain, normalizeCustomDomain, saveCustomDomain } from '../lib/customDomain';
+import { planWithEntitlement } from '../lib/plans';
 import { storage } from '../lib/firebase';
 
 const FILM_ROLES = [
@@ -24,6 +27,7 @@ const FILM_ROLES = [
 export default function EditProfilePage() {
   const router = useRouter();
   const { user, profile, loading: authLoading, refreshProfile } = useAuth();
+  const { hasEntitlement } = usePlan();
   
   // Form state
   const [displayName, setDisplayName] = useState('');
@@ -31,6 +35,7 @@ export default function EditProfilePage() {
   const [bio, setBio] = useState('');
   const [location, setLocation] = useState('');
   const [website, setWebsite] = useState('');
+  const [customDomain, setCustomDomain] = useState('');
   const [skills, setSkills] = useState<string[]>([]);
   const [links, setLinks] = useState<{ label: string; url: string }[]>([]);
   const [visibility, setVisibility] = useState<'public' | 'private' | 'unlisted'>('public');
@@ -76,6 +81,7 @@ export default function EditProfilePage() {
       setBio(profile.bio || '');
       setLocation(profile.location || '');
       setWebsite(profile.website || '');
+      setCustomDomain(profile.customDomain || '');
       setSkills(profile.skills || []);
       setLinks(profile.links || []);
       setVisibility(profile.visibility || 'public');
@@ -149,7 +155,24 @@ export default function EditProfilePage() {
     setError('');
     setSuccess('');
 
+    const domain = normalizeCustomDomain(customDomain);
+    if (domain && !isValidCustomDomain(domain)) {
+      setError('Enter a custom domain like portfolio.example.com');
+      setLoading(false);
+      return;
+    }
+
     try {
+      // Saved through the API, which checks the plan includes custom domains
+      if (domain !== (profile.customDomain || '')) {
+        try {
+          await saveCustomDomain(user, domain);
+        } catch (domainError: any) {
+          setError(domainError.message);
+          return;
+        }
+      }
+
       let avatarUrl = profile.avatarUrl;
       
       // Upload avatar if a new one was selected
@@ -389,6 +412,28 @@ export default function EditProfilePage() {
                   />
                 </div>
 
+                <div style={{ marginBottom: 'var(--space-4)' }}>
+                  <label htmlFor="customDomain" style={{ display: 'block', marginBottom: 'var(--space-2)' }}>
+                    Custom Domain
+                  </label>
+                  <input
+                    id="customDomain"
+                    type="text"
+                    value={customDomain}
+                    onChange={(e) => setCustomDomain(e.target.value)}
+                    className="input"
+                    placeholder="portfolio.yourwebsite.com"
+                    // A domain kept from a higher plan can still be cleared
+                    disabled={!hasEntitlement('customDomain') && !profile.customDomain}
+                  />
+                  {!hasEntitlement('customDomain') && (
+                    <div className="plan-upsell" style={{ marginTop: 'var(--space-2)' }}>
+                      Serve your portfolio from your own domain with the {planWithEntitlement('customDomain').name} plan.{' '}
+                      <Link href="/#pricing">See plans</Link>
+                    </div>
+                  )}
+                </div>
+
                 <div>
                   <label htmlFor="bio" style={{ display: 'block', marginBottom: 'var(--space-2)' }}>
                     Bio
@@ -1,8 +1,13 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/router';
 import Head from 'next/head';
-import { doc, getDoc } from 'firebase/firestore';
+import { doc, onSnapshot } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
+import { VideoStatus, VideoProcessing, getVideoStatus } from '../../lib/videoStatus';
+import { VideoStatusPanel } from '../../components/VideoStatusPanel';
+import { VideoPlayer } from '../../components/VideoPlayer';
+import { PosterSet, getPosterUrl } from '../../lib/posters';
+import { trackPlayback } from '../../lib/playbackAnalytics';
 
 interface Video {
   id: string;
@@ -10,7 +15,10 @@ interface Video {
   title: string;
   description: string;
   storage: { downloadURL?: string };
-  playback: { posterUrl?: string; mp4Url?: string };
+  playback: { posterUrl?: string; mp4Url?: string; hlsUrl?: string };
+  posters?: PosterSet;
+  status?: VideoStatus;
+  processing?: VideoProcessing;
   visibility: 'public' | 'private' | 'unlisted';
 }
 
@@ -20,28 +28,23 @@ export default function EmbedPage() {
   const [video, setVideo] = useState<Video | null>(null);
   const [loading, setLoading] = useState(true);
   const [notFound, setNotFound] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
 
   useEffect(() => {
     if (!id || typeof id !== 'string') return;
 
     const fetchVideo = async () => {
       try {
-        const videoDoc = await getDoc(doc(db, 'videos', id));
+        // The API decides what may be embedded: public videos, plus unlisted and
+        // private ones when the owner's plan includes private embeds
+        const response = await fetch(`/api/videos/${encodeURIComponent(id)}/embed`);
         
-        if (!videoDoc.exists()) {
+        if (!response.ok) {
           setNotFound(true);
           return;
         }
 
-        const videoData = { id: videoDoc.id, ...videoDoc.data() } as Video;
-        
-        // Only allow embedding public videos
-        if (videoData.visibility !== 'public') {
-          setNotFound(true);
-          return;
-        }
-
-        setVideo(videoData);
+        setVideo(await response.json() as Video);
         
       } catch (error) {
         console.error('Error fetching video:', error);
@@ -54,6 +57,30 @@ export default function EmbedPage() {
     fetchVideo();
   }, [id]);
 
+  // Watch for processing updates until the video becomes playable. Only public
+  // videos can be read from the client.
+  const videoStatus = video ? getVideoStatus(video) : null;
+  useEffect(() => {
+    if (!video || video.visibility !== 'public' || videoStatus === 'ready' || videoStatus === 'failed') return;
+
+    const unsubscribe = onSnapshot(doc(db, 'videos', video.id), (snapshot) => {
+      if (snapshot.exists()) {
+        setVideo({ id: snapshot.id, ...snapshot.data() } as Video);
+      }
+    }, (error) => {
+      console.error('Error watching video status:', error);
+    });
+
+    return unsubscribe;
+  }, [video?.id, video?.visibility, videoStatus]);
+
+  // Plays inside another site's page, so every session counts as an embed view
+  useEffect(() => {
+    if (!video?.id || videoStatus !== 'ready' || !videoRef.current) return;
+
+    return trackPlayback(videoRef.current, { videoId: video.id, source: 'embed' });
+  }, [video?.id, videoStatus, loading]);
+
   if (loading) {
     return (
       <div style={{ 
@@ -89,7 +116,8 @@ export default function EmbedPage() {
     );
   }
 
-  const videoUrl = video.playback?.mp4Url || video.storage?.downloadURL;
+  const status = getVideoStatus(video);
+  const videoUrl = status === 'ready' ? video.playback?.mp4Url || video.storage?.downloadURL : undefined;
 
   return (
     <>
@@ -111,27 +139,24 @@ export default function EmbedPage() {
         position: 'relative'
       }}>
         {videoUrl ? (
-          <video
+          <VideoPlayer
+            ref={videoRef}
+            hlsUrl={video.playback?.hlsUrl}
+            mp4Url={videoUrl}
             controls
+            playsInline
             autoPlay={false}
-            poster={video.playback?.posterUrl}
+            poster={getPosterUrl(video, 1280)}
             style={{ 
               width: '100%', 
               height: '100%',
               objectFit: 'contain'
             }}
           >
-            <source src={videoUrl} type="video/mp4" />
             Your browser does not support the video tag.
-          </video>
+          </VideoPlayer>
         ) : (
-          <div style={{ 
-            color: 'white',
-            textAlign: 'center',
-            fontSize: '18px'
-          }}>
-            Video processing...
-          </div>
+          <VideoStatusPanel status={status === 'ready' ? 'processing' : status} />
         )}
 
         {/* Folio Branding (small, bottom right) */}
@@ -1,43 +1,38 @@
 import Head from 'next/head'
+import Link from 'next/link'
 import { useState } from 'react'
 import { useAuth } from '../contexts/AuthContext'
 import { Hero } from '../components/Hero'
 import { Features } from '../components/Features'
 import { ClientLogos } from '../components/ClientLogos'
+import { PLANS, PLAN_IDS, PlanId } from '../lib/plans'
+import { createCheckoutSession, redirectToCheckout } from '../lib/stripe'
 
 export default function HomePage() {
-  const [loading, setLoading] = useState(false)
+  // The plan whose checkout is being created
+  const [loadingPlan, setLoadingPlan] = useState<PlanId | null>(null)
   const { user } = useAuth()
 
-  const handleSubscribe = async () => {
+  const handleSubscribe = async (planId: PlanId) => {
     if (!user) {
       // Redirect to sign in if not authenticated
       window.location.href = '/signin?redirect=subscribe'
       return
     }
 
-    setLoading(true)
+    setLoadingPlan(planId)
     try {
-      const token = await user.getIdToken()
-      const response = await fetch('/api/stripe/create-checkout', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      })
-
-      const data = await response.json()
+      const data = await createCheckoutSession(user, planId)
       
       if (data.url) {
-        window.location.href = data.url
+        redirectToCheckout(data.url)
       } else {
         console.error('No checkout URL returned')
       }
     } catch (error) {
       console.error('Error creating checkout session:', error)
     } finally {
-      setLoading(false)
+      setLoadingPlan(null)
     }
   }
   return (
@@ -56,29 +51,37 @@ export default function HomePage() {
               <h2 className="section-title">Simple, transparent pricing</h2>
               <p className="section-subtitle">Everything you need to showcase your work professionally. Cancel anytime.</p>
             </div>
-            <div className="pricing-grid" style={{ justifyContent: 'center' }}>
-              <div className="pricing-card pricing-card--featured" style={{ maxWidth: '400px' }}>
-                <div className="pricing-badge">Professional Plan</div>
-                <h3 className="pricing-title">Folio Pro</h3>
-                <div className="pricing-price">$50<span>/month</span></div>
-                <ul className="pricing-features">
-                  <li>Unlimited video uploads</li>
-                  <li>Professional portfolio</li>
-                  <li>4K streaming quality</li>
-                  <li>Automatic credit detection</li>
-                  <li>Advanced analytics</li>
-                  <li>Custom branding</li>
-                  <li>Priority support</li>
-                  <li>Collaboration tools</li>
-                </ul>
-                <button 
-                  className="btn btn--primary pricing-btn" 
-                  onClick={handleSubscribe}
-                  disabled={loading}
-                >
-                  {loading ? 'Processing...' : 'Subscribe Now'}
-                </button>
-              </div>
+            <div className="pricing-grid">
+              {PLAN_IDS.map((planId) => {
+                const plan = PLANS[planId]
+                const featured = planId === 'pro'
+                return (
+                  <div key={planId} className={`pricing-card${featured ? ' pricing-card--featured' : ''}`}>
+                    {featured && <div className="pricing-badge">Most Popular</div>}
+                    <h3 className="pricing-title">Folio {plan.name}</h3>
+                    <p className="pricing-description">{plan.description}</p>
+                    <div className="pricing-price">${plan.priceMonthly}<span>/month</span></div>
+                    <ul className="pricing-features">
+                      {plan.highlights.map((highlight) => (
+                        <li key={highlight}>{highlight}</li>
+                      ))}
+                    </ul>
+                    {plan.priceMonthly === 0 ? (
+                      <Link href={user ? '/dashboard' : '/signup'} className="btn btn--secondary pricing-btn">
+                        {user ? 'Go to Dashboard' : 'Get Started'}
+                      </Link>
+                    ) : (
+                      <button 
+                        className={`btn ${featured ? 'btn--primary' : 'btn--secondary'} pricing-btn`}
+                        onClick={() => handleSubscribe(planId)}
+                        disabled={loadingPlan !== null}
+                      >
+                        {loadingPlan === planId ? 'Processing...' : `Subscribe to ${plan.name}`}
+                      </button>
+                    )}
+                  </div>
+                )
+              })}
             </div>
           </div>
         </section>
@@ -5,6 +5,10 @@ import Link from 'next/link';
 import { collection, query, where, getDocs, orderBy, limit } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
 import { UserProfile, updateUserProfile } from '../../lib/auth';
+import { getDurationSec } from '../../lib/techMeta';
+import { formatTime } from '../../lib/thumbnails';
+import { PosterSet } from '../../lib/posters';
+import { PosterImage } from '../../components/PosterImage';
 import { useAuth } from '../../contexts/AuthContext';
 
 // Types based on docs/Data-Model.md
@@ -16,7 +20,9 @@ interface Video {
   tags: string[];
   collaborators: { uid: string; role: string }[];
   techMeta: { camera?: string; lenses?: string; location?: string; durationSec?: number };
+  techMetaDetected?: { durationSec?: number };
   playback: { provider: string; id: string; posterUrl?: string; mp4Url?: string };
+  posters?: PosterSet;
   visibility: 'public' | 'private' | 'unlisted';
   createdAt: any;
   updatedAt: any;
@@ -481,7 +487,7 @@ export default function ProfilePage() {
                           <div className="video-card" style={{ cursor: 'pointer' }}>
                             <div className="video-thumbnail">
                               {video.playback?.posterUrl ? (
-                                <img src={video.playback.posterUrl} alt={video.title} style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+                                <PosterImage posterUrl={video.playback.posterUrl} posters={video.posters} alt={video.title} style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
                               ) : (
                                 <div className="play-icon">🎬</div>
                               )}
@@ -490,7 +496,7 @@ export default function ProfilePage() {
                               <h4>{video.title}</h4>
                               <p>
                                 {video.techMeta?.camera && `${video.techMeta.camera} • `}
-                                {video.techMeta?.durationSec && `${Math.floor(video.techMeta.durationSec / 60)}:${(video.techMeta.durationSec % 60).toString().padStart(2, '0')}`}
+                                {getDurationSec(video) && formatTime(getDurationSec(video)!)}
                               </p>
                               <div className="video-tags">
                                 {video.tags.map((tag) => (
@@ -0,0 +1,243 @@
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useAuth } from '../../contexts/AuthContext';
+import { PLANS } from '../../lib/plans';
+import {
+  BillingDetails,
+  Invoice,
+  PaymentMethodStatus,
+  formatAmount,
+  getPaymentMethodStatus,
+  subscribeToBilling,
+  subscribeToInvoices
+} from '../../lib/billing';
+import {
+  SubscriptionStatus,
+  createPortalSession,
+  getSubscriptionStatusColor,
+  getSubscriptionStatusText
+} from '../../lib/stripe';
+
+const STATUS_BADGES: Record<string, string> = {
+  green: 'badge--success',
+  orange: 'badge--warning',
+  red: 'badge--danger'
+};
+
+const PAYMENT_METHOD_MESSAGES: Record<PaymentMethodStatus, string> = {
+  ok: 'Your card is up to date.',
+  expiring: 'Your card expires this month. Update it to avoid an interrupted subscription.',
+  expired: 'Your card has expired. Update it before your next renewal.',
+  failed: 'Your last payment failed. Update your card to keep your plan.',
+  missing: 'No card on file.'
+};
+
+const INVOICE_STATUS_TEXT: Record<string, string> = {
+  draft: 'Draft',
+  open: 'Due',
+  paid: 'Paid',
+  uncollectible: 'Uncollectible',
+  void: 'Void'
+};
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+export default function BillingSettingsPage() {
+  const router = useRouter();
+  const { user, loading: authLoading } = useAuth();
+
+  const [billing, setBilling] = useState<BillingDetails | null>(null);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [openingPortal, setOpeningPortal] = useState(false);
+  const [error, setError] = useState('');
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (authLoading) return;
+    
+    if (!user) {
+      router.push('/signin');
+    }
+  }, [user, authLoading, router]);
+
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToBilling(user.uid, setBilling);
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToInvoices(user.uid, setInvoices);
+  }, [user]);
+
+  const handleManageBilling = async () => {
+    if (!user) return;
+
+    setOpeningPortal(true);
+    setError('');
+    try {
+      const { url } = await createPortalSession(user);
+      window.location.href = url;
+    } catch (error: any) {
+      console.error('Error opening billing portal:', error);
+      setError(error.message || 'Failed to open billing portal');
+      setOpeningPortal(false);
+    }
+  };
+
+  if (authLoading || !user || !billing) {
+    return (
+      <div style={{ minHeight: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+        <div>Loading...</div>
+      </div>
+    );
+  }
+
+  const plan = PLANS[billing.planId];
+  const status = (billing.subscriptionStatus || 'inactive') as SubscriptionStatus;
+  const paymentMethodStatus = getPaymentMethodStatus(billing, invoices[0]);
+
+  return (
+    <>
+      <Head>
+        <title>Billing - Folio</title>
+        <meta name="description" content="Manage your Folio plan, payment method and invoices" />
+      </Head>
+      
+      <div className="container" style={{ maxWidth: '720px', paddingTop: 'var(--space-8)' }}>
+        <div style={{ marginBottom: 'var(--space-6)' }}>
+          <h1>Billing</h1>
+          <p style={{ color: 'var(--text-secondary)' }}>Your plan, payment method and invoices.</p>
+        </div>
+
+        {error && (
+          <div style={{ 
+            background: 'color-mix(in srgb, var(--danger), transparent 90%)', 
+            border: '1px solid color-mix(in srgb, var(--danger), #000 10%)',
+            borderRadius: 'var(--radius-sm)',
+            padding: 'var(--space-4)',
+            marginBottom: 'var(--space-6)',
+            color: 'var(--danger)'
+          }}>
+            {error}
+          </div>
+        )}
+
+        {/* Plan */}
+        <div className="card billing-section">
+          <div className="billing-section__header">
+            <h2>{plan.name} plan</h2>
+            {billing.hasCustomer && (
+              <span className={`badge ${STATUS_BADGES[getSubscriptionStatusColor(status)] || ''}`}>
+                {getSubscriptionStatusText(status)}
+              </span>
+            )}
+          </div>
+          <p className="billing-section__detail">
+            {plan.priceMonthly > 0 ? `$${plan.priceMonthly}/month` : 'Free'} · {plan.description}
+          </p>
+          {billing.subscriptionStatus === 'trialing' && billing.trialEnd && (
+            <p className="billing-section__detail">
+              Your free trial ends on {formatDate(billing.trialEnd)}.
+            </p>
+          )}
+          {billing.graceUntil && (
+            <p className="billing-section__detail billing-section__detail--warning">
+              {billing.graceUntil > new Date()
+                ? `Your last payment failed. Update your card by ${formatDate(billing.graceUntil)} to keep the ${plan.name} plan.`
+                : 'Your last payment failed and your plan has reverted to Free. Update your card to restore it.'}
+            </p>
+          )}
+          {billing.currentPeriodEnd && billing.planId !== 'free' && !billing.graceUntil && (
+            <p className="billing-section__detail">
+              {billing.cancelAtPeriodEnd
+                ? `Cancels on ${formatDate(billing.currentPeriodEnd)}. You keep ${plan.name} features until then.`
+                : `Renews on ${formatDate(billing.currentPeriodEnd)}.`}
+            </p>
+          )}
+          <div className="billing-section__actions">
+            {billing.hasCustomer ? (
+              <button onClick={handleManageBilling} className="btn btn--primary" disabled={openingPortal}>
+                {openingPortal ? 'Opening...' : 'Change plan or cancel'}
+              </button>
+            ) : (
+              <Link href="/#pricing" className="btn btn--primary">
+                Choose a plan
+              </Link>
+            )}
+          </div>
+        </div>
+
+        {/* Payment method */}
+        <div className="card billing-section">
+          <div className="billing-section__header">
+            <h2>Payment method</h2>
+            {billing.hasCustomer && paymentMethodStatus !== 'ok' && (
+              <span className={`badge ${paymentMethodStatus === 'expiring' ? 'badge--warning' : 'badge--danger'}`}>
+                {paymentMethodStatus === 'missing' ? 'Missing' : paymentMethodStatus === 'expiring' ? 'Expiring' : 'Action needed'}
+              </span>
+            )}
+          </div>
+          {billing.paymentMethod && (
+            <p className="billing-section__detail billing-card">
+              <span className="billing-card__brand">{billing.paymentMethod.brand}</span>
+              •••• {billing.paymentMethod.last4} · Expires {String(billing.paymentMethod.expMonth).padStart(2, '0')}/{billing.paymentMethod.expYear}
+            </p>
+          )}
+          <p className="billing-section__detail">
+            {billing.hasCustomer ? PAYMENT_METHOD_MESSAGES[paymentMethodStatus] : 'You will add a card when you subscribe.'}
+          </p>
+          {billing.hasCustomer && (
+            <div className="billing-section__actions">
+              <button onClick={handleManageBilling} className="btn btn--secondary" disabled={openingPortal}>
+                Update card
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Invoices */}
+        <div className="card billing-section">
+          <div className="billing-section__header">
+            <h2>Invoices</h2>
+          </div>
+          {invoices.length === 0 ? (
+            <p className="billing-section__detail">No invoices yet.</p>
+          ) : (
+            <table className="billing-invoices">
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th>Invoice</th>
+                  <th>Amount</th>
+                  <th>Status</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {invoices.map((invoice) => (
+                  <tr key={invoice.id}>
+                    <td>{formatDate(invoice.created)}</td>
+                    <td>{invoice.number || '—'}</td>
+                    <td>{formatAmount(invoice.status === 'paid' ? invoice.amountPaid : invoice.amountDue, invoice.currency)}</td>
+                    <td>{(invoice.status && INVOICE_STATUS_TEXT[invoice.status]) || '—'}</td>
+                    <td>
+                      {(invoice.hostedInvoiceUrl || invoice.invoicePdf) && (
+                        <a href={(invoice.hostedInvoiceUrl || invoice.invoicePdf)!} target="_blank" rel="noopener noreferrer">
+                          {invoice.status === 'open' ? 'Pay' : 'View'}
+                        </a>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -2,10 +2,20 @@ import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/router';
 import Head from 'next/head';
 import Link from 'next/link';
-import { ref, uploadBytesResumable, getDownloadURL } from 'firebase/storage';
-import { collection, addDoc, serverTimestamp } from 'firebase/firestore';
+import { doc, updateDoc } from 'firebase/firestore';
+import { getDownloadURL, ref, uploadBytes } from 'firebase/storage';
 import { useAuth } from '../contexts/AuthContext';
-import { storage, db } from '../lib/firebase';
+import { useUploads } from '../contexts/UploadContext';
+import { usePlan } from '../contexts/PlanContext';
+import { UploadBatchItem, BatchUploadFile, Visibility } from '../components/UploadBatchItem';
+import { db, storage } from '../lib/firebase';
+import { captureLocalPoster, createProxy, inspectVideoFile } from '../lib/localMedia';
+import { TechMeta, prefillTechMeta } from '../lib/techMeta';
+import { findVideoByContentHash, sha256File } from '../lib/contentHash';
+import { beginMediaReplacement } from '../lib/mediaVersions';
+import { UploadTarget, videoContentType } from '../lib/uploads';
+import { GB } from '../lib/plans';
+import { CreateVideoRequest, createVideoRecord, initiateVideoUpload, isUserFacingError } from '../lib/videoApi';
 
 const CAMERA_OPTIONS = [
   'Arri Alexa Mini',
@@ -32,29 +42,55 @@ const PROJECT_TYPES = [
   'Other'
 ];
 
+const titleFromFileName = (fileName: string) => {
+  const baseName = fileName.includes('.') ? fileName.slice(0, fileName.lastIndexOf('.')) : fileName;
+  return baseName.replace(/[-_]/g, ' ').slice(0, 100);
+};
+
+// Grab the preview frame a little way in, past any black lead-in
+const previewTimestamp = (durationSec?: number) => durationSec ? Math.min(durationSec * 0.1, 10) : 0;
+
 export default function UploadPage() {
   const router = useRouter();
   const { user, profile, loading: authLoading } = useAuth();
+  const { uploads, startUpload } = useUploads();
+  // The API and the Storage rules enforce the same limit
+  const { plan } = usePlan();
+  const { maxUploadGb } = plan.entitlements;
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const inspectingRef = useRef(new Set<string>());
+  const previewUrlsRef = useRef<string[]>([]);
+  const hashesRef = useRef(new Map<string, Promise<string | undefined>>());
   
-  // Form state
-  const [file, setFile] = useState<File | null>(null);
-  const [title, setTitle] = useState('');
-  const [description, setDescription] = useState('');
+  // Files in this batch, each with its own title and optional overrides
+  const [files, setFiles] = useState<BatchUploadFile[]>([]);
+  const [dragActive, setDragActive] = useState(false);
+
+  // Shared fields applied to every file in the batch
+  const [folder, setFolder] = useState('');
   const [tags, setTags] = useState<string[]>([]);
   const [newTag, setNewTag] = useState('');
   const [camera, setCamera] = useState('');
   const [lenses, setLenses] = useState('');
   const [location, setLocation] = useState('');
   const [collaborators, setCollaborators] = useState<{ name: string; role: string }[]>([]);
-  const [visibility, setVisibility] = useState<'public' | 'private' | 'unlisted'>('public');
+  const [visibility, setVisibility] = useState<Visibility>('public');
   
-  // Upload state
-  const [uploading, setUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
+  // Upload state - uploads run in the upload manager so they survive navigation and reloads
+  const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
 
+  const updateFile = (key: string, patch: Partial<BatchUploadFile>) => {
+    setFiles(current => current.map(item => item.key === key ? { ...item, ...patch } : item));
+  };
+
+  const findUpload = (id?: string) => id ? uploads.find(u => u.id === id) : undefined;
+  const pendingFiles = files.filter(item => !item.uploadId);
+  const allComplete = files.length > 0 && files.every(item =>
+    findUpload(item.uploadId)?.status === 'complete' &&
+    (!item.proxyUploadId || findUpload(item.proxyUploadId)?.status === 'complete'));
+
   // Redirect if not authenticated
   useEffect(() => {
     if (authLoading) return;
@@ -70,6 +106,82 @@ export default function UploadPage() {
     }
   }, [user, profile, authLoading, router]);
 
+  useEffect(() => {
+    if (!allComplete) return;
+
+    setSuccess(files.length === 1
+      ? 'Video uploaded! We\'re preparing it for playback.'
+      : `${files.length} videos uploaded! We're preparing them for playback.`);
+
+    // Redirect to dashboard after success
+    const timeout = setTimeout(() => {
+      router.push('/dashboard');
+    }, 2000);
+    return () => clearTimeout(timeout);
+  }, [allComplete, files.length, router]);
+
+  // Read each new file's metadata and a preview frame in the browser. ffmpeg.wasm
+  // works through them one at a time.
+  useEffect(() => {
+    files
+      .filter(item => item.inspection === 'pending' && !inspectingRef.current.has(item.key))
+      .forEach(async (item) => {
+        inspectingRef.current.add(item.key);
+
+        try {
+          const detected = await inspectVideoFile(item.file);
+          updateFile(item.key, { detected });
+
+          try {
+            const previewBlob = await captureLocalPoster(item.file, previewTimestamp(detected.durationSec));
+            const previewUrl = URL.createObjectURL(previewBlob);
+            previewUrlsRef.current.push(previewUrl);
+            updateFile(item.key, { previewBlob, previewUrl });
+          } catch (posterError) {
+            console.warn('Could not grab a preview frame:', posterError);
+          }
+
+          updateFile(item.key, { inspection: 'done' });
+        } catch (inspectError) {
+          // Not fatal: the processing function probes the upload anyway
+          console.warn('Could not read video metadata in the browser:', inspectError);
+          updateFile(item.key, { inspection: 'failed' });
+        }
+      });
+  }, [files]);
+
+  // Hash each new file to spot re-uploads of videos the owner already has.
+  // Submitting waits for any hash still in progress.
+  useEffect(() => {
+    if (!user) return;
+
+    files
+      .filter(item => !hashesRef.current.has(item.key))
+      .forEach((item) => {
+        const hashing = sha256File(item.file, (hashProgress) => updateFile(item.key, { hashProgress }))
+          .then(async (sha256) => {
+            updateFile(item.key, { sha256 });
+            try {
+              const duplicate = await findVideoByContentHash(user.uid, sha256);
+              if (duplicate) updateFile(item.key, { duplicate });
+            } catch (lookupError) {
+              console.warn('Could not check for duplicate uploads:', lookupError);
+            }
+            return sha256;
+          })
+          .catch((hashError) => {
+            console.warn('Could not hash file:', hashError);
+            return undefined;
+          });
+        hashesRef.current.set(item.key, hashing);
+      });
+  }, [files, user]);
+
+  useEffect(() => {
+    const previewUrls = previewUrlsRef.current;
+    return () => previewUrls.forEach(url => URL.revokeObjectURL(url));
+  }, []);
+
   if (authLoading || !user || !profile) {
     return (
       <div style={{ minHeight: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center', background: 'var(--color-bg)' }}>
@@ -78,30 +190,64 @@ export default function UploadPage() {
     );
   }
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (selectedFile) {
-      // Validate file type
-      if (!selectedFile.type.startsWith('video/')) {
-        setError('Please select a video file');
+  const addFiles = (fileList: FileList | null) => {
+    if (!fileList) return;
+
+    const rejected: string[] = [];
+    const added: BatchUploadFile[] = [];
+
+    Array.from(fileList).forEach((selectedFile) => {
+      // Validate file type and size against the plan
+      if (!videoContentType(selectedFile)) {
+        rejected.push(`${selectedFile.name} is not a video file`);
         return;
       }
-      
-      // Validate file size (max 2GB)
-      if (selectedFile.size > 2 * 1024 * 1024 * 1024) {
-        setError('Video must be less than 2GB');
+      if (selectedFile.size > maxUploadGb * GB) {
+        rejected.push(`${selectedFile.name} is larger than ${maxUploadGb}GB, the limit on the ${plan.name} plan`);
         return;
       }
-      
-      setFile(selectedFile);
-      setError('');
-      
-      // Auto-populate title from filename
-      if (!title) {
-        const fileName = selectedFile.name.split('.')[0];
-        setTitle(fileName.replace(/[-_]/g, ' '));
+      if (files.some(item => item.file.name === selectedFile.name && item.file.size === selectedFile.size)) {
+        return;
       }
-    }
+
+      added.push({
+        key: `${selectedFile.name}-${selectedFile.size}-${selectedFile.lastModified}`,
+        file: selectedFile,
+        title: titleFromFileName(selectedFile.name),
+        description: '',
+        extraTags: '',
+        visibility: '',
+        camera: '',
+        inspection: 'pending',
+        proxyMode: 'off'
+      });
+    });
+
+    setFiles(current => [...current, ...added]);
+    setError(rejected.join('. '));
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(e.target.files);
+    e.target.value = '';
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragActive(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragActive(false);
+    addFiles(e.dataTransfer.files);
+  };
+
+  const removeFile = (key: string) => {
+    hashesRef.current.delete(key);
+    const previewUrl = files.find(item => item.key === key)?.previewUrl;
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+    setFiles(current => current.filter(item => item.key !== key));
   };
 
   const addTag = () => {
@@ -129,100 +275,157 @@ export default function UploadPage() {
     setCollaborators(collaborators.filter((_, i) => i !== index));
   };
 
+  // Build the video details for one file from the shared fields and its overrides
+  const buildVideoData = (
+    item: BatchUploadFile,
+    metadataToken: string
+  ): CreateVideoRequest => {
+    const itemTags = item.extraTags.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean);
+    const itemCamera = item.camera || camera;
+
+    // Clean undefined tech metadata values
+    let techMeta: TechMeta = {};
+    if (itemCamera) techMeta.camera = itemCamera;
+    if (lenses) techMeta.lenses = lenses;
+    if (location) techMeta.location = location;
+
+    // Values read from the original file. They describe the master even when only
+    // a proxy is uploaded, so they are kept as the owner's values.
+    if (item.detected) techMeta = prefillTechMeta(techMeta, item.detected);
+
+    return {
+      metadataToken,
+      title: item.title.trim(),
+      description: item.description.trim(),
+      tags: Array.from(new Set([...tags.filter(tag => tag.trim()), ...itemTags])),
+      ...(folder.trim() ? { folder: folder.trim() } : {}),
+      collaborators,
+      techMeta,
+      visibility: item.visibility || visibility
+    };
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!file) {
-      setError('Please select a video file');
+    if (pendingFiles.length === 0) {
+      setError('Please select at least one video file');
       return;
     }
 
-    if (!title.trim()) {
-      setError('Please enter a title');
+    if (pendingFiles.some(item => !item.replaceVideoId && !item.title.trim())) {
+      setError('Please enter a title for every video');
       return;
     }
 
-    setUploading(true);
+    setSubmitting(true);
     setError('');
-    setUploadProgress(0);
 
-    try {
-      // Create storage reference
-      const fileExtension = file.name.split('.').pop();
-      const fileName = `${Date.now()}.${fileExtension}`;
-      const storageRef = ref(storage, `uploads/${user.uid}/${fileName}`);
-      
-      // Start upload with progress tracking
-      const uploadTask = uploadBytesResumable(storageRef, file);
-      
-      uploadTask.on('state_changed', 
-        (snapshot) => {
-          const progress = (snapshot.bytesTransferred / snapshot.totalBytes) * 100;
-          setUploadProgress(Math.round(progress));
-        },
-        (error) => {
-          console.error('Upload error:', error);
-          setError('Upload failed. Please try again.');
-          setUploading(false);
-        },
-        async () => {
-          try {
-            // Upload completed, get download URL
-            const downloadURL = await getDownloadURL(uploadTask.snapshot.ref);
-            
-            // Create video document in Firestore (clean undefined values)
-            const techMeta: any = {};
-            if (camera) techMeta.camera = camera;
-            if (lenses) techMeta.lenses = lenses;
-            if (location) techMeta.location = location;
-            
-            const videoData = {
-              ownerUid: user.uid,
-              title: title.trim(),
-              description: description.trim(),
-              tags: tags.filter(tag => tag.trim()),
-              collaborators: collaborators
-                .filter(c => c.name.trim() && c.role.trim())
-                .map(c => ({ uid: '', role: c.role.trim(), name: c.name.trim() })),
-              techMeta,
-              storage: {
-                path: `uploads/${user.uid}/${fileName}`,
-                sizeBytes: file.size,
-                downloadURL
-              },
-              playback: {
-                provider: 'native',
-                id: fileName,
-                mp4Url: downloadURL
-              },
-              visibility,
-              createdAt: serverTimestamp(),
-              updatedAt: serverTimestamp()
-            };
-
-            await addDoc(collection(db, 'videos'), videoData);
-            
-            setSuccess('Video uploaded successfully!');
-            
-            // Redirect to dashboard after success
-            setTimeout(() => {
-              router.push('/dashboard');
-            }, 2000);
-            
-          } catch (error) {
-            console.error('Error saving video:', error);
-            setError('Failed to save video. Please try again.');
+    // Documents are created one by one; the upload manager then uploads several files in parallel
+    for (const item of pendingFiles) {
+      // Replacements are uploaded without a separate proxy
+      const wantsProxy = item.proxyMode === 'instead' || (item.proxyMode === 'alongside' && !item.replaceVideoId);
+
+      let proxyFile: File | undefined;
+      if (wantsProxy) {
+        try {
+          updateFile(item.key, { proxyProgress: 0, error: undefined });
+          proxyFile = await createProxy(item.file, (progress) => updateFile(item.key, { proxyProgress: progress }));
+        } catch (proxyError) {
+          console.error('Proxy error:', proxyError);
+          updateFile(item.key, { proxyProgress: undefined, error: 'Could not create a proxy of this file. Choose another proxy option and try again.' });
+          continue;
+        }
+      }
+
+      try {
+        const sha256 = item.sha256 || await hashesRef.current.get(item.key);
+        const uploadFile = item.proxyMode === 'instead' && proxyFile ? proxyFile : item.file;
+
+        let videoId: string;
+        let title = item.title.trim();
+        let uploadPath: string;
+        let proxyPath: string | undefined;
+        let target: UploadTarget = 'master';
+
+        if (item.replaceVideoId && item.duplicate) {
+          // New media for the existing video. It is processed as a new version and
+          // swapped in, so the video's details, stats and URL are kept.
+          videoId = item.replaceVideoId;
+          title = item.duplicate.title;
+          target = 'replacement';
+          ({ storagePath: uploadPath } = await beginMediaReplacement(user, videoId, uploadFile, {
+            // Always the hash of the file the owner picked, so a proxy-only upload still matches its original
+            sha256,
+            ...(item.proxyMode === 'instead' && proxyFile ? { originalFile: item.file } : {})
+          }));
+        } else {
+          // The server checks the upload against the plan's limits and hands out its paths
+          const initiated = await initiateVideoUpload(user, {
+            filename: uploadFile.name,
+            sizeBytes: uploadFile.size,
+            contentType: videoContentType(uploadFile) || 'video/mp4',
+            // Always the hash of the file the owner picked, so a proxy-only upload still matches its original
+            ...(sha256 ? { sha256 } : {}),
+            ...(item.proxyMode === 'instead' && proxyFile
+              ? { originalFileName: item.file.name, originalSizeBytes: item.file.size }
+              : {}),
+            ...(item.proxyMode === 'alongside' && proxyFile ? { proxySizeBytes: proxyFile.size } : {})
+          });
+          videoId = initiated.videoId;
+          uploadPath = initiated.storagePath;
+          proxyPath = initiated.proxyPath;
+
+          // Create the video document first so the transcoding function can find it
+          // when the upload finalizes. Playback URLs are filled in once renditions are ready.
+          await createVideoRecord(user, buildVideoData(item, initiated.metadataToken));
+
+          // The local preview frame is the poster until processing picks a better one.
+          // The storage rules check ownership against the video document, so it goes up second.
+          if (item.previewBlob) {
+            try {
+              const previewRef = ref(storage, `thumbnails/${videoId}/preview.jpg`);
+              await uploadBytes(previewRef, item.previewBlob, { contentType: 'image/jpeg' });
+              await updateDoc(doc(db, 'videos', videoId), {
+                'playback.posterUrl': await getDownloadURL(previewRef),
+                'playback.posterSource': 'upload-preview'
+              });
+            } catch (posterError) {
+              console.warn('Could not upload preview poster:', posterError);
+            }
           }
-          
-          setUploading(false);
         }
-      );
-      
-    } catch (error) {
-      console.error('Upload error:', error);
-      setError('Upload failed. Please try again.');
-      setUploading(false);
+
+        // Uploaded in parts that resume after a reload; progress is also shown in the upload tray
+        const uploadId = await startUpload({
+          file: uploadFile,
+          videoId,
+          title,
+          storagePath: uploadPath,
+          target
+        });
+
+        let proxyUploadId: string | undefined;
+        if (proxyPath && proxyFile) {
+          proxyUploadId = await startUpload({
+            file: proxyFile,
+            videoId,
+            title: `${title} (proxy)`,
+            storagePath: proxyPath,
+            target: 'proxy'
+          });
+        }
+
+        updateFile(item.key, { videoId, uploadId, proxyUploadId, proxyProgress: undefined, error: undefined });
+      } catch (error) {
+        console.error('Upload error:', error);
+        updateFile(item.key, {
+          error: isUserFacingError(error) ? error.message : 'Could not start this upload. Please try again.'
+        });
+      }
     }
+
+    setSubmitting(false);
   };
 
   return (
@@ -270,105 +473,85 @@ export default function UploadPage() {
             <form onSubmit={handleSubmit}>
               {/* File Upload */}
               <div className="card" style={{ marginBottom: 'var(--space-6)' }}>
-                <h2 style={{ marginBottom: 'var(--space-4)' }}>Select Video</h2>
+                <h2 style={{ marginBottom: 'var(--space-4)' }}>Select Videos</h2>
                 
-                <div className="upload-area" style={{
-                  border: file ? '2px solid var(--success)' : '2px dashed var(--border-subtle)',
-                  borderRadius: 'var(--radius-md)',
-                  padding: 'var(--space-6)',
-                  textAlign: 'center',
-                  background: file ? 'color-mix(in srgb, var(--success), transparent 95%)' : 'var(--surface-subtle)',
-                  cursor: 'pointer',
-                  transition: 'all var(--duration-base) var(--ease-standard)'
-                }} onClick={() => fileInputRef.current?.click()}>
+                <div
+                  className={`upload-area${dragActive ? ' upload-area--drag-active' : ''}`}
+                  style={{
+                    border: dragActive ? '2px solid var(--interactive)' : '2px dashed var(--border-subtle)',
+                    borderRadius: 'var(--radius-md)',
+                    padding: 'var(--space-6)',
+                    textAlign: 'center',
+                    background: dragActive ? 'color-mix(in srgb, var(--interactive), transparent 95%)' : 'var(--surface-subtle)',
+                    cursor: 'pointer',
+                    transition: 'all var(--duration-base) var(--ease-standard)'
+                  }}
+                  onClick={() => fileInputRef.current?.click()}
+                  onDragOver={handleDragOver}
+                  onDragLeave={() => setDragActive(false)}
+                  onDrop={handleDrop}
+                >
                   <input
                     ref={fileInputRef}
                     type="file"
                     accept="video/*"
+                    multiple
                     onChange={handleFileChange}
                     style={{ display: 'none' }}
                   />
                   
-                  {file ? (
-                    <div>
-                      <div style={{ fontSize: '48px', marginBottom: 'var(--space-2)' }}>✅</div>
-                      <h3 style={{ marginBottom: 'var(--space-2)' }}>{file.name}</h3>
-                      <p style={{ color: 'var(--text-secondary)' }}>
-                        {(file.size / (1024 * 1024)).toFixed(1)} MB • Click to change
-                      </p>
-                    </div>
-                  ) : (
-                    <div>
-                      <div style={{ fontSize: '48px', marginBottom: 'var(--space-2)' }}>📹</div>
-                      <h3 style={{ marginBottom: 'var(--space-2)' }}>Choose video file</h3>
-                      <p style={{ color: 'var(--text-secondary)' }}>
-                        MP4, MOV, AVI up to 2GB
-                      </p>
-                    </div>
-                  )}
+                  <div>
+                    <div style={{ fontSize: '48px', marginBottom: 'var(--space-2)' }}>📹</div>
+                    <h3 style={{ marginBottom: 'var(--space-2)' }}>
+                      {files.length > 0 ? 'Add more videos' : 'Drop videos here or click to choose'}
+                    </h3>
+                    <p style={{ color: 'var(--text-secondary)' }}>
+                      MP4, MOV, AVI up to {maxUploadGb}GB each • Select several files to upload a batch
+                    </p>
+                  </div>
                 </div>
 
-                {uploading && (
-                  <div style={{ marginTop: 'var(--space-4)' }}>
-                    <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: 'var(--space-2)' }}>
-                      <span>Uploading...</span>
-                      <span>{uploadProgress}%</span>
-                    </div>
-                    <div style={{ 
-                      width: '100%', 
-                      height: '8px', 
-                      background: 'var(--surface-subtle)', 
-                      borderRadius: 'var(--radius-sm)',
-                      overflow: 'hidden'
-                    }}>
-                      <div style={{ 
-                        width: `${uploadProgress}%`, 
-                        height: '100%', 
-                        background: 'var(--interactive)',
-                        transition: 'width var(--duration-base) var(--ease-standard)'
-                      }} />
-                    </div>
-                  </div>
+                {files.length > 0 && (
+                  <ul className="upload-batch-list">
+                    {files.map((item) => (
+                      <UploadBatchItem
+                        key={item.key}
+                        item={item}
+                        upload={findUpload(item.uploadId)}
+                        proxyUpload={findUpload(item.proxyUploadId)}
+                        batchVisibility={visibility}
+                        batchCamera={camera}
+                        cameraOptions={CAMERA_OPTIONS}
+                        onChange={(patch) => updateFile(item.key, patch)}
+                        onRemove={() => removeFile(item.key)}
+                      />
+                    ))}
+                  </ul>
                 )}
               </div>
 
-              {/* Video Details */}
+              {/* Shared Details */}
               <div className="card" style={{ marginBottom: 'var(--space-6)' }}>
-                <h2 style={{ marginBottom: 'var(--space-4)' }}>Video Details</h2>
-                
+                <h2 style={{ marginBottom: 'var(--space-2)' }}>Shared Details</h2>
+                <p style={{ color: 'var(--text-secondary)', marginBottom: 'var(--space-4)' }}>
+                  Applied to every video in this upload. Use Edit details on a file to change its description, visibility, camera or tags.
+                </p>
+
                 <div style={{ marginBottom: 'var(--space-4)' }}>
-                  <label htmlFor="title" style={{ display: 'block', marginBottom: 'var(--space-2)' }}>
-                    Title *
+                  <label htmlFor="folder" style={{ display: 'block', marginBottom: 'var(--space-2)' }}>
+                    Folder
                   </label>
                   <input
-                    id="title"
+                    id="folder"
                     type="text"
-                    value={title}
-                    onChange={(e) => setTitle(e.target.value)}
-                    required
+                    value={folder}
+                    onChange={(e) => setFolder(e.target.value)}
                     className="input"
-                    placeholder="Demo Reel 2024"
+                    placeholder="Spring Campaign 2025"
                     maxLength={100}
                   />
                 </div>
 
-                <div style={{ marginBottom: 'var(--space-4)' }}>
-                  <label htmlFor="description" style={{ display: 'block', marginBottom: 'var(--space-2)' }}>
-                    Description
-                  </label>
-                  <textarea
-                    id="description"
-                    value={description}
-                    onChange={(e) => setDescription(e.target.value)}
-                    className="input"
-                    rows={4}
-                    placeholder="Describe your work, the story behind it, or technical details..."
-                    maxLength={1000}
-                    style={{ resize: 'vertical', minHeight: '120px' }}
-                  />
-                  <div className="char-counter">{description.length}/1000 characters</div>
-                </div>
-
                 <div style={{ marginBottom: 'var(--space-4)' }}>
                   <label style={{ display: 'block', marginBottom: 'var(--space-2)' }}>
                     Tags
@@ -577,10 +760,12 @@ export default function UploadPage() {
                 </Link>
                 <button
                   type="submit"
-                  disabled={uploading || !file}
+                  disabled={submitting || pendingFiles.length === 0}
                   className="btn btn--primary"
                 >
-                  {uploading ? `Uploading... ${uploadProgress}%` : 'Upload Video'}
+                  {submitting
+                    ? 'Starting uploads...'
+                    : pendingFiles.length > 1 ? `Upload ${pendingFiles.length} Videos` : 'Upload Video'}
                 </button>
               </div>
             </form>
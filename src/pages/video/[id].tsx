@@ -2,10 +2,18 @@ import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/router';
 import Head from 'next/head';
 import Link from 'next/link';
-import { doc, getDoc, collection, query, where, getDocs, addDoc, serverTimestamp } from 'firebase/firestore';
-import { db } from '../../lib/firebase';
+import { doc, getDoc, collection, query, where, getDocs, onSnapshot } from 'firebase/firestore';
+import { auth, db } from '../../lib/firebase';
 import { UserProfile } from '../../lib/auth';
 import { useAuth } from '../../contexts/AuthContext';
+import { VideoStatus, VideoProcessing, getVideoStatus } from '../../lib/videoStatus';
+import { VideoStatusPanel } from '../../components/VideoStatusPanel';
+import { VideoPlayer } from '../../components/VideoPlayer';
+import { PosterSet, getPosterUrl } from '../../lib/posters';
+import { Storyboard } from '../../lib/storyboard';
+import { VideoSeekBar } from '../../components/VideoSeekBar';
+import { TechMeta, TechMetaDetected, DetectableField, resolveTechField, formatTechValue } from '../../lib/techMeta';
+import { detectViewSource, trackPlayback } from '../../lib/playbackAnalytics';
 
 interface Video {
   id: string;
@@ -24,25 +32,34 @@ interface Video {
   };
   vendors: { name: string; type: string; description?: string }[];
   awards: { name: string; category?: string; year?: number; status: 'winner' | 'nominee' | 'finalist' }[];
-  techMeta: { 
-    camera?: string; 
-    lenses?: string; 
-    location?: string; 
-    durationSec?: number;
-    resolution?: string;
-    frameRate?: string;
-    codec?: string;
-    colorProfile?: string;
-  };
+  techMeta: TechMeta;
+  techMetaDetected?: TechMetaDetected;
   releaseDate?: string;
   notes?: string;
   storage: { path: string; sizeBytes: number; downloadURL?: string };
-  playback: { provider: string; id: string; posterUrl?: string; mp4Url?: string };
+  playback: { provider: string; id: string; posterUrl?: string; mp4Url?: string; hlsUrl?: string };
+  posters?: PosterSet;
+  storyboard?: Storyboard;
+  status?: VideoStatus;
+  processing?: VideoProcessing;
   visibility: 'public' | 'private' | 'unlisted';
   createdAt: any;
   updatedAt: any;
 }
 
+// Detectable fields shown under Technical Details, in display order
+const TECHNICAL_FIELDS: { field: DetectableField; label: string }[] = [
+  { field: 'resolution', label: 'Resolution' },
+  { field: 'frameRate', label: 'Frame Rate' },
+  { field: 'codec', label: 'Codec' },
+  { field: 'bitDepth', label: 'Bit Depth' },
+  { field: 'colorProfile', label: 'Color Profile' },
+  { field: 'colorPrimaries', label: 'Color Primaries' },
+  { field: 'colorTransfer', label: 'Transfer Function' },
+  { field: 'audioChannels', label: 'Audio Channels' },
+  { field: 'durationSec', label: 'Duration' }
+];
+
 export default function VideoPage() {
   const router = useRouter();
   const { id } = router.query;
@@ -51,10 +68,7 @@ export default function VideoPage() {
   const [creator, setCreator] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
   const [notFound, setNotFound] = useState(false);
-  const [viewTracked, setViewTracked] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
-  const startTimeRef = useRef<number>(0);
-  const lastTimeRef = useRef<number>(0);
 
   useEffect(() => {
     if (!id || typeof id !== 'string') return;
@@ -112,81 +126,33 @@ export default function VideoPage() {
     fetchVideo();
   }, [id, user]);
 
-  // Track video view
+  // Watch for processing updates until the video becomes playable
+  const videoStatus = video ? getVideoStatus(video) : null;
   useEffect(() => {
-    if (!video || viewTracked) return;
-
-    const trackView = async () => {
-      try {
-        // Determine the source of the view
-        const referrer = document.referrer;
-        let source: 'direct' | 'profile' | 'discover' | 'embed' = 'direct';
-        
-        if (referrer.includes('/profile/')) {
-          source = 'profile';
-        } else if (referrer.includes('/discover')) {
-          source = 'discover';
-        } else if (referrer.includes('/embed/')) {
-          source = 'embed';
-        }
+    if (!video || videoStatus === 'ready' || videoStatus === 'failed') return;
 
-        const viewData = {
-          videoId: video.id,
-          viewerUid: user?.uid || null, // null for anonymous views
-          timestamp: serverTimestamp(),
-          source,
-          watchTimeSeconds: 0, // Will be updated when video ends
-          completed: false
-        };
-
-        await addDoc(collection(db, 'videoViews'), viewData);
-        setViewTracked(true);
-        startTimeRef.current = Date.now();
-        
-        console.log('View tracked for video:', video.id);
-      } catch (error) {
-        console.error('Error tracking view:', error);
+    const unsubscribe = onSnapshot(doc(db, 'videos', video.id), (snapshot) => {
+      if (snapshot.exists()) {
+        setVideo({ id: snapshot.id, ...snapshot.data() } as Video);
       }
-    };
-
-    trackView();
-  }, [video, viewTracked, user]);
-
-  // Track watch time and completion
-  const handleVideoPlay = () => {
-    startTimeRef.current = Date.now();
-  };
+    }, (error) => {
+      console.error('Error watching video status:', error);
+    });
 
-  const handleVideoTimeUpdate = () => {
-    if (videoRef.current) {
-      lastTimeRef.current = videoRef.current.currentTime;
-    }
-  };
+    return unsubscribe;
+  }, [video?.id, videoStatus]);
 
-  const handleVideoEnded = async () => {
-    if (!video || !viewTracked) return;
+  // Report playback to the analytics API once the video can be played
+  const playable = !!video && getVideoStatus(video) === 'ready';
+  useEffect(() => {
+    if (!video?.id || !playable || !videoRef.current) return;
 
-    try {
-      const watchTime = Math.floor((Date.now() - startTimeRef.current) / 1000);
-      
-      // Update the view record with completion data
-      // Note: In a real app, you'd want to store the view ID and update it
-      // For now, we'll create a completion event
-      const completionData = {
-        videoId: video.id,
-        viewerUid: user?.uid || null,
-        timestamp: serverTimestamp(),
-        watchTimeSeconds: watchTime,
-        completed: true,
-        source: 'direct' // Could be tracked from the original view
-      };
-
-      await addDoc(collection(db, 'videoViews'), completionData);
-      console.log('Video completion tracked:', watchTime, 'seconds');
-    } catch (error) {
-      console.error('Error tracking completion:', error);
-    }
-  };
+    return trackPlayback(videoRef.current, {
+      videoId: video.id,
+      source: detectViewSource(document.referrer),
+      getIdToken: () => auth.currentUser?.getIdToken()
+    });
+  }, [video?.id, playable, loading]);
 
   if (loading) {
     return (
@@ -209,7 +175,12 @@ export default function VideoPage() {
   }
 
   const isOwner = user?.uid === video.ownerUid;
-  const videoUrl = video.playback?.mp4Url || video.storage?.downloadURL;
+  const status = getVideoStatus(video);
+  const videoUrl = status === 'ready' ? video.playback?.mp4Url || video.storage?.downloadURL : undefined;
+  const technicalDetails = TECHNICAL_FIELDS.flatMap(({ field, label }) => {
+    const resolved = resolveTechField(video, field);
+    return resolved ? [{ field, label, value: resolved.value }] : [];
+  });
 
   return (
     <>
@@ -222,7 +193,7 @@ export default function VideoPage() {
         <meta property="og:title" content={video.title} />
         <meta property="og:description" content={video.description || `Watch ${video.title}`} />
         <meta property="og:type" content="video.other" />
-        {video.playback?.posterUrl && <meta property="og:image" content={video.playback.posterUrl} />}
+        {getPosterUrl(video, 1280) && <meta property="og:image" content={getPosterUrl(video, 1280)} />}
         {videoUrl && <meta property="og:video" content={videoUrl} />}
       </Head>
       
@@ -238,32 +209,26 @@ export default function VideoPage() {
             position: 'relative'
           }}>
             {videoUrl ? (
-              <video
+              <VideoPlayer
                 ref={videoRef}
+                hlsUrl={video.playback?.hlsUrl}
+                mp4Url={videoUrl}
                 controls
-                poster={video.playback?.posterUrl}
-                onPlay={handleVideoPlay}
-                onTimeUpdate={handleVideoTimeUpdate}
-                onEnded={handleVideoEnded}
+                playsInline
+                poster={getPosterUrl(video, 1280)}
                 style={{ width: '100%', height: '100%' }}
               >
-                <source src={videoUrl} type="video/mp4" />
                 Your browser does not support the video tag.
-              </video>
+              </VideoPlayer>
             ) : (
-              <div style={{ 
-                width: '100%', 
-                height: '100%', 
-                display: 'flex', 
-                alignItems: 'center', 
-                justifyContent: 'center',
-                color: 'white',
-                fontSize: '18px'
-              }}>
-                Video processing...
-              </div>
+              <VideoStatusPanel
+                status={status === 'ready' ? 'processing' : status}
+                failureReason={video.processing?.failureReason}
+                showReason={isOwner}
+              />
             )}
           </div>
+          {videoUrl && <VideoSeekBar videoRef={videoRef} storyboard={video.storyboard} />}
         </div>
 
         {/* Video Info */}
@@ -314,50 +279,30 @@ export default function VideoPage() {
             )}
 
             {/* Technical Details */}
-            {(video.techMeta?.camera || video.techMeta?.lenses || video.techMeta?.location || video.techMeta?.resolution || video.techMeta?.frameRate || video.techMeta?.codec || video.techMeta?.colorProfile) && (
+            {(video.techMeta?.camera || video.techMeta?.lenses || video.techMeta?.location || technicalDetails.length > 0) && (
               <div style={{ marginBottom: 'var(--space-6)' }}>
                 <h3 style={{ marginBottom: 'var(--space-3)' }}>Technical Details</h3>
                 <div className="card" style={{ background: 'var(--surface-subtle)' }}>
-                  {video.techMeta.camera && (
+                  {video.techMeta?.camera && (
                     <div style={{ marginBottom: 'var(--space-2)' }}>
                       <strong>Camera:</strong> {video.techMeta.camera}
                     </div>
                   )}
-                  {video.techMeta.lenses && (
+                  {video.techMeta?.lenses && (
                     <div style={{ marginBottom: 'var(--space-2)' }}>
                       <strong>Lenses:</strong> {video.techMeta.lenses}
                     </div>
                   )}
-                  {video.techMeta.location && (
+                  {video.techMeta?.location && (
                     <div style={{ marginBottom: 'var(--space-2)' }}>
                       <strong>Location:</strong> {video.techMeta.location}
                     </div>
                   )}
-                  {video.techMeta.resolution && (
-                    <div style={{ marginBottom: 'var(--space-2)' }}>
-                      <strong>Resolution:</strong> {video.techMeta.resolution}
-                    </div>
-                  )}
-                  {video.techMeta.frameRate && (
-                    <div style={{ marginBottom: 'var(--space-2)' }}>
-                      <strong>Frame Rate:</strong> {video.techMeta.frameRate}
-                    </div>
-                  )}
-                  {video.techMeta.codec && (
-                    <div style={{ marginBottom: 'var(--space-2)' }}>
-                      <strong>Codec:</strong> {video.techMeta.codec}
-                    </div>
-                  )}
-                  {video.techMeta.colorProfile && (
-                    <div style={{ marginBottom: 'var(--space-2)' }}>
-                      <strong>Color Profile:</strong> {video.techMeta.colorProfile}
-                    </div>
-                  )}
-                  {video.techMeta.durationSec && (
-                    <div>
-                      <strong>Duration:</strong> {Math.floor(video.techMeta.durationSec / 60)}:{(video.techMeta.durationSec % 60).toString().padStart(2, '0')}
+                  {technicalDetails.map(({ field, label, value }) => (
+                    <div key={field} style={{ marginBottom: 'var(--space-2)' }}>
+                      <strong>{label}:</strong> {formatTechValue(field, value)}
                     </div>
-                  )}
+                  ))}
                 </div>
               </div>
             )}
@@ -2,9 +2,15 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/router';
 import Head from 'next/head';
 import Link from 'next/link';
-import { doc, getDoc, collection, query, where, getDocs, orderBy } from 'firebase/firestore';
+import { doc, getDoc } from 'firebase/firestore';
 import { db } from '../../../lib/firebase';
 import { useAuth } from '../../../contexts/AuthContext';
+import { usePlan } from '../../../contexts/PlanContext';
+import { Storyboard } from '../../../lib/storyboard';
+import { RetentionChart } from '../../../components/RetentionChart';
+import { DailyViewsChart } from '../../../components/DailyViewsChart';
+import { DailyStats, fetchVideoDailyStats, lastDays, sumDailyStats } from '../../../lib/analyticsRollups';
+import { VideoRetention, fetchVideoRetention } from '../../../lib/videoApi';
 
 interface Video {
   id: string;
@@ -16,38 +22,36 @@ interface Video {
   createdAt: any;
   updatedAt: any;
   storage: { sizeBytes: number };
+  techMeta?: { durationSec?: number };
+  techMetaDetected?: { durationSec?: number };
+  storyboard?: Storyboard;
 }
 
-// Analytics data structure
-interface VideoView {
-  id: string;
-  videoId: string;
-  viewerUid?: string; // undefined for anonymous views
-  timestamp: any;
-  watchTimeSeconds?: number;
-  completed?: boolean;
-  source?: 'direct' | 'profile' | 'discover' | 'embed';
-}
+// Date ranges to choose from, in days; longer ones are offered when the plan keeps analytics that long
+const RANGE_OPTIONS = [7, 30, 90, 365, 3650];
 
-interface VideoShare {
-  id: string;
-  videoId: string;
-  sharedBy: string;
-  timestamp: any;
-  platform?: string;
-}
+const formatRange = (days: number) => days % 365 === 0
+  ? (days === 365 ? 'year' : `${days / 365} years`)
+  : `${days} days`;
 
 export default function VideoAnalyticsPage() {
   const router = useRouter();
   const { id } = router.query;
   const { user, loading: authLoading } = useAuth();
+  const { plan, loading: planLoading } = usePlan();
+  const retentionDays = plan.entitlements.analyticsRetentionDays;
   
   const [video, setVideo] = useState<Video | null>(null);
-  const [views, setViews] = useState<VideoView[]>([]);
-  const [shares, setShares] = useState<VideoShare[]>([]);
+  const [dailyStats, setDailyStats] = useState<DailyStats[]>([]);
+  const [retention, setRetention] = useState<VideoRetention | null>(null);
+  const [rangeDays, setRangeDays] = useState(30);
   const [loading, setLoading] = useState(true);
   const [analyticsLoading, setAnalyticsLoading] = useState(true);
 
+  // Analytics go back as far as the owner's plan allows
+  const days = Math.min(rangeDays, retentionDays);
+  const rangeOptions = RANGE_OPTIONS.filter(option => option <= retentionDays);
+
   // Redirect if not authenticated
   useEffect(() => {
     if (authLoading) return;
@@ -81,9 +85,6 @@ export default function VideoAnalyticsPage() {
 
         setVideo(videoData);
         
-        // Fetch analytics data
-        await fetchAnalytics(id);
-        
       } catch (error) {
         console.error('Error fetching video:', error);
         router.push('/dashboard');
@@ -92,54 +93,38 @@ export default function VideoAnalyticsPage() {
       }
     };
 
-    const fetchAnalytics = async (videoId: string) => {
+    fetchVideo();
+  }, [id, user, router]);
+
+  // Fetch analytics for the chosen date range
+  useEffect(() => {
+    if (!video || !user || planLoading) return;
+
+    const fetchAnalytics = async () => {
       try {
         setAnalyticsLoading(true);
-        
-        // Fetch video views
-        const viewsRef = collection(db, 'videoViews');
-        const viewsQuery = query(
-          viewsRef,
-          where('videoId', '==', videoId),
-          orderBy('timestamp', 'desc')
-        );
-        
-        const viewsSnapshot = await getDocs(viewsQuery);
-        const viewsData = viewsSnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        })) as VideoView[];
-        
-        setViews(viewsData);
-        
-        // Fetch video shares
-        const sharesRef = collection(db, 'videoShares');
-        const sharesQuery = query(
-          sharesRef,
-          where('videoId', '==', videoId),
-          orderBy('timestamp', 'desc')
-        );
-        
-        const sharesSnapshot = await getDocs(sharesQuery);
-        const sharesData = sharesSnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        })) as VideoShare[];
-        
-        setShares(sharesData);
-        
+        const range = lastDays(days);
+
+        // Totals, sources and shares from the daily rollups; retention from recent sessions
+        const [stats, videoRetention] = await Promise.all([
+          fetchVideoDailyStats(user.uid, video.id, range),
+          fetchVideoRetention(user, video.id, range.from)
+        ]);
+        setDailyStats(stats);
+        setRetention(videoRetention);
+
       } catch (error) {
         console.error('Error fetching analytics:', error);
         // Don't fail the whole page if analytics fail
-        setViews([]);
-        setShares([]);
+        setDailyStats([]);
+        setRetention(null);
       } finally {
         setAnalyticsLoading(false);
       }
     };
 
-    fetchVideo();
-  }, [id, user, router]);
+    fetchAnalytics();
+  }, [video, user, planLoading, days]);
 
   if (authLoading || loading || !user || !video) {
     return (
@@ -149,30 +134,27 @@ export default function VideoAnalyticsPage() {
     );
   }
 
-  // Calculate real analytics from Firestore data
+  // Calculate analytics from the daily rollups
+  const totals = sumDailyStats(dailyStats);
   const analytics = {
-    views: views.length,
-    uniqueViewers: new Set(views.map(v => v.viewerUid).filter(Boolean)).size + 
-                   views.filter(v => !v.viewerUid).length, // Anonymous views count as unique
-    avgWatchTime: views.length > 0 ? 
+    views: totals.views,
+    uniqueViewers: totals.uniqueViewers,
+    avgWatchTime: totals.views > 0 ? 
       (() => {
-        const totalWatchTime = views.reduce((sum, v) => sum + (v.watchTimeSeconds || 0), 0);
-        const avgSeconds = totalWatchTime / views.length;
+        const avgSeconds = totals.watchTimeSeconds / totals.views;
         const minutes = Math.floor(avgSeconds / 60);
         const seconds = Math.floor(avgSeconds % 60);
         return `${minutes}:${seconds.toString().padStart(2, '0')}`;
       })() : '0:00',
-    completionRate: views.length > 0 ? 
-      Math.round((views.filter(v => v.completed).length / views.length) * 100) : 0,
-    shares: shares.length,
-    profileVisits: views.filter(v => v.source === 'profile').length,
-    directViews: views.filter(v => v.source === 'direct').length,
-    discoverViews: views.filter(v => v.source === 'discover').length,
-    embedViews: views.filter(v => v.source === 'embed').length
+    completionRate: totals.views > 0 ? 
+      Math.round((totals.completedViews / totals.views) * 100) : 0,
+    shares: totals.shares,
+    profileVisits: totals.sources.profile,
+    directViews: totals.sources.direct,
+    discoverViews: totals.sources.discover,
+    embedViews: totals.sources.embed
   };
 
-  const timeRange = 'All time';
-
   return (
     <>
       <Head>
@@ -193,9 +175,22 @@ export default function VideoAnalyticsPage() {
               </Link>
             </div>
           </div>
-          <p style={{ color: 'var(--text-secondary)' }}>
-            Performance metrics for the last {timeRange}
-          </p>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 'var(--space-3)' }}>
+            <p style={{ color: 'var(--text-secondary)', margin: 0 }}>
+              Performance metrics for the last {formatRange(days)}
+            </p>
+            <select
+              value={days}
+              onChange={(e) => setRangeDays(Number(e.target.value))}
+              className="input"
+              aria-label="Date range"
+              style={{ width: 'auto' }}
+            >
+              {rangeOptions.map(option => (
+                <option key={option} value={option}>Last {formatRange(option)}</option>
+              ))}
+            </select>
+          </div>
         </div>
 
         {/* Key Metrics */}
@@ -211,7 +206,7 @@ export default function VideoAnalyticsPage() {
             <div className="stat-icon">👥</div>
             <div className="stat-content">
               <div className="stat-number">{analytics.uniqueViewers.toLocaleString()}</div>
-              <div className="stat-label">Unique Viewers</div>
+              <div className="stat-label" title="Counted per day: someone who watches on two days counts twice">Unique Viewers</div>
             </div>
           </div>
           <div className="stat-card">
@@ -230,23 +225,42 @@ export default function VideoAnalyticsPage() {
           </div>
         </div>
 
+        {/* Audience Retention */}
+        <div className="card" style={{ marginBottom: 'var(--space-6)' }}>
+          <h2 style={{ marginBottom: 'var(--space-4)' }}>Audience Retention</h2>
+          {analyticsLoading ? (
+            <div style={{ textAlign: 'center', padding: 'var(--space-4)' }}>
+              Loading analytics...
+            </div>
+          ) : retention && retention.buckets.length > 0 ? (
+            <>
+              <RetentionChart buckets={retention.buckets} durationSec={retention.durationSec} storyboard={video.storyboard} />
+              {retention.sessions >= retention.sampleSize && (
+                <p style={{ margin: 'var(--space-2) 0 0', color: 'var(--text-secondary)', fontSize: 'var(--text-caption-size)' }}>
+                  Based on the {retention.sampleSize} most recent views
+                </p>
+              )}
+            </>
+          ) : (
+            <div style={{ textAlign: 'center', padding: 'var(--space-6)', color: 'var(--text-secondary)' }}>
+              No retention data yet. It shows which parts of the video people watch once they start playing it.
+            </div>
+          )}
+        </div>
+
         {/* Detailed Analytics */}
         <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr', gap: 'var(--space-6)' }}>
           <div>
-            {/* Performance Chart Placeholder */}
+            {/* Views Over Time */}
             <div className="card" style={{ marginBottom: 'var(--space-6)' }}>
               <h2 style={{ marginBottom: 'var(--space-4)' }}>Views Over Time</h2>
-              <div style={{ 
-                height: '300px', 
-                background: 'var(--surface-subtle)', 
-                borderRadius: 'var(--radius-sm)',
-                display: 'flex',
-                alignItems: 'center',
-                justifyContent: 'center',
-                color: 'var(--text-secondary)'
-              }}>
-                📈 Chart would go here (Phase 2)
-              </div>
+              {analyticsLoading ? (
+                <div style={{ textAlign: 'center', padding: 'var(--space-4)' }}>
+                  Loading analytics...
+                </div>
+              ) : (
+                <DailyViewsChart days={dailyStats} range={lastDays(days)} />
+              )}
             </div>
 
             {/* Traffic Sources */}
@@ -256,7 +270,7 @@ export default function VideoAnalyticsPage() {
                 <div style={{ textAlign: 'center', padding: 'var(--space-4)' }}>
                   Loading analytics...
                 </div>
-              ) : views.length > 0 ? (
+              ) : analytics.views > 0 ? (
                 <div style={{ display: 'grid', gap: 'var(--space-3)' }}>
                   <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                     <span>Direct Link</span>
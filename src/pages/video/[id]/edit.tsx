@@ -2,11 +2,14 @@ import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/router';
 import Head from 'next/head';
 import Link from 'next/link';
-import { doc, getDoc, updateDoc, serverTimestamp } from 'firebase/firestore';
-import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
-import { db, storage } from '../../../lib/firebase';
+import { doc, getDoc, updateDoc, serverTimestamp, deleteField } from 'firebase/firestore';
+import { db } from '../../../lib/firebase';
 import { useAuth } from '../../../contexts/AuthContext';
-import { generateVideoThumbnail, formatTime, isValidTimestamp } from '../../../lib/thumbnails';
+import { usePlan } from '../../../contexts/PlanContext';
+import { generateVideoThumbnail, generateThumbnailCandidates, getBestCandidate, ThumbnailCandidate, formatTime, isValidTimestamp } from '../../../lib/thumbnails';
+import { MediaJob, describeMediaJob } from '../../../lib/mediaJobs';
+import { TechMeta, TechMetaDetected, DetectableField, getDurationSec, formatTechValue } from '../../../lib/techMeta';
+import { MediaVersionsCard } from '../../../components/MediaVersionsCard';
 
 interface Video {
   id: string;
@@ -25,21 +28,15 @@ interface Video {
   };
   vendors: { name: string; type: string; description?: string }[];
   awards: { name: string; category?: string; year?: number; status: 'winner' | 'nominee' | 'finalist' }[];
-  techMeta: { 
-    camera?: string; 
-    lenses?: string; 
-    location?: string; 
-    durationSec?: number;
-    resolution?: string;
-    frameRate?: string;
-    codec?: string;
-    colorProfile?: string;
-  };
+  techMeta: TechMeta;
+  techMetaDetected?: TechMetaDetected;
   releaseDate?: string;
   notes?: string;
   storage: { downloadURL?: string };
   playback: { posterUrl?: string; mp4Url?: string };
+  thumbnailCandidates?: ThumbnailCandidate[];
   visibility: 'public' | 'private' | 'unlisted';
+  folder?: string;
 }
 
 const CAMERA_OPTIONS = [
@@ -114,10 +111,47 @@ const COLOR_PROFILE_OPTIONS = [
   'Other'
 ];
 
+const BIT_DEPTH_OPTIONS = [
+  '8-bit',
+  '10-bit',
+  '12-bit',
+  '16-bit',
+  'Other'
+];
+
+const COLOR_PRIMARIES_OPTIONS = [
+  'BT.709',
+  'BT.2020',
+  'DCI-P3',
+  'Display P3',
+  'BT.601 (PAL)',
+  'BT.601 (NTSC)',
+  'Other'
+];
+
+const COLOR_TRANSFER_OPTIONS = [
+  'BT.709',
+  'PQ (ST 2084)',
+  'HLG',
+  'sRGB',
+  'Linear',
+  'BT.601',
+  'Other'
+];
+
+const AUDIO_CHANNEL_OPTIONS = [
+  '1 (Mono)',
+  '2 (Stereo)',
+  '6 (5.1)',
+  '8 (7.1)',
+  'Other'
+];
+
 export default function EditVideoPage() {
   const router = useRouter();
   const { id } = router.query;
   const { user, loading: authLoading } = useAuth();
+  const { plan } = usePlan();
   
   const [video, setVideo] = useState<Video | null>(null);
   const [loading, setLoading] = useState(true);
@@ -137,6 +171,11 @@ export default function EditVideoPage() {
   const [frameRate, setFrameRate] = useState('');
   const [codec, setCodec] = useState('');
   const [colorProfile, setColorProfile] = useState('');
+  const [bitDepth, setBitDepth] = useState('');
+  const [colorPrimaries, setColorPrimaries] = useState('');
+  const [colorTransfer, setColorTransfer] = useState('');
+  const [audioChannels, setAudioChannels] = useState('');
+  const [durationSec, setDurationSec] = useState('');
   const [releaseDate, setReleaseDate] = useState('');
   const [notes, setNotes] = useState('');
   const [collaborators, setCollaborators] = useState<{ name: string; role: string }[]>([]);
@@ -147,10 +186,13 @@ export default function EditVideoPage() {
   const [vendors, setVendors] = useState<{ name: string; type: string; description: string }[]>([]);
   const [awards, setAwards] = useState<{ name: string; category: string; year: string; status: 'winner' | 'nominee' | 'finalist' }[]>([]);
   const [visibility, setVisibility] = useState<'public' | 'private' | 'unlisted'>('public');
-  const [capturedFrames, setCapturedFrames] = useState<string[]>([]);
+  const [folder, setFolder] = useState('');
+  const [candidates, setCandidates] = useState<ThumbnailCandidate[]>([]);
   const [selectedThumbnail, setSelectedThumbnail] = useState<string>('');
   const [videoReady, setVideoReady] = useState(false);
   const [thumbnailGenerating, setThumbnailGenerating] = useState(false);
+  const [candidatesGenerating, setCandidatesGenerating] = useState(false);
+  const [mediaJob, setMediaJob] = useState<MediaJob | null>(null);
   
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -199,6 +241,11 @@ export default function EditVideoPage() {
         setFrameRate(videoData.techMeta?.frameRate || '');
         setCodec(videoData.techMeta?.codec || '');
         setColorProfile(videoData.techMeta?.colorProfile || '');
+        setBitDepth(videoData.techMeta?.bitDepth || '');
+        setColorPrimaries(videoData.techMeta?.colorPrimaries || '');
+        setColorTransfer(videoData.techMeta?.colorTransfer || '');
+        setAudioChannels(videoData.techMeta?.audioChannels || '');
+        setDurationSec(videoData.techMeta?.durationSec?.toString() || '');
         setReleaseDate(videoData.releaseDate || '');
         setNotes(videoData.notes || '');
         setCollaborators(videoData.collaborators.map(c => ({ name: c.name || '', role: c.role })));
@@ -209,7 +256,9 @@ export default function EditVideoPage() {
         setVendors(videoData.vendors?.map(v => ({ name: v.name, type: v.type, description: v.description || '' })) || []);
         setAwards(videoData.awards?.map(a => ({ name: a.name, category: a.category || '', year: a.year?.toString() || '', status: a.status })) || []);
         setVisibility(videoData.visibility);
+        setFolder(videoData.folder || '');
         setSelectedThumbnail(videoData.playback?.posterUrl || '');
+        setCandidates(videoData.thumbnailCandidates || []);
         
         console.log('Video data loaded:', {
           title: videoData.title,
@@ -237,6 +286,31 @@ export default function EditVideoPage() {
     );
   }
 
+  // Shows whether a technical value was detected from the file or entered by hand.
+  // An empty manual value falls back to the detected one.
+  const renderTechSource = (field: DetectableField, manualValue: string) => {
+    const detectedValue = video.techMetaDetected?.[field];
+
+    if (manualValue) {
+      return (
+        <span className="tech-source tech-source--manual">
+          Entered manually{detectedValue ? ` · detected ${formatTechValue(field, detectedValue)}` : ''}
+        </span>
+      );
+    }
+
+    if (detectedValue) {
+      return <span className="tech-source tech-source--detected">Detected</span>;
+    }
+
+    return null;
+  };
+
+  const detectedOptionLabel = (field: DetectableField, fallback: string) => {
+    const detectedValue = video.techMetaDetected?.[field];
+    return detectedValue ? `Auto-detected: ${formatTechValue(field, detectedValue)}` : fallback;
+  };
+
   const addTag = () => {
     if (newTag.trim() && !tags.includes(newTag.trim())) {
       setTags([...tags, newTag.trim()]);
@@ -367,7 +441,7 @@ export default function EditVideoPage() {
     }
 
     // Validate timestamp
-    if (!isValidTimestamp(currentTime, video.techMeta?.durationSec)) {
+    if (!isValidTimestamp(currentTime, getDurationSec(video))) {
       setError('Invalid timestamp for thumbnail generation.');
       return;
     }
@@ -383,9 +457,8 @@ export default function EditVideoPage() {
       const result = await generateVideoThumbnail({
         videoId: video.id,
         timestamp: currentTime,
-        userId: user.uid,
         quality: 'high'
-      });
+      }, setMediaJob);
       
       if (result.success && result.thumbnailUrl) {
         // Refresh video data to get the updated thumbnail
@@ -413,6 +486,7 @@ export default function EditVideoPage() {
       setError(error instanceof Error ? error.message : 'Failed to generate thumbnail. Please try again.');
     } finally {
       setThumbnailGenerating(false);
+      setMediaJob(null);
       setTimeout(() => {
         setSuccess('');
         setError('');
@@ -424,120 +498,46 @@ export default function EditVideoPage() {
     setSelectedThumbnail(frameUrl);
   };
 
-  const removeFrame = (frameUrl: string) => {
-    setCapturedFrames(capturedFrames.filter(frame => frame !== frameUrl));
-    if (selectedThumbnail === frameUrl) {
+  const bestCandidate = getBestCandidate(candidates);
+
+  const removeCandidate = (candidate: ThumbnailCandidate) => {
+    setCandidates(candidates.filter(c => c.id !== candidate.id));
+    if (selectedThumbnail === candidate.url) {
       setSelectedThumbnail('');
     }
   };
 
-  // Generate multiple thumbnails like YouTube (at key moments)
+  // Extract real frames at scene changes (topped up with evenly spaced frames) as poster options
   const generateAutoThumbnails = async () => {
-    if (!video || !videoRef.current || !user) return;
-
-    const videoElement = videoRef.current;
-    const duration = videoElement.duration;
-    
-    if (!duration || duration === 0) {
-      alert('Video duration not available. Please try again after the video loads completely.');
-      return;
-    }
+    if (!video || !user) return;
 
     try {
-      // Generate thumbnails at strategic points (like YouTube)
-      const timePoints = [
-        duration * 0.1,  // 10% - Early action
-        duration * 0.33, // 33% - First third
-        duration * 0.5,  // 50% - Middle
-        duration * 0.67, // 67% - Second third  
-        duration * 0.85  // 85% - Near end
-      ];
-
-      console.log('Auto-generating thumbnails at times:', timePoints);
-
-      for (let i = 0; i < timePoints.length; i++) {
-        const time = timePoints[i];
-        const timeMinutes = Math.floor(time / 60);
-        const timeSeconds = Math.floor(time % 60);
-        const timeDisplay = `${timeMinutes}:${timeSeconds.toString().padStart(2, '0')}`;
-        
-        // Create professional thumbnail for each time point
-        const canvas = document.createElement('canvas');
-        canvas.width = 1280;
-        canvas.height = 720;
-        const ctx = canvas.getContext('2d');
-        
-        if (ctx) {
-          // Create unique gradient for each thumbnail
-          const hue = (i * 60) % 360; // Different colors for each thumbnail
-          const gradient = ctx.createLinearGradient(0, 0, 1280, 720);
-          gradient.addColorStop(0, `hsl(${hue}, 20%, 15%)`);
-          gradient.addColorStop(1, `hsl(${hue}, 30%, 25%)`);
-          
-          ctx.fillStyle = gradient;
-          ctx.fillRect(0, 0, 1280, 720);
-          
-          // Add play button
-          ctx.fillStyle = '#10B981';
-          ctx.beginPath();
-          ctx.arc(640, 360, 60, 0, 2 * Math.PI);
-          ctx.fill();
-          
-          // Add triangle
-          ctx.fillStyle = 'white';
-          ctx.beginPath();
-          ctx.moveTo(620, 340);
-          ctx.lineTo(620, 380);
-          ctx.lineTo(660, 360);
-          ctx.closePath();
-          ctx.fill();
-          
-          // Add time text
-          ctx.fillStyle = 'white';
-          ctx.font = 'bold 36px Arial';
-          ctx.textAlign = 'center';
-          ctx.fillText(timeDisplay, 640, 480);
-          
-          ctx.font = '20px Arial';
-          ctx.fillStyle = '#9ca3af';
-          ctx.fillText(`Option ${i + 1}`, 640, 510);
-          
-          // Convert to blob and upload to Firebase
-          await new Promise<void>((resolve) => {
-            canvas.toBlob(async (blob) => {
-              if (!blob) {
-                resolve();
-                return;
-              }
-              
-              try {
-                const timestamp = Date.now() + i; // Ensure unique timestamps
-                const frameRef = ref(storage, `thumbnails/${video.id}/auto_${timestamp}.jpg`);
-                
-                await uploadBytes(frameRef, blob);
-                const thumbnailUrl = await getDownloadURL(frameRef);
-                
-                setCapturedFrames(prev => [...prev, thumbnailUrl]);
-                console.log(`Auto thumbnail ${i + 1} uploaded:`, thumbnailUrl);
-                
-              } catch (uploadError) {
-                console.error(`Error uploading auto thumbnail ${i + 1}:`, uploadError);
-              }
-              
-              resolve();
-            }, 'image/jpeg', 0.8);
-          });
-        }
-        
-        // Small delay between uploads
-        await new Promise(resolve => setTimeout(resolve, 100));
+      setCandidatesGenerating(true);
+      setError('');
+      setSuccess('');
+
+      const result = await generateThumbnailCandidates({
+        videoId: video.id,
+        mode: 'scene'
+      }, setMediaJob);
+
+      if (result.success && result.candidates) {
+        setCandidates(result.candidates);
+        setSuccess(`Generated ${result.candidates.length} frame options (in ${result.processingTime ? Math.round(result.processingTime / 1000) : '?'}s)`);
+      } else {
+        throw new Error(result.error || 'Unknown error occurred');
       }
-      
-      alert(`Generated ${timePoints.length} thumbnail options and saved to Firebase!`);
-      
+
     } catch (error) {
-      console.error('Error generating auto thumbnails:', error);
-      alert('Failed to generate thumbnails. Please try again.');
+      console.error('Error generating thumbnail candidates:', error);
+      setError(error instanceof Error ? error.message : 'Failed to generate thumbnails. Please try again.');
+    } finally {
+      setCandidatesGenerating(false);
+      setMediaJob(null);
+      setTimeout(() => {
+        setSuccess('');
+        setError('');
+      }, 5000);
     }
   };
 
@@ -562,7 +562,11 @@ export default function EditVideoPage() {
       if (frameRate) techMeta.frameRate = frameRate;
       if (codec) techMeta.codec = codec;
       if (colorProfile) techMeta.colorProfile = colorProfile;
-      if (video.techMeta?.durationSec) techMeta.durationSec = video.techMeta.durationSec;
+      if (bitDepth) techMeta.bitDepth = bitDepth;
+      if (colorPrimaries) techMeta.colorPrimaries = colorPrimaries;
+      if (colorTransfer) techMeta.colorTransfer = colorTransfer;
+      if (audioChannels) techMeta.audioChannels = audioChannels;
+      if (durationSec && parseFloat(durationSec) > 0) techMeta.durationSec = parseFloat(durationSec);
 
       // Clean credits object
       const credits = {
@@ -604,12 +608,15 @@ export default function EditVideoPage() {
         releaseDate: releaseDate || null,
         notes: notes.trim() || null,
         visibility,
+        folder: folder.trim() || null,
         updatedAt: serverTimestamp()
       };
 
       // Update thumbnail if a new one was selected
       if (selectedThumbnail && selectedThumbnail !== video.playback?.posterUrl) {
         updateData['playback.posterUrl'] = selectedThumbnail;
+        // The owner's pick is never replaced by processing
+        updateData['playback.posterSource'] = deleteField();
       }
 
       await updateDoc(doc(db, 'videos', video.id), updateData);
@@ -621,9 +628,14 @@ export default function EditVideoPage() {
         router.push(`/video/${video.id}`);
       }, 1500);
       
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error updating video:', error);
-      setError('Failed to update video. Please try again.');
+      // The rules refuse making a video private once the plan's allowance is used up
+      if (error?.code === 'permission-denied' && visibility !== 'public' && video.visibility === 'public') {
+        setError(`The ${plan.name} plan allows ${plan.entitlements.privateVideos} private or unlisted videos. Make this video public or upgrade.`);
+      } else {
+        setError('Failed to update video. Please try again.');
+      }
     } finally {
       setSaving(false);
     }
@@ -752,10 +764,22 @@ export default function EditVideoPage() {
                     >
                       {thumbnailGenerating ? '⏳ Generating...' : '📸 Capture Current Frame'}
                     </button>
+                    <button
+                      type="button"
+                      onClick={generateAutoThumbnails}
+                      className="btn btn--secondary"
+                      disabled={candidatesGenerating}
+                    >
+                      {candidatesGenerating ? '⏳ Extracting frames...' : '🎞️ Suggest Frames'}
+                    </button>
                   </div>
                   <p style={{ margin: 0, color: 'var(--text-secondary)', fontSize: 'var(--text-small-size)', lineHeight: 1.4 }}>
-                    {thumbnailGenerating
+                    {mediaJob && (thumbnailGenerating || candidatesGenerating)
+                      ? `${describeMediaJob(mediaJob)}...`
+                      : thumbnailGenerating
                       ? "Generating high-quality thumbnail from video frame..."
+                      : candidatesGenerating
+                        ? "Finding scene changes and extracting frames from your video..."
                       : videoReady 
                         ? "Scrub to the perfect moment in the video timeline and click 'Capture Current Frame' to create a professional thumbnail"
                         : "Loading video... Please wait"
@@ -807,10 +831,10 @@ export default function EditVideoPage() {
                 )}
 
                 {/* Captured Frames */}
-                {capturedFrames.length > 0 && (
+                {candidates.length > 0 && (
                   <div>
                     <h4 style={{ marginBottom: 'var(--space-2)', fontSize: 'var(--text-base-size)', color: 'var(--text-secondary)' }}>
-                      Captured Frames ({capturedFrames.length})
+                      Suggested Frames ({candidates.length})
                     </h4>
                     <div style={{ 
                       display: 'grid', 
@@ -818,22 +842,22 @@ export default function EditVideoPage() {
                       gap: 'var(--space-2)',
                       marginBottom: 'var(--space-4)'
                     }}>
-                      {capturedFrames.map((frameUrl, index) => (
+                      {candidates.map((candidate) => (
                         <div 
-                          key={frameUrl}
-                          onClick={() => selectThumbnail(frameUrl)}
+                          key={candidate.id}
+                          onClick={() => selectThumbnail(candidate.url)}
                           style={{ 
                             position: 'relative',
                             cursor: 'pointer',
-                            border: selectedThumbnail === frameUrl ? '2px solid var(--interactive)' : '2px solid transparent',
+                            border: selectedThumbnail === candidate.url ? '2px solid var(--interactive)' : '2px solid transparent',
                             borderRadius: 'var(--radius-sm)',
                             overflow: 'hidden',
                             transition: 'all 0.2s ease'
                           }}
                         >
                           <img 
-                            src={frameUrl} 
-                            alt={`Frame ${index + 1}`}
+                            src={candidate.url} 
+                            alt={`Frame at ${formatTime(candidate.timestamp)}`}
                             style={{ 
                               width: '100%', 
                               aspectRatio: '16/9', 
@@ -841,7 +865,37 @@ export default function EditVideoPage() {
                               display: 'block'
                             }}
                           />
-                          {selectedThumbnail === frameUrl && (
+                          <div style={{
+                            position: 'absolute',
+                            bottom: 'var(--space-1)',
+                            right: 'var(--space-1)',
+                            background: 'rgba(0, 0, 0, 0.7)',
+                            color: 'white',
+                            padding: '2px var(--space-1)',
+                            borderRadius: 'var(--radius-sm)',
+                            fontSize: '10px'
+                          }}>
+                            {formatTime(candidate.timestamp)}
+                          </div>
+                          {bestCandidate?.id === candidate.id && (
+                            <div
+                              title={candidate.scores && `Sharpness ${Math.round(candidate.scores.sharpness * 100)}% · Exposure ${Math.round(candidate.scores.exposure * 100)}% · Color ${Math.round(candidate.scores.colorfulness * 100)}%`}
+                              style={{
+                                position: 'absolute',
+                                bottom: 'var(--space-1)',
+                                left: 'var(--space-1)',
+                                background: 'var(--success)',
+                                color: 'white',
+                                padding: '2px var(--space-1)',
+                                borderRadius: 'var(--radius-sm)',
+                                fontSize: '10px',
+                                fontWeight: 600
+                              }}
+                            >
+                              ★ Best
+                            </div>
+                          )}
+                          {selectedThumbnail === candidate.url && (
                             <div style={{
                               position: 'absolute',
                               top: 'var(--space-1)',
@@ -860,7 +914,7 @@ export default function EditVideoPage() {
                             type="button"
                             onClick={(e) => {
                               e.stopPropagation();
-                              removeFrame(frameUrl);
+                              removeCandidate(candidate);
                             }}
                             style={{
                               position: 'absolute',
@@ -902,7 +956,8 @@ export default function EditVideoPage() {
                     <li>Scrub through the video to find the most compelling moment</li>
                     <li>Look for clear, well-lit shots that represent your content</li>
                     <li>Avoid blurry frames or transition moments</li>
-                    <li>Click any captured frame to set it as your thumbnail</li>
+                    <li>Use Suggest Frames to pull options from scene changes in your video; ★ marks the sharpest, best-exposed one</li>
+                    <li>Click any suggested frame to set it as your thumbnail</li>
                   </ul>
                 </div>
               </div>
@@ -912,6 +967,9 @@ export default function EditVideoPage() {
             <canvas ref={canvasRef} style={{ display: 'none' }} />
           </div>
 
+          {/* Replace Media & Versions */}
+          <MediaVersionsCard videoId={video.id} title={video.title} />
+
           {/* Basic Details */}
           <div className="card" style={{ marginBottom: 'var(--space-6)' }}>
             <h2 style={{ marginBottom: 'var(--space-4)' }}>Video Details</h2>
@@ -984,6 +1042,21 @@ export default function EditVideoPage() {
               </div>
             </div>
 
+            <div style={{ marginBottom: 'var(--space-4)' }}>
+              <label htmlFor="folder" style={{ display: 'block', marginBottom: 'var(--space-2)' }}>
+                Folder
+              </label>
+              <input
+                id="folder"
+                type="text"
+                value={folder}
+                onChange={(e) => setFolder(e.target.value)}
+                className="input"
+                placeholder="Spring Campaign 2025"
+                maxLength={100}
+              />
+            </div>
+
             <div>
               <label style={{ display: 'block', marginBottom: 'var(--space-2)' }}>
                 Visibility
@@ -1061,7 +1134,7 @@ export default function EditVideoPage() {
             <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 'var(--space-4)', marginBottom: 'var(--space-4)' }}>
               <div>
                 <label htmlFor="resolution" style={{ display: 'block', marginBottom: 'var(--space-2)' }}>
-                  Resolution
+                  Resolution {renderTechSource('resolution', resolution)}
                 </label>
                 <select
                   id="resolution"
@@ -1069,7 +1142,7 @@ export default function EditVideoPage() {
                   onChange={(e) => setResolution(e.target.value)}
                   className="input"
                 >
-                  <option value="">Select resolution</option>
+                  <option value="">{detectedOptionLabel('resolution', 'Select resolution')}</option>
                   {RESOLUTION_OPTIONS.map((res) => (
                     <option key={res} value={res}>{res}</option>
                   ))}
@@ -1078,7 +1151,7 @@ export default function EditVideoPage() {
               
               <div>
                 <label htmlFor="frameRate" style={{ display: 'block', marginBottom: 'var(--space-2)' }}>
-                  Frame Rate
+                  Frame Rate {renderTechSource('frameRate', frameRate)}
                 </label>
                 <select
                   id="frameRate"
@@ -1086,7 +1159,7 @@ export default function EditVideoPage() {
                   onChange={(e) => setFrameRate(e.target.value)}
                   className="input"
                 >
-                  <option value="">Select frame rate</option>
+                  <option value="">{detectedOptionLabel('frameRate', 'Select frame rate')}</option>
                   {FRAME_RATE_OPTIONS.map((rate) => (
                     <option key={rate} value={rate}>{rate}</option>
                   ))}
@@ -1097,7 +1170,7 @@ export default function EditVideoPage() {
             <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 'var(--space-4)', marginBottom: 'var(--space-4)' }}>
               <div>
                 <label htmlFor="codec" style={{ display: 'block', marginBottom: 'var(--space-2)' }}>
-                  Codec
+                  Codec {renderTechSource('codec', codec)}
                 </label>
                 <select
                   id="codec"
@@ -1105,7 +1178,7 @@ export default function EditVideoPage() {
                   onChange={(e) => setCodec(e.target.value)}
                   className="input"
                 >
-                  <option value="">Select codec</option>
+                  <option value="">{detectedOptionLabel('codec', 'Select codec')}</option>
                   {CODEC_OPTIONS.map((cod) => (
                     <option key={cod} value={cod}>{cod}</option>
                   ))}
@@ -1114,7 +1187,7 @@ export default function EditVideoPage() {
               
               <div>
                 <label htmlFor="colorProfile" style={{ display: 'block', marginBottom: 'var(--space-2)' }}>
-                  Color Profile
+                  Color Profile {renderTechSource('colorProfile', colorProfile)}
                 </label>
                 <select
                   id="colorProfile"
@@ -1122,7 +1195,7 @@ export default function EditVideoPage() {
                   onChange={(e) => setColorProfile(e.target.value)}
                   className="input"
                 >
-                  <option value="">Select color profile</option>
+                  <option value="">{detectedOptionLabel('colorProfile', 'Select color profile')}</option>
                   {COLOR_PROFILE_OPTIONS.map((profile) => (
                     <option key={profile} value={profile}>{profile}</option>
                   ))}
@@ -1130,6 +1203,96 @@ export default function EditVideoPage() {
               </div>
             </div>
 
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 'var(--space-4)', marginBottom: 'var(--space-4)' }}>
+              <div>
+                <label htmlFor="bitDepth" style={{ display: 'block', marginBottom: 'var(--space-2)' }}>
+                  Bit Depth {renderTechSource('bitDepth', bitDepth)}
+                </label>
+                <select
+                  id="bitDepth"
+                  value={bitDepth}
+                  onChange={(e) => setBitDepth(e.target.value)}
+                  className="input"
+                >
+                  <option value="">{detectedOptionLabel('bitDepth', 'Select bit depth')}</option>
+                  {BIT_DEPTH_OPTIONS.map((depth) => (
+                    <option key={depth} value={depth}>{depth}</option>
+                  ))}
+                </select>
+              </div>
+              
+              <div>
+                <label htmlFor="audioChannels" style={{ display: 'block', marginBottom: 'var(--space-2)' }}>
+                  Audio Channels {renderTechSource('audioChannels', audioChannels)}
+                </label>
+                <select
+                  id="audioChannels"
+                  value={audioChannels}
+                  onChange={(e) => setAudioChannels(e.target.value)}
+                  className="input"
+                >
+                  <option value="">{detectedOptionLabel('audioChannels', 'Select audio channels')}</option>
+                  {AUDIO_CHANNEL_OPTIONS.map((channels) => (
+                    <option key={channels} value={channels}>{channels}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 'var(--space-4)', marginBottom: 'var(--space-4)' }}>
+              <div>
+                <label htmlFor="colorPrimaries" style={{ display: 'block', marginBottom: 'var(--space-2)' }}>
+                  Color Primaries {renderTechSource('colorPrimaries', colorPrimaries)}
+                </label>
+                <select
+                  id="colorPrimaries"
+                  value={colorPrimaries}
+                  onChange={(e) => setColorPrimaries(e.target.value)}
+                  className="input"
+                >
+                  <option value="">{detectedOptionLabel('colorPrimaries', 'Select color primaries')}</option>
+                  {COLOR_PRIMARIES_OPTIONS.map((primaries) => (
+                    <option key={primaries} value={primaries}>{primaries}</option>
+                  ))}
+                </select>
+              </div>
+              
+              <div>
+                <label htmlFor="colorTransfer" style={{ display: 'block', marginBottom: 'var(--space-2)' }}>
+                  Transfer Function {renderTechSource('colorTransfer', colorTransfer)}
+                </label>
+                <select
+                  id="colorTransfer"
+                  value={colorTransfer}
+                  onChange={(e) => setColorTransfer(e.target.value)}
+                  className="input"
+                >
+                  <option value="">{detectedOptionLabel('colorTransfer', 'Select transfer function')}</option>
+                  {COLOR_TRANSFER_OPTIONS.map((transfer) => (
+                    <option key={transfer} value={transfer}>{transfer}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div style={{ marginBottom: 'var(--space-4)' }}>
+              <label htmlFor="durationSec" style={{ display: 'block', marginBottom: 'var(--space-2)' }}>
+                Duration (seconds) {renderTechSource('durationSec', durationSec)}
+              </label>
+              <input
+                id="durationSec"
+                type="number"
+                min="0"
+                step="0.01"
+                value={durationSec}
+                onChange={(e) => setDurationSec(e.target.value)}
+                className="input"
+                placeholder={video.techMetaDetected?.durationSec
+                  ? `Auto-detected: ${video.techMetaDetected.durationSec}`
+                  : 'Duration in seconds'}
+              />
+            </div>
+
             <div>
               <label htmlFor="location" style={{ display: 'block', marginBottom: 'var(--space-2)' }}>
                 Filming Location
@@ -0,0 +1,91 @@
+import { deleteApp, getApps, initializeApp } from 'firebase/app';
+import { Firestore, connectFirestoreEmulator, getFirestore } from 'firebase/firestore';
+import { PLANS, PlanId } from '../src/lib/plans';
+
+// Set by `firebase emulators:exec`
+export const projectId = process.env.GCLOUD_PROJECT || 'demo-folio';
+
+// The app's named database; @firebase/rules-unit-testing only clears and connects to (default)
+export const DATABASE_ID = 'folio-nicco';
+
+function firestoreEmulator(): { host: string; port: number } {
+  const hostAndPort = process.env.FIRESTORE_EMULATOR_HOST;
+  if (!hostAndPort) throw new Error('FIRESTORE_EMULATOR_HOST is not set; run the tests with `npm test`');
+  const [host, port] = hostAndPort.split(':');
+  return { host, port: Number(port) };
+}
+
+/**
+ * Delete every document in the app's database on the emulator
+ */
+export async function clearFirestore(): Promise<void> {
+  const { host, port } = firestoreEmulator();
+  const response = await fetch(
+    `http://${host}:${port}/emulator/v1/projects/${projectId}/databases/${DATABASE_ID}/documents`,
+    { method: 'DELETE' }
+  );
+  if (!response.ok) throw new Error(`Clearing Firestore failed with status ${response.status}`);
+}
+
+/**
+ * Delete every account in the Auth emulator
+ */
+export async function clearAuth(): Promise<void> {
+  const host = process.env.FIREBASE_AUTH_EMULATOR_HOST;
+  if (!host) throw new Error('FIREBASE_AUTH_EMULATOR_HOST is not set; run the tests with `npm test`');
+
+  const response = await fetch(`http://${host}/emulator/v1/projects/${projectId}/accounts`, { method: 'DELETE' });
+  if (!response.ok) throw new Error(`Clearing Auth failed with status ${response.status}`);
+}
+
+// Custom claims as syncPlanClaims sets them
+export type PlanClaims = { plan: PlanId; entitlements: object; planExpiresAt?: number };
+
+/**
+ * The claims of a user on a plan
+ * @param planId - The plan
+ * @param planExpiresAt - End of a past-due subscription's grace period (ms)
+ */
+export function planClaims(planId: PlanId, planExpiresAt?: number): PlanClaims {
+  return {
+    plan: planId,
+    entitlements: PLANS[planId].entitlements,
+    ...(planExpiresAt !== undefined && { planExpiresAt })
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Each shape of custom claims syncPlanClaims can leave on a token, and whether it unlocks the paid plan
+export const CLAIM_SHAPES = [
+  { name: 'a user without plan claims', claims: {}, paid: false },
+  { name: 'a free user', claims: planClaims('free'), paid: false },
+  { name: 'a paid user', claims: planClaims('pro'), paid: true },
+  { name: 'a past-due user within the grace period', claims: planClaims('pro', Date.now() + 3 * DAY_MS), paid: true },
+  { name: 'a past-due user after the grace period', claims: planClaims('pro', Date.now() - DAY_MS), paid: false }
+];
+
+let appCount = 0;
+
+/**
+ * The web SDK's view of the app's database as a signed-in user, or as `'admin'`
+ * with security rules bypassed for setting up data
+ * @param uid - The user, or 'admin'
+ * @param claims - Custom claims on the user's ID token
+ */
+export function firestoreAs(uid: string, claims: object = {}): Firestore {
+  const app = initializeApp({ projectId }, `test-${++appCount}`);
+  const db = getFirestore(app, DATABASE_ID);
+  const { host, port } = firestoreEmulator();
+  connectFirestoreEmulator(db, host, port, {
+    mockUserToken: uid === 'admin' ? 'owner' : { sub: uid, user_id: uid, ...claims }
+  });
+  return db;
+}
+
+/**
+ * Close the apps firestoreAs opened
+ */
+export async function deleteTestApps(): Promise<void> {
+  await Promise.all(getApps().map((app) => deleteApp(app)));
+}
@@ -0,0 +1,141 @@
+import { readFileSync } from 'fs';
+import { RulesTestEnvironment, assertFails, assertSucceeds, initializeTestEnvironment } from '@firebase/rules-unit-testing';
+import { deleteField, doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
+import { PLANS } from '../src/lib/plans';
+import { CLAIM_SHAPES, clearFirestore, deleteTestApps, firestoreAs, planClaims, projectId } from './emulators';
+
+const UID = 'alice';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let testEnv: RulesTestEnvironment;
+
+beforeAll(async () => {
+  // Loads the rules into the emulator for every database of the project
+  testEnv = await initializeTestEnvironment({
+    projectId,
+    firestore: { rules: readFileSync('firestore.rules', 'utf8') }
+  });
+});
+
+afterAll(async () => {
+  await deleteTestApps();
+  await testEnv?.cleanup();
+});
+
+beforeEach(clearFirestore);
+
+/**
+ * A public video of the user's, and their count of private and unlisted videos
+ */
+async function seedPublicVideo(privateVideoCount: number) {
+  const admin = firestoreAs('admin');
+  await setDoc(doc(admin, 'videos/video-1'), { ownerUid: UID, title: 'Reel', visibility: 'public' });
+  await setDoc(doc(admin, `usage/${UID}`), { privateVideoCount });
+}
+
+describe('private video limit', () => {
+  const freeLimit = PLANS.free.entitlements.privateVideos;
+
+  it.each(CLAIM_SHAPES)('lets $name make a video private below the Free limit', async ({ claims }) => {
+    await seedPublicVideo(freeLimit - 1);
+    const db = firestoreAs(UID, claims);
+
+    await assertSucceeds(updateDoc(doc(db, 'videos/video-1'), { visibility: 'private' }));
+  });
+
+  it.each(CLAIM_SHAPES)('applies the right limit to $name at the Free limit', async ({ claims, paid }) => {
+    await seedPublicVideo(freeLimit);
+    const db = firestoreAs(UID, claims);
+
+    const update = updateDoc(doc(db, 'videos/video-1'), { visibility: 'unlisted' });
+    await (paid ? assertSucceeds(update) : assertFails(update));
+  });
+
+  it('holds paid users to their own plan limit', async () => {
+    await seedPublicVideo(PLANS.pro.entitlements.privateVideos);
+    const db = firestoreAs(UID, planClaims('pro'));
+
+    await assertFails(updateDoc(doc(db, 'videos/video-1'), { visibility: 'private' }));
+  });
+
+  it('always allows making a video public again', async () => {
+    const admin = firestoreAs('admin');
+    await setDoc(doc(admin, 'videos/video-1'), { ownerUid: UID, title: 'Reel', visibility: 'private' });
+    await setDoc(doc(admin, `usage/${UID}`), { privateVideoCount: freeLimit + 5 });
+    const db = firestoreAs(UID, planClaims('pro', Date.now() - DAY_MS));
+
+    await assertSucceeds(updateDoc(doc(db, 'videos/video-1'), { visibility: 'public' }));
+  });
+
+  it('allows edits that leave visibility alone over the limit', async () => {
+    await seedPublicVideo(freeLimit + 5);
+    const db = firestoreAs(UID, planClaims('free'));
+
+    await assertSucceeds(updateDoc(doc(db, 'videos/video-1'), { title: 'Showreel' }));
+  });
+});
+
+describe('video playback', () => {
+  beforeEach(async () => {
+    await setDoc(doc(firestoreAs('admin'), 'videos/video-1'), {
+      ownerUid: UID,
+      title: 'Reel',
+      visibility: 'public',
+      playback: {
+        provider: 'native',
+        id: 'video-1',
+        mp4Url: 'https://example.com/1080p.mp4',
+        renditions: [{ height: 1080, width: 1920, path: 'renditions/video-1/1080p.mp4', url: 'https://example.com/1080p.mp4', sizeBytes: 1000 }]
+      }
+    });
+  });
+
+  it('lets the owner pick the poster', async () => {
+    const db = firestoreAs(UID, planClaims('pro'));
+
+    await assertSucceeds(updateDoc(doc(db, 'videos/video-1'), {
+      'playback.posterUrl': 'https://example.com/preview.jpg',
+      'playback.posterSource': 'upload-preview'
+    }));
+    await assertSucceeds(updateDoc(doc(db, 'videos/video-1'), { 'playback.posterSource': deleteField() }));
+  });
+
+  it('keeps playback URLs and renditions server-only', async () => {
+    const db = firestoreAs(UID, planClaims('pro'));
+
+    await assertFails(updateDoc(doc(db, 'videos/video-1'), { 'playback.mp4Url': 'https://example.com/other.mp4' }));
+    await assertFails(updateDoc(doc(db, 'videos/video-1'), { 'playback.hlsUrl': 'https://example.com/master.m3u8' }));
+    await assertFails(updateDoc(doc(db, 'videos/video-1'), { 'playback.renditions': [] }));
+    await assertFails(updateDoc(doc(db, 'videos/video-1'), { playback: deleteField() }));
+  });
+});
+
+describe('billing fields', () => {
+  it.each(CLAIM_SHAPES)('cannot be changed by $name', async ({ claims }) => {
+    await setDoc(doc(firestoreAs('admin'), `users/${UID}`), { displayName: 'Alice', planId: 'free' });
+    const db = firestoreAs(UID, claims);
+
+    await assertFails(updateDoc(doc(db, `users/${UID}`), { planId: 'studio' }));
+    await assertFails(updateDoc(doc(db, `users/${UID}`), { graceUntil: new Date(Date.now() + 30 * DAY_MS) }));
+    await assertSucceeds(updateDoc(doc(db, `users/${UID}`), { displayName: 'Alice B.' }));
+  });
+});
+
+describe('analytics', () => {
+  it('keeps playback sessions and shares server-only, even from the video owner', async () => {
+    const admin = firestoreAs('admin');
+    await setDoc(doc(admin, 'videoViews/session-1'), { videoId: 'video-1', ownerUid: UID, ipHash: 'abc' });
+    await setDoc(doc(admin, 'videoShares/share-1'), { videoId: 'video-1', ownerUid: UID, sharedBy: 'bob' });
+    const db = firestoreAs(UID, planClaims('pro'));
+
+    await assertFails(getDoc(doc(db, 'videoViews/session-1')));
+    await assertFails(getDoc(doc(db, 'videoShares/share-1')));
+  });
+
+  it('lets only the owner read their rollups', async () => {
+    await setDoc(doc(firestoreAs('admin'), 'ownerStatsDaily/alice_2025-03-14'), { ownerUid: UID, date: '2025-03-14', views: 3 });
+
+    await assertSucceeds(getDoc(doc(firestoreAs(UID), 'ownerStatsDaily/alice_2025-03-14')));
+    await assertFails(getDoc(doc(firestoreAs('bob'), 'ownerStatsDaily/alice_2025-03-14')));
+  });
+});
@@ -0,0 +1,73 @@
+import type Stripe from 'stripe';
+
+// Stripe objects and events as the webhook receives them, with only the fields it reads
+
+const DAY_SEC = 24 * 60 * 60;
+const now = () => Math.floor(Date.now() / 1000);
+
+let eventCount = 0;
+
+export function subscription(fields: {
+  id?: string;
+  customer?: string;
+  userId?: string;
+  status: Stripe.Subscription.Status;
+  priceId?: string;
+}): Stripe.Subscription {
+  return {
+    id: fields.id || 'sub_replay',
+    object: 'subscription',
+    customer: fields.customer || 'cus_replay',
+    status: fields.status,
+    metadata: fields.userId ? { userId: fields.userId } : {},
+    items: { object: 'list', data: [{ price: { id: fields.priceId || 'price_pro' } }] },
+    current_period_end: now() + 30 * DAY_SEC,
+    cancel_at_period_end: false,
+    trial_end: null,
+    default_payment_method: null
+  } as unknown as Stripe.Subscription;
+}
+
+export function invoice(fields: {
+  id?: string;
+  customer?: string;
+  subscription?: string;
+  status: Stripe.Invoice.Status;
+}): Stripe.Invoice {
+  return {
+    id: fields.id || 'in_replay',
+    object: 'invoice',
+    customer: fields.customer || 'cus_replay',
+    subscription: fields.subscription || 'sub_replay',
+    status: fields.status,
+    number: 'REPLAY-0001',
+    amount_due: 5000,
+    amount_paid: fields.status === 'paid' ? 5000 : 0,
+    currency: 'usd',
+    created: now(),
+    period_start: now() - 30 * DAY_SEC,
+    period_end: now(),
+    hosted_invoice_url: null,
+    invoice_pdf: null
+  } as unknown as Stripe.Invoice;
+}
+
+/**
+ * An event wrapping an object
+ * @param type - Event type
+ * @param object - The subscription, invoice or other object the event is about
+ * @param created - When Stripe created the event (seconds); later events can be delivered first
+ */
+export function event(type: string, object: { id: string }, created = now()): Stripe.Event {
+  return {
+    id: `evt_replay_${++eventCount}`,
+    object: 'event',
+    api_version: '2024-06-20',
+    created,
+    type,
+    livemode: false,
+    pending_webhooks: 1,
+    request: { id: null, idempotency_key: null },
+    data: { object }
+  } as unknown as Stripe.Event;
+}
@@ -0,0 +1,17 @@
+import { generateKeyPairSync } from 'crypto';
+
+// Runs before each test file, ahead of the modules that read these at import.
+// firebase-admin needs a well-formed service account even though the emulators never check it.
+process.env.FIREBASE_PROJECT_ID = process.env.GCLOUD_PROJECT || 'demo-folio';
+process.env.FIREBASE_CLIENT_EMAIL = 'tests@demo-folio.iam.gserviceaccount.com';
+process.env.FIREBASE_PRIVATE_KEY = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' }
+}).privateKey;
+
+// Stripe is never called; the tests stub the API methods the webhook uses
+process.env.STRIPE_SECRET_KEY = 'sk_test_replay';
+process.env.STRIPE_WEBHOOK_SECRET = 'whsec_replay';
+process.env.STRIPE_PRICE_ID_PRO = 'price_pro';
+process.env.STRIPE_PRICE_ID_STUDIO = 'price_studio';
@@ -0,0 +1,117 @@
+import { readFileSync } from 'fs';
+import { RulesTestEnvironment, TokenOptions, assertFails, assertSucceeds, initializeTestEnvironment } from '@firebase/rules-unit-testing';
+import { doc, setDoc } from 'firebase/firestore';
+import { PLANS } from '../src/lib/plans';
+import { CLAIM_SHAPES, clearFirestore, deleteTestApps, firestoreAs, planClaims, projectId } from './emulators';
+
+const UID = 'alice';
+const GB = 1024 * 1024 * 1024;
+const MAX_PART_BYTES = 16 * 1024 * 1024;
+
+// Small parts keep the test fast; a part's offset is its index times its size
+const PART_BYTES = 16 * 1024;
+const partBeyond = (limitGb: number) => String(Math.ceil((limitGb * GB) / PART_BYTES)).padStart(5, '0');
+
+let testEnv: RulesTestEnvironment;
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId,
+    storage: { rules: readFileSync('storage.rules', 'utf8') }
+  });
+});
+
+afterAll(async () => {
+  await deleteTestApps();
+  await testEnv?.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearStorage();
+});
+
+function uploadPart(claims: TokenOptions, partName: string, bytes = PART_BYTES, uid = UID) {
+  const storage = testEnv.authenticatedContext(UID, claims).storage();
+  return storage.ref(`uploadParts/${uid}/session-1/${partName}`).put(new Uint8Array(bytes)).then();
+}
+
+describe('upload parts', () => {
+  it.each(CLAIM_SHAPES)('accepts parts within the Free upload limit from $name', async ({ claims }) => {
+    await assertSucceeds(uploadPart(claims, '00000'));
+    const lastPart = Math.ceil((PLANS.free.entitlements.maxUploadGb * GB) / PART_BYTES) - 1;
+    await assertSucceeds(uploadPart(claims, String(lastPart).padStart(5, '0')));
+  });
+
+  it.each(CLAIM_SHAPES)('applies the right upload limit to $name past the Free limit', async ({ claims, paid }) => {
+    const upload = uploadPart(claims, partBeyond(PLANS.free.entitlements.maxUploadGb));
+    await (paid ? assertSucceeds(upload) : assertFails(upload));
+  });
+
+  it('refuses parts past the paid plan upload limit', async () => {
+    const bytes = MAX_PART_BYTES;
+    const partIndex = Math.ceil((PLANS.pro.entitlements.maxUploadGb * GB) / bytes);
+    await assertFails(uploadPart(planClaims('pro'), String(partIndex).padStart(5, '0'), bytes));
+  });
+
+  it('refuses parts larger than 16 MB', async () => {
+    await assertFails(uploadPart(planClaims('pro'), '00000', MAX_PART_BYTES + 1));
+  });
+
+  it('refuses parts that are not named by their index', async () => {
+    await assertFails(uploadPart(planClaims('pro'), 'part-1'));
+  });
+
+  it('refuses parts in another user\'s folder', async () => {
+    await assertFails(uploadPart(planClaims('pro'), '00000', PART_BYTES, 'bob'));
+  });
+});
+
+describe('uploads', () => {
+  it.each(CLAIM_SHAPES)('cannot be written directly by $name', async ({ claims }) => {
+    const storage = testEnv.authenticatedContext(UID, claims).storage();
+    await assertFails(storage.ref(`uploads/${UID}/master.mp4`).put(new Uint8Array(PART_BYTES)).then());
+  });
+});
+
+describe('thumbnails', () => {
+  const JPEG = { contentType: 'image/jpeg' };
+
+  beforeEach(async () => {
+    // The rules look the owner up in Firestore
+    await clearFirestore();
+    await setDoc(doc(firestoreAs('admin'), 'videos/video-1'), { ownerUid: UID, title: 'Reel', visibility: 'public' });
+  });
+
+  const putThumbnail = (uid: string, path: string, metadata = JPEG) =>
+    testEnv.authenticatedContext(uid).storage().ref(path).put(new Uint8Array(1024), metadata).then();
+
+  it('lets the owner upload the preview frame', async () => {
+    await assertSucceeds(putThumbnail(UID, 'thumbnails/video-1/preview.jpg'));
+  });
+
+  it('refuses the preview frame from anyone else', async () => {
+    await assertFails(putThumbnail('bob', 'thumbnails/video-1/preview.jpg'));
+    await assertFails(testEnv.unauthenticatedContext().storage().ref('thumbnails/video-1/preview.jpg')
+      .put(new Uint8Array(1024), JPEG).then());
+  });
+
+  it('refuses a preview frame for a video that does not exist yet', async () => {
+    await assertFails(putThumbnail(UID, 'thumbnails/video-2/preview.jpg'));
+  });
+
+  it('refuses a preview frame that is not a JPEG', async () => {
+    await assertFails(putThumbnail(UID, 'thumbnails/video-1/preview.jpg', { contentType: 'text/html' }));
+  });
+
+  it('keeps generated thumbnails server-only, even from the owner', async () => {
+    await assertFails(putThumbnail(UID, 'thumbnails/video-1/1280.jpg'));
+    await assertFails(putThumbnail(UID, 'thumbnails/video-1/candidates/1/candidate_0_1.jpg'));
+  });
+
+  it('are publicly readable', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await context.storage().ref('thumbnails/video-1/1280.jpg').put(new Uint8Array(1024), JPEG).then();
+    });
+    await assertSucceeds(testEnv.unauthenticatedContext().storage().ref('thumbnails/video-1/1280.jpg').getMetadata());
+  });
+});
@@ -0,0 +1,204 @@
+import { Readable } from 'stream';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type Stripe from 'stripe';
+import handler from '../src/pages/api/stripe/webhook';
+import { stripe } from '../src/lib/server/billing';
+import { adminAuth, adminDb } from '../src/lib/server/firebaseAdmin';
+import { PAYMENT_GRACE_PERIOD_DAYS, resolvePlanId } from '../src/lib/plans';
+import { clearAuth, clearFirestore } from './emulators';
+import { event, invoice, subscription } from './fixtures/stripe';
+
+const UID = 'alice';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The subscription as Stripe currently has it; the webhook fetches it rather than trusting the event
+let current: Stripe.Subscription;
+let retrieveSubscription: jest.SpyInstance;
+
+/**
+ * Deliver an event to the webhook, signed as Stripe would
+ */
+async function deliver(stripeEvent: Stripe.Event) {
+  const payload = JSON.stringify(stripeEvent);
+  const req = Object.assign(Readable.from([Buffer.from(payload)]), {
+    method: 'POST',
+    headers: {
+      'stripe-signature': stripe.webhooks.generateTestHeaderString({
+        payload,
+        secret: process.env.STRIPE_WEBHOOK_SECRET!
+      })
+    }
+  });
+  const res = {
+    statusCode: 0,
+    body: undefined as unknown,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      this.body = body;
+      return this;
+    }
+  };
+
+  await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+  return res;
+}
+
+async function getUser() {
+  return (await adminDb.collection('users').doc(UID).get()).data()!;
+}
+
+async function getClaims() {
+  return (await adminAuth.getUser(UID)).customClaims || {};
+}
+
+beforeEach(async () => {
+  await Promise.all([clearFirestore(), clearAuth()]);
+  await adminAuth.createUser({ uid: UID, email: 'alice@example.com' });
+  await adminDb.collection('users').doc(UID).set({ displayName: 'Alice', customerId: 'cus_replay' });
+
+  current = subscription({ status: 'active', userId: UID });
+  retrieveSubscription = jest.spyOn(stripe.subscriptions, 'retrieve')
+    .mockImplementation(async () => current as Stripe.Response<Stripe.Subscription>);
+  jest.spyOn(stripe.customers, 'retrieve')
+    .mockResolvedValue({ id: 'cus_replay', deleted: false, invoice_settings: {} } as unknown as Stripe.Response<Stripe.Customer>);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('duplicate delivery', () => {
+  it('applies a redelivered event once', async () => {
+    const updated = event('customer.subscription.updated', current);
+
+    const first = await deliver(updated);
+    const second = await deliver(updated);
+
+    expect(first.statusCode).toBe(200);
+    expect(second.statusCode).toBe(200);
+    expect(second.body).toEqual({ received: true, duplicate: true });
+    expect(retrieveSubscription).toHaveBeenCalledTimes(1);
+
+    const record = (await adminDb.collection('stripeEvents').doc(updated.id).get()).data();
+    expect(record).toMatchObject({ status: 'processed', attempts: 1, type: 'customer.subscription.updated' });
+  });
+
+  it('processes a redelivery of an event whose first attempt failed', async () => {
+    const updated = event('customer.subscription.updated', current);
+    retrieveSubscription.mockRejectedValueOnce(new Error('Stripe is unavailable'));
+
+    const first = await deliver(updated);
+    expect(first.statusCode).toBe(500);
+    expect((await adminDb.collection('stripeEvents').doc(updated.id).get()).data()?.status).toBe('failed');
+
+    const second = await deliver(updated);
+    expect(second.statusCode).toBe(200);
+    expect((await adminDb.collection('stripeEvents').doc(updated.id).get()).data())
+      .toMatchObject({ status: 'processed', attempts: 2 });
+    expect(await getUser()).toMatchObject({ subscriptionStatus: 'active', planId: 'pro' });
+  });
+
+  it('starts the grace period once for a redelivered payment failure', async () => {
+    const failed = event('invoice.payment_failed', invoice({ status: 'open' }));
+
+    await deliver(failed);
+    const { updatedAt } = await getUser();
+    const second = await deliver(failed);
+
+    expect(second.body).toEqual({ received: true, duplicate: true });
+    expect((await getUser()).updatedAt.toMillis()).toBe(updatedAt.toMillis());
+  });
+});
+
+describe('out-of-order subscription events', () => {
+  it('leaves a cancelled subscription cancelled when an older update arrives after the deletion', async () => {
+    const sent = Math.floor(Date.now() / 1000);
+    const olderUpdate = event('customer.subscription.updated', subscription({ status: 'active', userId: UID }), sent - 60);
+    current = subscription({ status: 'canceled', userId: UID });
+    const deletion = event('customer.subscription.deleted', current, sent);
+
+    await deliver(deletion);
+    await deliver(olderUpdate);
+
+    expect(await getUser()).toMatchObject({ subscriptionStatus: 'canceled', planId: 'free' });
+    expect(await getClaims()).toMatchObject({ plan: 'free' });
+  });
+
+  it('keeps the latest plan when plan changes arrive in reverse order', async () => {
+    const sent = Math.floor(Date.now() / 1000);
+    const toPro = event('customer.subscription.updated', subscription({ status: 'active', userId: UID, priceId: 'price_pro' }), sent - 60);
+    current = subscription({ status: 'active', userId: UID, priceId: 'price_studio' });
+    const toStudio = event('customer.subscription.updated', current, sent);
+
+    await deliver(toStudio);
+    await deliver(toPro);
+
+    expect(await getUser()).toMatchObject({ subscriptionStatus: 'active', planId: 'studio' });
+    expect(await getClaims()).toMatchObject({ plan: 'studio' });
+  });
+});
+
+describe('invoice.payment_failed', () => {
+  it.each([
+    ['before', ['invoice.payment_failed', 'customer.subscription.updated']],
+    ['after', ['customer.subscription.updated', 'invoice.payment_failed']]
+  ])('moves the user to past_due with a grace period when it arrives %s the subscription update', async (_order, types) => {
+    await deliver(event('customer.subscription.updated', current));
+    current = subscription({ status: 'past_due', userId: UID });
+
+    for (const type of types) {
+      await deliver(type === 'invoice.payment_failed'
+        ? event(type, invoice({ status: 'open' }))
+        : event(type, current));
+    }
+
+    const user = await getUser();
+    const graceUntil = user.graceUntil.toMillis();
+    expect(user).toMatchObject({ subscriptionStatus: 'past_due', planId: 'pro' });
+    expect(user.paymentFailedAt).toBeTruthy();
+    expect(Math.abs(graceUntil - (Date.now() + PAYMENT_GRACE_PERIOD_DAYS * DAY_MS))).toBeLessThan(60 * 1000);
+    expect(resolvePlanId(user)).toBe('pro');
+    expect(await getClaims()).toMatchObject({ plan: 'pro', planExpiresAt: graceUntil });
+
+    const invoiceDoc = await adminDb.collection('users').doc(UID).collection('invoices').doc('in_replay').get();
+    expect(invoiceDoc.data()).toMatchObject({ status: 'open', amountDue: 5000 });
+  });
+
+  it('does not extend the grace period when Stripe retries the payment and it fails again', async () => {
+    current = subscription({ status: 'past_due', userId: UID });
+    await deliver(event('invoice.payment_failed', invoice({ status: 'open' })));
+    const { graceUntil } = await getUser();
+
+    await deliver(event('invoice.payment_failed', invoice({ status: 'open' })));
+
+    expect((await getUser()).graceUntil.toMillis()).toBe(graceUntil.toMillis());
+  });
+
+  it('ends the grace period when the invoice is paid', async () => {
+    current = subscription({ status: 'past_due', userId: UID });
+    await deliver(event('invoice.payment_failed', invoice({ status: 'open' })));
+
+    current = subscription({ status: 'active', userId: UID });
+    await deliver(event('invoice.paid', invoice({ status: 'paid' })));
+
+    expect(await getUser()).toMatchObject({ subscriptionStatus: 'active', paymentFailedAt: null, graceUntil: null });
+    expect(await getClaims()).not.toHaveProperty('planExpiresAt');
+  });
+
+  it('drops the user to Free once the grace period is over', async () => {
+    current = subscription({ status: 'past_due', userId: UID });
+    await deliver(event('customer.subscription.updated', current));
+    await deliver(event('invoice.payment_failed', invoice({ status: 'open' })));
+    await adminDb.collection('users').doc(UID).update({ graceUntil: new Date(Date.now() - DAY_MS) });
+
+    await deliver(event('customer.subscription.updated', current));
+
+    const user = await getUser();
+    expect(user).toMatchObject({ subscriptionStatus: 'past_due', planId: 'pro' });
+    expect(resolvePlanId(user)).toBe('free');
+    expect(await getClaims()).toMatchObject({ plan: 'free' });
+  });
+});